@@ -0,0 +1,82 @@
+/**
+ * Tests for share backend registry
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  registerBackend,
+  listBackends,
+  getShareBackend,
+  resolveShareBackend,
+  UnknownBackendError,
+  DEFAULT_BACKEND,
+} from '../backends/registry.js';
+import { GistClient } from '../gist/client.js';
+import type { ShareBackend } from '../backends/types.js';
+
+function fakeBackend(name: string): ShareBackend {
+  return {
+    name,
+    create: vi.fn(),
+    fetch: vi.fn(),
+    update: vi.fn(),
+    delete: vi.fn(),
+    list: vi.fn(),
+  };
+}
+
+describe('backend registry', () => {
+  let originalBackend: string | undefined;
+
+  beforeEach(() => {
+    originalBackend = process.env.SESSION_SHARE_BACKEND;
+    delete process.env.SESSION_SHARE_BACKEND;
+    process.env.GITHUB_TOKEN = 'ghp_test_token_1234567890';
+
+    registerBackend({
+      name: 'fake',
+      create: () => fakeBackend('fake'),
+      matches: (ref) => ref.startsWith('fake://'),
+    });
+  });
+
+  afterEach(() => {
+    if (originalBackend) {
+      process.env.SESSION_SHARE_BACKEND = originalBackend;
+    } else {
+      delete process.env.SESSION_SHARE_BACKEND;
+    }
+  });
+
+  it('should register gist as the default backend', () => {
+    expect(DEFAULT_BACKEND).toBe('gist');
+    expect(listBackends()).toContain('gist');
+    expect(getShareBackend()).toBeInstanceOf(GistClient);
+  });
+
+  it('should select backend by name', () => {
+    expect(getShareBackend('fake').name).toBe('fake');
+  });
+
+  it('should select backend from SESSION_SHARE_BACKEND', () => {
+    process.env.SESSION_SHARE_BACKEND = 'fake';
+
+    expect(getShareBackend().name).toBe('fake');
+  });
+
+  it('should throw UnknownBackendError listing available backends', () => {
+    expect(() => getShareBackend('nope')).toThrow(UnknownBackendError);
+    expect(() => getShareBackend('nope')).toThrow(/Unknown share backend "nope". Available backends: gist, local, s3, gitlab, fake/);
+  });
+
+  it('should resolve backend by URL scheme', () => {
+    expect(resolveShareBackend('fake://share/123').name).toBe('fake');
+    expect(resolveShareBackend('https://gist.github.com/user/aa5a315d61ae9438b18d').name).toBe('gist');
+  });
+
+  it('should fall back to the configured backend for unrecognized references', () => {
+    process.env.SESSION_SHARE_BACKEND = 'fake';
+
+    expect(resolveShareBackend('abc123').name).toBe('fake');
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * Tests for chunked bundle file storage
+ */
+
+import { describe, it, expect } from 'vitest';
+import { chunkLargeFiles, reassembleChunks, isChunkPartFilename } from '../shares/chunking.js';
+import { hashContent } from '../shares/ledger.js';
+
+describe('chunkLargeFiles', () => {
+  const jsonl = Array.from({ length: 200 }, (_, i) => JSON.stringify({ uuid: `m-${i}`, text: `line ${i}` })).join('\n');
+
+  it('should keep small files as they are', async () => {
+    const files = { 'session.jsonl': '{}', 'metadata.json': '{}' };
+
+    expect(await chunkLargeFiles(files)).toEqual({ files, chunks: {} });
+  });
+
+  it('should split large JSONL files into numbered compressed parts', async () => {
+    const { files, chunks } = await chunkLargeFiles(
+      { 'session.jsonl': jsonl, 'metadata.json': '{}' },
+      { thresholdBytes: 100, partChars: 64 }
+    );
+
+    const manifest = chunks['session.jsonl'];
+    expect(manifest.encoding).toBe('gzip+base64');
+    expect(manifest.parts.length).toBeGreaterThan(1);
+    expect(manifest.parts[0]).toBe('session.part-001.jsonl.gz.b64');
+    expect(manifest.size).toBe(Buffer.byteLength(jsonl));
+    expect(manifest.contentHash).toBe(hashContent(jsonl));
+    expect(Object.keys(files).sort()).toEqual(['metadata.json', ...manifest.parts].sort());
+    expect(manifest.parts.every((part) => files[part].length <= 64)).toBe(true);
+  });
+
+  it('should round-trip through reassembleChunks', async () => {
+    const { files, chunks } = await chunkLargeFiles({ 'session.jsonl': jsonl, 'metadata.json': '{}' }, { thresholdBytes: 100, partChars: 64 });
+
+    expect(await reassembleChunks(files, chunks)).toEqual({ 'session.jsonl': jsonl, 'metadata.json': '{}' });
+  });
+});
+
+describe('reassembleChunks', () => {
+  async function chunked() {
+    return chunkLargeFiles({ 'session.jsonl': 'x'.repeat(5000) }, { thresholdBytes: 100, partChars: 16 });
+  }
+
+  it('should leave bundles without chunks untouched', async () => {
+    const files = { 'session.jsonl': '{}' };
+
+    expect(await reassembleChunks(files, undefined)).toBe(files);
+  });
+
+  it('should report missing parts', async () => {
+    const { files, chunks } = await chunked();
+    delete files['session.part-002.jsonl.gz.b64'];
+
+    await expect(reassembleChunks(files, chunks)).rejects.toThrow(
+      'session.jsonl is incomplete: missing session.part-002.jsonl.gz.b64.'
+    );
+  });
+
+  it('should reject corrupt parts', async () => {
+    const { files, chunks } = await chunked();
+    files['session.part-001.jsonl.gz.b64'] = 'AAAA';
+
+    await expect(reassembleChunks(files, chunks)).rejects.toThrow(/session.jsonl could not be decompressed/);
+  });
+
+  it('should reject content that does not match the manifest hash', async () => {
+    const { files, chunks } = await chunked();
+
+    await expect(
+      reassembleChunks(files, { 'session.jsonl': { ...chunks['session.jsonl'], contentHash: 'sha256:00' } })
+    ).rejects.toThrow('session.jsonl does not match the content hash in its chunk manifest.');
+  });
+});
+
+describe('isChunkPartFilename', () => {
+  it('should match part filenames only', () => {
+    expect(isChunkPartFilename('session.part-001.jsonl.gz.b64')).toBe(true);
+    expect(isChunkPartFilename('agent-1.part-012.jsonl.gz.b64')).toBe(true);
+    expect(isChunkPartFilename('session.jsonl')).toBe(false);
+  });
+});
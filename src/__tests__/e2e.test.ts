@@ -9,7 +9,8 @@
  */
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { uploadSession } from '../services/session-uploader.js';
+import { uploadSession, updateSharedSession } from '../services/session-uploader.js';
+import { ResidualSecretsError } from '../sanitization/pipeline.js';
 import { importSession } from '../services/session-importer.js';
 import * as gistClient from '../gist/client.js';
 import type {
@@ -21,6 +22,7 @@ import type { GistResponse } from '../gist/types.js';
 import * as fs from 'node:fs/promises';
 import * as path from 'node:path';
 import { tmpdir } from 'node:os';
+import { randomBytes } from 'node:crypto';
 
 describe('End-to-End Session Sharing Workflow', () => {
   let testDir: string;
@@ -39,12 +41,16 @@ describe('End-to-End Session Sharing Workflow', () => {
 
     // Set up environment variable
     process.env.GITHUB_TOKEN = 'test_token';
+    // Keep ~/.claude-session-share and imported sessions inside the test directory
+    vi.stubEnv('HOME', testDir);
 
     // Reset mocks
     vi.clearAllMocks();
   });
 
   afterEach(async () => {
+    vi.unstubAllEnvs();
+
     // Clean up test directory
     try {
       await fs.rm(testDir, { recursive: true, force: true });
@@ -53,17 +59,21 @@ describe('End-to-End Session Sharing Workflow', () => {
     }
   });
 
+  const RealGistClient = gistClient.GistClient;
+
   // Helper to mock GistClient for tests
   function mockGistClient(createGistFn?: any, fetchGistFn?: any) {
-    vi.spyOn(gistClient, 'GistClient').mockImplementation(function (this: any) {
+    vi.spyOn(gistClient, 'GistClient').mockImplementation(function () {
+      // Real prototype so ShareBackend methods delegate to the mocked gist calls
+      const client = Object.create(RealGistClient.prototype);
       if (createGistFn) {
-        this.createGist = createGistFn;
+        client.createGist = createGistFn;
       }
       if (fetchGistFn) {
-        this.fetchGist = fetchGistFn;
+        client.fetchGist = fetchGistFn;
       }
-      this.getOctokit = vi.fn();
-      return this;
+      client.getOctokit = vi.fn();
+      return client;
     } as any);
   }
 
@@ -534,7 +544,10 @@ describe('End-to-End Session Sharing Workflow', () => {
         })
       );
 
-      await uploadSession(sessionPath);
+      // The DATABASE_URL password survives redaction, so the residual scan
+      // blocks the share unless explicitly overridden
+      await expect(uploadSession(sessionPath)).rejects.toThrow(ResidualSecretsError);
+      await uploadSession(sessionPath, { allowResidualFindings: true });
 
       // Verify: Secrets redacted
       expect(uploadedContent).not.toContain('sk_test_abc123def456');
@@ -643,4 +656,341 @@ describe('End-to-End Session Sharing Workflow', () => {
       expect(assistantMsg.snapshot!.messages[0].content).toBe('Hi there!');
     });
   });
+
+  describe('Local share backend', () => {
+    let originalBackend: string | undefined;
+    let originalShareDir: string | undefined;
+
+    beforeEach(() => {
+      originalBackend = process.env.SESSION_SHARE_BACKEND;
+      originalShareDir = process.env.SESSION_SHARE_DIR;
+      process.env.SESSION_SHARE_BACKEND = 'local';
+      process.env.SESSION_SHARE_DIR = path.join(testDir, 'shared-drive');
+    });
+
+    afterEach(() => {
+      if (originalBackend) {
+        process.env.SESSION_SHARE_BACKEND = originalBackend;
+      } else {
+        delete process.env.SESSION_SHARE_BACKEND;
+      }
+      if (originalShareDir) {
+        process.env.SESSION_SHARE_DIR = originalShareDir;
+      } else {
+        delete process.env.SESSION_SHARE_DIR;
+      }
+    });
+
+    it('should round-trip a sanitized session through a shared directory', async () => {
+      const testMessages: SessionMessage[] = [
+        {
+          type: 'user',
+          uuid: 'user-1',
+          sessionId: 'local-session',
+          timestamp: '2026-01-12T10:00:00.000Z',
+          parentUuid: null,
+          message: { role: 'user', content: 'Check /Users/test/myproject/src/app.ts' },
+          cwd: '/Users/test/myproject',
+          version: '1.0.0',
+        } as UserMessage,
+        {
+          type: 'assistant',
+          uuid: 'assistant-1',
+          sessionId: 'local-session',
+          timestamp: '2026-01-12T10:01:00.000Z',
+          parentUuid: 'user-1',
+          messageId: 'msg-1',
+          snapshot: {
+            thinking: 'Internal thinking',
+            messages: [{ role: 'assistant', content: 'Looks fine.' }],
+          },
+        } as AssistantMessage,
+      ];
+
+      await fs.writeFile(sessionPath, testMessages.map((msg) => JSON.stringify(msg)).join('\n'));
+
+      const shareUrl = await uploadSession(sessionPath);
+      expect(shareUrl).toMatch(/^share:\/\/[\w-]+$/);
+
+      // Bundle is written to the shared directory, already sanitized
+      const shareDir = path.join(testDir, 'shared-drive', shareUrl.replace('share://', ''));
+      const storedJsonl = await fs.readFile(path.join(shareDir, 'session.jsonl'), 'utf-8');
+      expect(storedJsonl).not.toContain('/Users/test/myproject');
+      expect(storedJsonl).not.toContain('Internal thinking');
+      await expect(fs.access(path.join(shareDir, 'metadata.json'))).resolves.toBeUndefined();
+
+      // Named after the project directory even though stored paths are relative
+      const manifest = JSON.parse(await fs.readFile(path.join(shareDir, 'share.json'), 'utf-8'));
+      expect(manifest.description).toBe('Claude Code Session - myproject');
+
+      const importDir = path.join(testDir, 'local-import');
+      await fs.mkdir(importDir, { recursive: true });
+
+      // Both share:// and file:// identifiers import the same bundle
+      for (const ref of [shareUrl, `file://${shareDir}`]) {
+        const result = await importSession(ref, importDir);
+        expect(result.messageCount).toBe(2);
+
+        const imported: SessionMessage[] = (await fs.readFile(result.sessionPath, 'utf-8'))
+          .split('\n')
+          .filter((l) => l.trim())
+          .map((l) => JSON.parse(l));
+        expect(imported[0].uuid).not.toBe('user-1');
+        expect(imported[1].parentUuid).toBe(imported[0].uuid);
+        expect((imported[0] as UserMessage).cwd).toBe(importDir);
+      }
+    });
+
+    it('should restore cwd of assistant and system lines on import', async () => {
+      const lines = [
+        {
+          type: 'user',
+          uuid: 'user-1',
+          sessionId: 'local-session',
+          timestamp: '2026-01-12T10:00:00.000Z',
+          parentUuid: null,
+          message: { role: 'user', content: 'Run the tests' },
+          cwd: '/Users/test/myproject',
+          version: '2.0.76',
+        },
+        {
+          type: 'assistant',
+          uuid: 'assistant-1',
+          sessionId: 'local-session',
+          timestamp: '2026-01-12T10:01:00.000Z',
+          parentUuid: 'user-1',
+          cwd: '/Users/test/myproject/sub',
+          version: '2.0.76',
+          message: {
+            model: 'claude-opus-4-5',
+            id: 'msg_1',
+            type: 'message',
+            role: 'assistant',
+            content: [{ type: 'text', text: 'Done.' }],
+            stop_reason: 'end_turn',
+            usage: { input_tokens: 1, output_tokens: 1 },
+          },
+        },
+        {
+          type: 'system',
+          subtype: 'local_command',
+          uuid: 'system-1',
+          sessionId: 'local-session',
+          timestamp: '2026-01-12T10:02:00.000Z',
+          parentUuid: 'assistant-1',
+          cwd: '/Users/test/myproject',
+          content: 'Tests passed in /Users/test/myproject/sub/app.test.ts',
+          level: 'info',
+        },
+      ];
+      await fs.writeFile(sessionPath, lines.map((line) => JSON.stringify(line)).join('\n'));
+
+      const shareUrl = await uploadSession(sessionPath);
+      const importDir = path.join(testDir, 'local-import');
+      await fs.mkdir(importDir, { recursive: true });
+      const result = await importSession(shareUrl, importDir);
+
+      const imported = (await fs.readFile(result.sessionPath, 'utf-8'))
+        .split('\n')
+        .filter((l) => l.trim())
+        .map((l) => JSON.parse(l));
+      expect(imported.map((line) => line.cwd)).toEqual([importDir, path.join(importDir, 'sub'), importDir]);
+      expect(imported[2].content).toBe(`Tests passed in ${path.join(importDir, 'sub/app.test.ts')}`);
+    });
+
+    it('should update the same share in place when the session continues', async () => {
+      const first: UserMessage = {
+        type: 'user',
+        uuid: 'user-1',
+        sessionId: 'local-session',
+        timestamp: '2026-01-12T10:00:00.000Z',
+        parentUuid: null,
+        message: { role: 'user', content: 'First question' },
+        cwd: '/Users/test/myproject',
+        version: '1.0.0',
+      };
+      const second: UserMessage = {
+        ...first,
+        uuid: 'user-2',
+        parentUuid: 'user-1',
+        timestamp: '2026-01-12T10:05:00.000Z',
+        message: { role: 'user', content: 'Follow-up question' },
+      };
+
+      await fs.writeFile(sessionPath, JSON.stringify(first));
+      const shareUrl = await uploadSession(sessionPath);
+
+      await fs.writeFile(sessionPath, [first, second].map((msg) => JSON.stringify(msg)).join('\n'));
+      const updatedUrl = await updateSharedSession(sessionPath);
+
+      expect(updatedUrl).toBe(shareUrl);
+      const shares = await fs.readdir(path.join(testDir, 'shared-drive'));
+      expect(shares).toHaveLength(1);
+
+      const importDir = path.join(testDir, 'local-import');
+      await fs.mkdir(importDir, { recursive: true });
+      const result = await importSession(shareUrl, importDir);
+      expect(result.messageCount).toBe(2);
+    });
+
+    it('should share and import the agent sidechain files of a session', async () => {
+      const main: UserMessage = {
+        type: 'user',
+        uuid: 'user-1',
+        sessionId: 'main-session',
+        timestamp: '2026-01-12T10:00:00.000Z',
+        parentUuid: null,
+        message: { role: 'user', content: 'Run a subagent' },
+        cwd: '/Users/test/myproject',
+        version: '1.0.0',
+      };
+      const agentMessage = (sessionId: string): UserMessage => ({
+        ...main,
+        uuid: `agent-msg-${sessionId}`,
+        sessionId,
+        isSidechain: true,
+        message: { role: 'user', content: 'Inspect /Users/test/myproject/src/app.ts' },
+      });
+      await fs.writeFile(sessionPath, JSON.stringify(main));
+      await fs.writeFile(path.join(testDir, 'agent-a1b2.jsonl'), JSON.stringify(agentMessage('main-session')));
+      await fs.writeFile(path.join(testDir, 'agent-c3d4.jsonl'), JSON.stringify(agentMessage('other-session')));
+
+      const shareUrl = await uploadSession(sessionPath);
+
+      // Only the agent file of this session is bundled, sanitized like the main session
+      const shareDir = path.join(testDir, 'shared-drive', shareUrl.replace('share://', ''));
+      const stored = await fs.readdir(shareDir);
+      expect(stored).toContain('agent-a1b2.jsonl');
+      expect(stored).not.toContain('agent-c3d4.jsonl');
+      expect(await fs.readFile(path.join(shareDir, 'agent-a1b2.jsonl'), 'utf-8')).not.toContain('/Users/test/myproject');
+
+      const importDir = path.join(testDir, 'local-import');
+      await fs.mkdir(importDir, { recursive: true });
+      const result = await importSession(shareUrl, importDir);
+
+      // Agent ids are remapped like message UUIDs, so a second import cannot overwrite the first one's transcripts
+      expect(result.agentSessionPaths).toEqual([expect.stringMatching(/agent-[0-9a-f]{8}\.jsonl$/)]);
+      expect(path.dirname(result.agentSessionPaths[0])).toBe(path.dirname(result.sessionPath));
+      const [importedAgent] = (await fs.readFile(result.agentSessionPaths[0], 'utf-8'))
+        .split('\n')
+        .filter((l) => l.trim())
+        .map((l) => JSON.parse(l));
+      expect(importedAgent.sessionId).toBe(result.sessionId);
+      expect(importedAgent.isSidechain).toBe(true);
+    });
+
+    it('should rebase shared paths onto a project at a different path', async () => {
+      const prompt: UserMessage = {
+        type: 'user',
+        uuid: 'user-1',
+        sessionId: 'moved-session',
+        timestamp: '2026-01-12T10:00:00.000Z',
+        parentUuid: null,
+        message: { role: 'user', content: 'Fix /Users/test/myproject/packages/api/src/server.ts' },
+        cwd: '/Users/test/myproject',
+        version: '1.0.0',
+      };
+      const answer = {
+        type: 'assistant',
+        uuid: 'assistant-1',
+        sessionId: 'moved-session',
+        timestamp: '2026-01-12T10:00:05.000Z',
+        parentUuid: 'user-1',
+        messageId: 'msg-1',
+        message: {
+          model: 'claude-sonnet-4',
+          id: 'msg-1',
+          type: 'message',
+          role: 'assistant',
+          content: [
+            { type: 'text', text: 'Reading /Users/test/myproject/packages/api/src/server.ts and /etc/hosts' },
+            { type: 'tool_use', id: 'toolu_1', name: 'Read', input: { file_path: '/Users/test/myproject/packages/api/src/server.ts' } },
+          ],
+          stop_reason: 'tool_use',
+          usage: { input_tokens: 1, output_tokens: 1 },
+        },
+      } as AssistantMessage;
+      await fs.writeFile(sessionPath, [prompt, answer].map((msg) => JSON.stringify(msg)).join('\n'));
+
+      const shareUrl = await uploadSession(sessionPath);
+      const shareDir = path.join(testDir, 'shared-drive', shareUrl.replace('share://', ''));
+      const stored = JSON.parse(await fs.readFile(path.join(shareDir, 'metadata.json'), 'utf-8'));
+      expect(stored.relativePaths).toEqual(['packages/api/src/server.ts']);
+
+      const importDir = path.join(testDir, 'moved-project');
+      await fs.mkdir(importDir, { recursive: true });
+      const result = await importSession(shareUrl, importDir, { pathMappings: { 'packages/api': 'services/api' } });
+
+      const [importedPrompt, importedAnswer] = (await fs.readFile(result.sessionPath, 'utf-8'))
+        .split('\n')
+        .filter((l) => l.trim())
+        .map((l) => JSON.parse(l));
+      const movedFile = path.join(importDir, 'services/api/src/server.ts');
+      expect(importedPrompt.cwd).toBe(importDir);
+      expect(importedPrompt.message.content).toBe(`Fix ${movedFile}`);
+      expect(importedAnswer.message.content[0].text).toBe(`Reading ${movedFile} and /etc/hosts`);
+      expect(importedAnswer.message.content[1].input.file_path).toBe(movedFile);
+    });
+
+    it('should store large sessions as compressed parts and reassemble them on import', async () => {
+      const messages: UserMessage[] = Array.from({ length: 400 }, (_, i) => ({
+        type: 'user',
+        uuid: `user-${i}`,
+        sessionId: 'large-session',
+        timestamp: '2026-01-12T10:00:00.000Z',
+        parentUuid: i === 0 ? null : `user-${i - 1}`,
+        message: { role: 'user', content: `Tool output line ${i}: ${'lorem ipsum dolor sit amet '.repeat(100)}` },
+        cwd: '/Users/test/myproject',
+        version: '1.0.0',
+      }));
+      await fs.writeFile(sessionPath, messages.map((msg) => JSON.stringify(msg)).join('\n'));
+
+      const shareUrl = await uploadSession(sessionPath);
+
+      const shareDir = path.join(testDir, 'shared-drive', shareUrl.replace('share://', ''));
+      const stored = await fs.readdir(shareDir);
+      expect(stored).toContain('session.part-001.jsonl.gz.b64');
+      expect(stored).not.toContain('session.jsonl');
+      const metadata = JSON.parse(await fs.readFile(path.join(shareDir, 'metadata.json'), 'utf-8'));
+      expect(metadata.chunks['session.jsonl']).toMatchObject({
+        encoding: 'gzip+base64',
+        parts: ['session.part-001.jsonl.gz.b64'],
+      });
+
+      const importDir = path.join(testDir, 'local-import');
+      await fs.mkdir(importDir, { recursive: true });
+      const result = await importSession(shareUrl, importDir);
+      expect(result.messageCount).toBe(400);
+    });
+
+    it('should store large encrypted sessions as ciphertext parts and decrypt them on import', async () => {
+      // Random hex barely compresses, so the encrypted bundle stays above the part size
+      // (in short groups: long hex strings are redacted)
+      const messages: UserMessage[] = Array.from({ length: 400 }, (_, i) => ({
+        type: 'user',
+        uuid: `user-${i}`,
+        sessionId: 'large-encrypted-session',
+        timestamp: '2026-01-12T10:00:00.000Z',
+        parentUuid: i === 0 ? null : `user-${i - 1}`,
+        message: { role: 'user', content: `Checksums ${i}: ${randomBytes(2000).toString('hex').match(/.{8}/g)!.join(' ')}` },
+        cwd: '/Users/test/myproject',
+        version: '1.0.0',
+      }));
+      await fs.writeFile(sessionPath, messages.map((msg) => JSON.stringify(msg)).join('\n'));
+
+      const shareUrl = await uploadSession(sessionPath, { encryption: { passphrase: 'pw' } });
+
+      const shareDir = path.join(testDir, 'shared-drive', shareUrl.replace('share://', ''));
+      const stored = (await fs.readdir(shareDir)).filter((name) => name !== 'share.json').sort();
+      expect(stored).toEqual(['session.enc.json', 'session.enc.part-001.b64', 'session.enc.part-002.b64']);
+      for (const name of stored) {
+        expect((await fs.stat(path.join(shareDir, name))).size).toBeLessThanOrEqual(900 * 1024);
+      }
+
+      const importDir = path.join(testDir, 'local-import');
+      await fs.mkdir(importDir, { recursive: true });
+      const result = await importSession(shareUrl, importDir, { passphrase: 'pw' });
+      expect(result.messageCount).toBe(400);
+    });
+  });
 });
@@ -0,0 +1,157 @@
+/**
+ * Tests for end-to-end share encryption
+ */
+
+import { describe, it, expect } from 'vitest';
+import { generateKeyPairSync, createPublicKey, randomBytes } from 'crypto';
+import {
+  encryptBundle,
+  decryptBundle,
+  isEncryptedBundle,
+  encodePublicKey,
+  parsePublicKey,
+  publicKeyId,
+  EncryptionError,
+  DecryptionError,
+  ENCRYPTED_BUNDLE_FILENAME,
+  ENVELOPE_FORMAT,
+  CIPHERTEXT_PART_CHARS,
+} from '../encryption/envelope.js';
+
+const bundle = {
+  'session.jsonl': '{"type":"user","message":{"content":"secret plan"}}',
+  'metadata.json': '{"projectPath":"acme-internal"}',
+};
+
+function keyPair() {
+  const { privateKey } = generateKeyPairSync('x25519');
+  return { privateKey, publicKey: encodePublicKey(createPublicKey(privateKey)) };
+}
+
+async function decryptError(promise: Promise<unknown>): Promise<DecryptionError> {
+  const error = await promise.catch((e: unknown) => e);
+  expect(error).toBeInstanceOf(DecryptionError);
+  return error as DecryptionError;
+}
+
+describe('encryptBundle', () => {
+  it('should replace the bundle with a single ciphertext envelope', async () => {
+    const encrypted = await encryptBundle(bundle, { passphrase: 'correct horse battery staple' });
+
+    expect(Object.keys(encrypted)).toEqual([ENCRYPTED_BUNDLE_FILENAME]);
+    expect(isEncryptedBundle(encrypted)).toBe(true);
+    expect(isEncryptedBundle(bundle)).toBe(false);
+
+    const content = encrypted[ENCRYPTED_BUNDLE_FILENAME];
+    expect(content).not.toContain('secret plan');
+    expect(content).not.toContain('acme-internal');
+
+    const envelope = JSON.parse(content);
+    expect(envelope).toMatchObject({ format: ENVELOPE_FORMAT, version: 1, cipher: 'aes-256-gcm' });
+    expect(envelope.keys).toEqual([
+      expect.objectContaining({ type: 'passphrase', kdf: 'scrypt', N: 32768, r: 8, p: 1 }),
+    ]);
+  });
+
+  it('should split large ciphertext into parts next to the envelope', async () => {
+    const large = { ...bundle, 'session.part-001.jsonl.gz.b64': randomBytes(CIPHERTEXT_PART_CHARS).toString('base64') };
+
+    const encrypted = await encryptBundle(large, { passphrase: 'pw' });
+
+    expect(Object.keys(encrypted)).toEqual([
+      ENCRYPTED_BUNDLE_FILENAME,
+      'session.enc.part-001.b64',
+      'session.enc.part-002.b64',
+    ]);
+    expect(Object.values(encrypted).every((content) => content.length <= CIPHERTEXT_PART_CHARS)).toBe(true);
+    const envelope = JSON.parse(encrypted[ENCRYPTED_BUNDLE_FILENAME]);
+    expect(envelope).toMatchObject({ version: 2, ciphertextParts: ['session.enc.part-001.b64', 'session.enc.part-002.b64'] });
+    expect(envelope.ciphertext).toBeUndefined();
+    expect(await decryptBundle(encrypted, { passphrase: 'pw' })).toEqual(large);
+
+    const { 'session.enc.part-002.b64': _missing, ...incomplete } = encrypted;
+    const error = await decryptError(decryptBundle(incomplete, { passphrase: 'pw' }));
+    expect(error.reason).toBe('malformed');
+    expect(error.message).toMatch(/missing session\.enc\.part-002\.b64/);
+  });
+
+  it('should require a passphrase or recipient', async () => {
+    await expect(encryptBundle(bundle, {})).rejects.toThrow(EncryptionError);
+  });
+
+  it('should reject malformed recipient keys', async () => {
+    await expect(encryptBundle(bundle, { recipients: ['age1notourformat'] })).rejects.toThrow(
+      /Invalid recipient public key/
+    );
+  });
+});
+
+describe('decryptBundle', () => {
+  it('should round-trip with a passphrase', async () => {
+    const encrypted = await encryptBundle(bundle, { passphrase: 'correct horse battery staple' });
+
+    expect(await decryptBundle(encrypted, { passphrase: 'correct horse battery staple' })).toEqual(bundle);
+  });
+
+  it('should round-trip for each recipient key', async () => {
+    const alice = keyPair();
+    const bob = keyPair();
+    const encrypted = await encryptBundle(bundle, { recipients: [alice.publicKey, bob.publicKey] });
+
+    expect(await decryptBundle(encrypted, { privateKey: alice.privateKey })).toEqual(bundle);
+    expect(await decryptBundle(encrypted, { privateKey: bob.privateKey })).toEqual(bundle);
+  });
+
+  it('should fail with wrong-key for a wrong passphrase', async () => {
+    const encrypted = await encryptBundle(bundle, { passphrase: 'right' });
+
+    const error = await decryptError(decryptBundle(encrypted, { passphrase: 'wrong' }));
+    expect(error.reason).toBe('wrong-key');
+    expect(error.message).toMatch(/Wrong passphrase/);
+  });
+
+  it('should fail with wrong-key for a private key that is not a recipient', async () => {
+    const encrypted = await encryptBundle(bundle, { recipients: [keyPair().publicKey] });
+
+    const error = await decryptError(decryptBundle(encrypted, { privateKey: keyPair().privateKey }));
+    expect(error.reason).toBe('wrong-key');
+  });
+
+  it('should fail with missing-key when no key is provided', async () => {
+    const encrypted = await encryptBundle(bundle, { passphrase: 'pw', recipients: [keyPair().publicKey] });
+
+    const error = await decryptError(decryptBundle(encrypted, {}));
+    expect(error.reason).toBe('missing-key');
+    expect(error.message).toMatch(/requires a passphrase or the private key of a recipient/);
+  });
+
+  it('should detect tampering with the ciphertext or header', async () => {
+    const recipient = keyPair();
+    const encrypted = await encryptBundle(bundle, { recipients: [recipient.publicKey] });
+    const envelope = JSON.parse(encrypted[ENCRYPTED_BUNDLE_FILENAME]);
+
+    const flipped = Buffer.from(envelope.ciphertext, 'base64');
+    flipped[0] ^= 1;
+    const tampered = { [ENCRYPTED_BUNDLE_FILENAME]: JSON.stringify({ ...envelope, ciphertext: flipped.toString('base64') }) };
+
+    const error = await decryptError(decryptBundle(tampered, { privateKey: recipient.privateKey }));
+    expect(error.reason).toBe('malformed');
+  });
+
+  it('should reject envelopes in an unknown format', async () => {
+    const error = await decryptError(
+      decryptBundle({ [ENCRYPTED_BUNDLE_FILENAME]: '{"format":"other"}' }, { passphrase: 'pw' })
+    );
+    expect(error.reason).toBe('malformed');
+  });
+});
+
+describe('public key encoding', () => {
+  it('should round-trip encoded public keys', () => {
+    const { publicKey } = keyPair();
+
+    expect(publicKey).toMatch(/^css-x25519:[A-Za-z0-9_-]{43}$/);
+    expect(encodePublicKey(parsePublicKey(publicKey))).toBe(publicKey);
+    expect(publicKeyId(parsePublicKey(publicKey))).toMatch(/^[0-9a-f]{16}$/);
+  });
+});
@@ -0,0 +1,43 @@
+/**
+ * Tests for share expiry helpers
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseTtl, expiryFromTtl, isExpired } from '../shares/expiry.js';
+
+describe('parseTtl', () => {
+  it('should parse minutes, hours, days and weeks', () => {
+    expect(parseTtl('30m')).toBe(30 * 60 * 1000);
+    expect(parseTtl('12h')).toBe(12 * 60 * 60 * 1000);
+    expect(parseTtl('7d')).toBe(7 * 24 * 60 * 60 * 1000);
+    expect(parseTtl(' 2W ')).toBe(14 * 24 * 60 * 60 * 1000);
+  });
+
+  it('should reject malformed or zero ttls', () => {
+    for (const ttl of ['', '7', 'd', '1.5d', '-1d', '0d', '7 days']) {
+      expect(() => parseTtl(ttl)).toThrow(/Invalid ttl/);
+    }
+  });
+});
+
+describe('expiryFromTtl', () => {
+  it('should add the ttl to the reference time', () => {
+    expect(expiryFromTtl('1d', new Date('2026-01-01T00:00:00.000Z'))).toBe('2026-01-02T00:00:00.000Z');
+  });
+});
+
+describe('isExpired', () => {
+  const now = new Date('2026-01-10T00:00:00.000Z');
+
+  it('should compare the expiry with the reference time', () => {
+    expect(isExpired('2026-01-09T23:59:59.000Z', now)).toBe(true);
+    expect(isExpired('2026-01-10T00:00:00.000Z', now)).toBe(true);
+    expect(isExpired('2026-01-10T00:00:01.000Z', now)).toBe(false);
+  });
+
+  it('should treat missing or unparseable expiries as never expiring', () => {
+    expect(isExpired(undefined, now)).toBe(false);
+    expect(isExpired(null, now)).toBe(false);
+    expect(isExpired('soon', now)).toBe(false);
+  });
+});
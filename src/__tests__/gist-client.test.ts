@@ -3,7 +3,14 @@
  */
 
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
-import { GistClient, GistAuthError, GistApiError } from '../gist/client.js';
+import {
+  GistClient,
+  GistAuthError,
+  GistApiError,
+  isGistReference,
+  parseGistUrl,
+  resolveGitHubHost,
+} from '../gist/client.js';
 
 describe('GistClient', () => {
   let originalToken: string | undefined;
@@ -277,6 +284,144 @@ describe('GistClient', () => {
 
       expect(result.files['session.jsonl'].content).toBe(sessionContent);
     });
+
+    describe('revisions', () => {
+      const sha = '3f6c0b5e0d4f6a1e2b7c9d8e5f4a3b2c1d0e9f8a';
+      const revisionData = {
+        id: 'abc123',
+        url: `https://api.github.com/gists/abc123/${sha}`,
+        html_url: 'https://gist.github.com/abc123',
+        files: { 'session.jsonl': { filename: 'session.jsonl', content: 'old' } },
+        public: false,
+        created_at: '2024-01-01T00:00:00Z',
+        updated_at: '2024-01-01T00:00:00Z',
+        description: 'Test',
+      };
+
+      it('should fetch the revision pinned in the URL', async () => {
+        const client = new GistClient();
+        const octokit = client.getOctokit();
+        const mockGet = vi.fn();
+        const mockGetRevision = vi.fn().mockResolvedValue({ data: revisionData });
+        octokit.rest.gists.get = mockGet as any;
+        octokit.rest.gists.getRevision = mockGetRevision as any;
+
+        const result = await client.fetchGist(`https://gist.github.com/user/abc123/${sha}`);
+
+        expect(mockGetRevision).toHaveBeenCalledWith({ gist_id: 'abc123', sha });
+        expect(mockGet).not.toHaveBeenCalled();
+        expect(result.html_url).toBe(`https://gist.github.com/abc123/${sha}`);
+      });
+
+      it('should prefer an explicit revision over the one in the URL', async () => {
+        const client = new GistClient();
+        const octokit = client.getOctokit();
+        const other = 'a'.repeat(40);
+        const mockGetRevision = vi.fn().mockResolvedValue({ data: revisionData });
+        octokit.rest.gists.getRevision = mockGetRevision as any;
+
+        const share = await client.fetchRevision(`https://gist.github.com/user/abc123/${sha}`, other);
+
+        expect(mockGetRevision).toHaveBeenCalledWith({ gist_id: 'abc123', sha: other });
+        expect(share.url).toBe(`https://gist.github.com/abc123/${other}`);
+      });
+
+      it('should reject malformed revisions without calling the API', async () => {
+        const client = new GistClient();
+        const octokit = client.getOctokit();
+        const mockGetRevision = vi.fn();
+        octokit.rest.gists.getRevision = mockGetRevision as any;
+
+        await expect(client.fetchGist('abc123', 'main')).rejects.toThrow(/Invalid gist revision "main"/);
+        expect(mockGetRevision).not.toHaveBeenCalled();
+      });
+
+      it('should report unknown revisions', async () => {
+        const client = new GistClient();
+        const octokit = client.getOctokit();
+        octokit.rest.gists.getRevision = vi.fn().mockRejectedValue({ status: 404, message: 'Not Found' }) as any;
+
+        await expect(client.fetchGist('abc123', sha)).rejects.toThrow(`Revision ${sha} of gist abc123 not found`);
+      });
+    });
+
+    describe('truncated files', () => {
+      const fullContent = '{"type":"user","uuid":"123"}\n'.repeat(3);
+
+      function truncatedGist(size = Buffer.byteLength(fullContent)) {
+        return {
+          data: {
+            id: 'abc123',
+            url: 'https://api.github.com/gists/abc123',
+            html_url: 'https://gist.github.com/user/abc123',
+            files: {
+              'session.jsonl': {
+                filename: 'session.jsonl',
+                raw_url: 'https://gist.githubusercontent.com/user/abc123/raw/deadbeef/session.jsonl',
+                size,
+                truncated: true,
+                content: fullContent.slice(0, 10),
+              },
+              'metadata.json': { filename: 'metadata.json', size: 2, truncated: false, content: '{}' },
+            },
+            public: false,
+            created_at: '2024-01-01T00:00:00Z',
+            updated_at: '2024-01-01T00:00:00Z',
+            description: 'Test',
+          },
+        };
+      }
+
+      afterEach(() => {
+        vi.unstubAllGlobals();
+      });
+
+      it('should download the full content of truncated files', async () => {
+        const client = new GistClient();
+        client.getOctokit().rest.gists.get = vi.fn().mockResolvedValue(truncatedGist()) as any;
+        const fetchMock = vi.fn().mockResolvedValue(new Response(fullContent));
+        vi.stubGlobal('fetch', fetchMock);
+
+        const result = await client.fetchGist('abc123');
+
+        expect(result.files['session.jsonl'].content).toBe(fullContent);
+        expect(result.files['session.jsonl'].truncated).toBe(false);
+        expect(result.files['metadata.json'].content).toBe('{}');
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+        // The token is not sent to gist.githubusercontent.com
+        expect(fetchMock.mock.calls[0][1]).toEqual({ headers: {} });
+      });
+
+      it('should reject downloads whose size differs from the reported size', async () => {
+        const client = new GistClient();
+        client.getOctokit().rest.gists.get = vi.fn().mockResolvedValue(truncatedGist(20 * 1024 * 1024)) as any;
+        vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response(fullContent)));
+
+        await expect(client.fetchGist('abc123')).rejects.toThrow(/Downloaded session.jsonl is \d+ bytes but the gist reports 20971520/);
+      });
+
+      it('should fail when the raw file cannot be downloaded', async () => {
+        const client = new GistClient();
+        client.getOctokit().rest.gists.get = vi.fn().mockResolvedValue(truncatedGist()) as any;
+        vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response('', { status: 502 })));
+
+        await expect(client.fetchGist('abc123')).rejects.toThrow('Failed to download truncated file session.jsonl (HTTP 502).');
+      });
+
+      it('should download only the requested file in fetchFile', async () => {
+        const client = new GistClient();
+        client.getOctokit().rest.gists.get = vi.fn().mockResolvedValue(truncatedGist()) as any;
+        const fetchMock = vi.fn().mockResolvedValue(new Response(fullContent));
+        vi.stubGlobal('fetch', fetchMock);
+
+        expect(await client.fetchFile('abc123', 'metadata.json')).toBe('{}');
+        expect(await client.fetchFile('abc123', 'missing.json')).toBeNull();
+        expect(fetchMock).not.toHaveBeenCalled();
+
+        expect(await client.fetchFile('abc123', 'session.jsonl')).toBe(fullContent);
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+      });
+    });
   });
 
   describe('createGist', () => {
@@ -460,4 +605,368 @@ describe('GistClient', () => {
       ).rejects.toThrow(/Failed to create gist/);
     });
   });
+
+  describe('updateGist', () => {
+    beforeEach(() => {
+      process.env.GITHUB_TOKEN = 'ghp_test_token_1234567890';
+    });
+
+    it('should update gist files and description', async () => {
+      const client = new GistClient();
+      const octokit = client.getOctokit();
+
+      const mockUpdate = vi.fn().mockResolvedValue({
+        data: {
+          id: 'abc123',
+          url: 'https://api.github.com/gists/abc123',
+          html_url: 'https://gist.github.com/user/abc123',
+          files: {},
+          public: false,
+          created_at: '2024-01-01T00:00:00Z',
+          updated_at: '2024-01-02T00:00:00Z',
+          description: 'Updated',
+        },
+      });
+      octokit.rest.gists.update = mockUpdate as any;
+
+      const result = await client.updateGist(
+        'https://gist.github.com/user/abc123',
+        { 'session.jsonl': 'new content' },
+        'Updated'
+      );
+
+      expect(result.updated_at).toBe('2024-01-02T00:00:00Z');
+      expect(mockUpdate).toHaveBeenCalledWith({
+        gist_id: 'abc123',
+        files: { 'session.jsonl': { content: 'new content' } },
+        description: 'Updated',
+      });
+    });
+
+    it('should send null for files to delete', async () => {
+      const client = new GistClient();
+      const octokit = client.getOctokit();
+
+      const mockUpdate = vi.fn().mockResolvedValue({
+        data: {
+          id: 'abc123',
+          html_url: 'https://gist.github.com/user/abc123',
+          files: {},
+          created_at: '2024-01-01T00:00:00Z',
+          updated_at: '2024-01-02T00:00:00Z',
+        },
+      });
+      octokit.rest.gists.update = mockUpdate as any;
+
+      await client.updateGist('abc123', { 'session.enc.json': '{}', 'session.jsonl': null });
+
+      expect(mockUpdate).toHaveBeenCalledWith({
+        gist_id: 'abc123',
+        files: { 'session.enc.json': { content: '{}' }, 'session.jsonl': null },
+      });
+    });
+
+    it('should throw GistApiError with 403 for gists the token does not own', async () => {
+      const client = new GistClient();
+      const octokit = client.getOctokit();
+
+      octokit.rest.gists.update = vi.fn().mockRejectedValue({ status: 403, message: 'Forbidden' }) as any;
+
+      await expect(client.updateGist('abc123', { 'a.txt': 'x' })).rejects.toMatchObject({
+        name: 'GistApiError',
+        statusCode: 403,
+      });
+    });
+  });
+
+  describe('deleteGist', () => {
+    beforeEach(() => {
+      process.env.GITHUB_TOKEN = 'ghp_test_token_1234567890';
+    });
+
+    it('should delete a gist by URL', async () => {
+      const client = new GistClient();
+      const octokit = client.getOctokit();
+
+      const mockDelete = vi.fn().mockResolvedValue({ status: 204 });
+      octokit.rest.gists.delete = mockDelete as any;
+
+      await client.deleteGist('https://gist.github.com/user/abc123');
+
+      expect(mockDelete).toHaveBeenCalledWith({ gist_id: 'abc123' });
+    });
+
+    it('should throw GistApiError when gist not found', async () => {
+      const client = new GistClient();
+      const octokit = client.getOctokit();
+
+      octokit.rest.gists.delete = vi.fn().mockRejectedValue({ status: 404, message: 'Not Found' }) as any;
+
+      await expect(client.deleteGist('missing')).rejects.toThrow(/Gist not found: missing/);
+    });
+  });
+
+  describe('listGists', () => {
+    beforeEach(() => {
+      process.env.GITHUB_TOKEN = 'ghp_test_token_1234567890';
+    });
+
+    it('should paginate and map gist summaries', async () => {
+      const client = new GistClient();
+      const octokit = client.getOctokit();
+
+      const mockPaginate = vi.fn().mockResolvedValue([
+        {
+          id: 'abc123',
+          html_url: 'https://gist.github.com/user/abc123',
+          description: 'Claude Code Session - project',
+          files: { 'session.jsonl': {}, 'metadata.json': {} },
+          public: false,
+          created_at: '2024-01-01T00:00:00Z',
+          updated_at: '2024-01-02T00:00:00Z',
+        },
+      ]);
+      octokit.paginate = mockPaginate as any;
+
+      const result = await client.listGists();
+
+      expect(mockPaginate).toHaveBeenCalledWith(octokit.rest.gists.list, { per_page: 100 });
+      expect(result).toEqual([
+        {
+          id: 'abc123',
+          html_url: 'https://gist.github.com/user/abc123',
+          description: 'Claude Code Session - project',
+          filenames: ['session.jsonl', 'metadata.json'],
+          public: false,
+          created_at: '2024-01-01T00:00:00Z',
+          updated_at: '2024-01-02T00:00:00Z',
+        },
+      ]);
+    });
+  });
+
+  describe('ShareBackend implementation', () => {
+    beforeEach(() => {
+      process.env.GITHUB_TOKEN = 'ghp_test_token_1234567890';
+    });
+
+    it('should map fetched gists to stored shares', async () => {
+      const client = new GistClient();
+      const octokit = client.getOctokit();
+
+      octokit.rest.gists.get = vi.fn().mockResolvedValue({
+        data: {
+          id: 'abc123',
+          url: 'https://api.github.com/gists/abc123',
+          html_url: 'https://gist.github.com/user/abc123',
+          files: {
+            'session.jsonl': { filename: 'session.jsonl', content: '{"type":"user"}' },
+            'metadata.json': { filename: 'metadata.json' },
+          },
+          public: false,
+          created_at: '2024-01-01T00:00:00Z',
+          updated_at: '2024-01-02T00:00:00Z',
+          description: 'Session',
+        },
+      }) as any;
+
+      const share = await client.fetch('abc123');
+
+      expect(client.name).toBe('gist');
+      expect(share).toEqual({
+        id: 'abc123',
+        url: 'https://gist.github.com/user/abc123',
+        description: 'Session',
+        files: { 'session.jsonl': '{"type":"user"}', 'metadata.json': '' },
+        createdAt: '2024-01-01T00:00:00Z',
+        updatedAt: '2024-01-02T00:00:00Z',
+      });
+    });
+
+    it('should remove files missing from the new bundle on update', async () => {
+      const client = new GistClient();
+      const octokit = client.getOctokit();
+
+      const gist = {
+        id: 'abc123',
+        html_url: 'https://gist.github.com/user/abc123',
+        public: false,
+        created_at: '2024-01-01T00:00:00Z',
+        updated_at: '2024-01-02T00:00:00Z',
+        description: 'Session',
+      };
+      octokit.rest.gists.get = vi.fn().mockResolvedValue({
+        data: {
+          ...gist,
+          files: {
+            'session.jsonl': { filename: 'session.jsonl', content: 'old' },
+            'metadata.json': { filename: 'metadata.json', content: '{}' },
+          },
+        },
+      }) as any;
+      const mockUpdate = vi.fn().mockResolvedValue({
+        data: { ...gist, files: { 'session.enc.json': { filename: 'session.enc.json', content: '{}' } } },
+      });
+      octokit.rest.gists.update = mockUpdate as any;
+
+      const share = await client.update('abc123', { 'session.enc.json': '{}' }, 'Encrypted');
+
+      expect(mockUpdate).toHaveBeenCalledWith({
+        gist_id: 'abc123',
+        files: {
+          'session.enc.json': { content: '{}' },
+          'session.jsonl': null,
+          'metadata.json': null,
+        },
+        description: 'Encrypted',
+      });
+      expect(share.files).toEqual({ 'session.enc.json': '{}' });
+    });
+  });
+});
+
+describe('isGistReference', () => {
+  it('should recognize gist URLs and bare hex IDs', () => {
+    expect(isGistReference('https://gist.github.com/user/aa5a315d61ae9438b18d')).toBe(true);
+    expect(isGistReference('https://api.github.com/gists/aa5a315d61ae9438b18d')).toBe(true);
+    expect(isGistReference('aa5a315d61ae9438b18d')).toBe(true);
+  });
+
+  it('should reject other URLs', () => {
+    expect(isGistReference('file:///mnt/shares/session')).toBe(false);
+    expect(isGistReference('https://gitlab.com/-/snippets/123')).toBe(false);
+  });
+});
+
+describe('GitHub Enterprise Server support', () => {
+  beforeEach(() => {
+    vi.stubEnv('GITHUB_TOKEN', 'ghp_test_token_1234567890');
+    vi.stubEnv('GITHUB_API_URL', '');
+    vi.stubEnv('GH_HOST', '');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  describe('resolveGitHubHost', () => {
+    it('should default to public GitHub', () => {
+      expect(resolveGitHubHost({})).toEqual({
+        apiUrl: 'https://api.github.com',
+        hostname: 'github.com',
+        webUrl: 'https://github.com',
+      });
+      expect(resolveGitHubHost({ GH_HOST: 'github.com' }).apiUrl).toBe('https://api.github.com');
+    });
+
+    it('should derive the API URL from GH_HOST', () => {
+      expect(resolveGitHubHost({ GH_HOST: 'GHE.example.com' })).toEqual({
+        apiUrl: 'https://ghe.example.com/api/v3',
+        hostname: 'ghe.example.com',
+        webUrl: 'https://ghe.example.com',
+      });
+    });
+
+    it('should prefer GITHUB_API_URL over GH_HOST', () => {
+      expect(
+        resolveGitHubHost({ GITHUB_API_URL: 'https://ghe.corp.example/api/v3/', GH_HOST: 'other.example' })
+      ).toEqual({
+        apiUrl: 'https://ghe.corp.example/api/v3',
+        hostname: 'ghe.corp.example',
+        webUrl: 'https://ghe.corp.example',
+      });
+    });
+
+    it('should reject invalid GITHUB_API_URL', () => {
+      expect(() => resolveGitHubHost({ GITHUB_API_URL: 'not a url' })).toThrow(GistApiError);
+    });
+  });
+
+  describe('parseGistUrl', () => {
+    it('should parse public and enterprise gist URL formats', () => {
+      expect(parseGistUrl('https://gist.github.com/user/abc123')).toEqual({ hostname: 'github.com', gistId: 'abc123' });
+      expect(parseGistUrl('https://gist.github.com/abc123')).toEqual({ hostname: 'github.com', gistId: 'abc123' });
+      expect(parseGistUrl('https://api.github.com/gists/abc123')).toEqual({ hostname: 'github.com', gistId: 'abc123' });
+      expect(parseGistUrl('https://ghe.example.com/gist/user/abc123')).toEqual({ hostname: 'ghe.example.com', gistId: 'abc123' });
+      expect(parseGistUrl('https://ghe.example.com/api/v3/gists/abc123')).toEqual({ hostname: 'ghe.example.com', gistId: 'abc123' });
+      expect(parseGistUrl('https://gist.ghe.example.com/user/abc123')).toEqual({ hostname: 'ghe.example.com', gistId: 'abc123' });
+    });
+
+    it('should ignore trailing pages, query and fragment', () => {
+      expect(parseGistUrl('https://gist.github.com/user/abc123/revisions')?.gistId).toBe('abc123');
+      expect(parseGistUrl('https://gist.github.com/abc123/revisions')?.gistId).toBe('abc123');
+      expect(parseGistUrl('https://ghe.example.com/gist/user/abc123#file-session-jsonl')?.gistId).toBe('abc123');
+    });
+
+    it('should extract revision SHAs', () => {
+      const sha = '3f6c0b5e0d4f6a1e2b7c9d8e5f4a3b2c1d0e9f8a';
+      const pinned = { hostname: 'github.com', gistId: 'abc123', revision: sha };
+      expect(parseGistUrl(`https://gist.github.com/user/abc123/${sha}`)).toEqual(pinned);
+      expect(parseGistUrl(`https://gist.github.com/abc123/${sha}`)).toEqual(pinned);
+      expect(parseGistUrl(`https://api.github.com/gists/abc123/${sha}`)).toEqual(pinned);
+      expect(parseGistUrl(`https://ghe.example.com/api/v3/gists/abc123/${sha}`)?.revision).toBe(sha);
+      expect(parseGistUrl(`https://ghe.example.com/gist/user/abc123/${sha}`)?.revision).toBe(sha);
+      expect(parseGistUrl('https://gist.github.com/user/abc123/revisions')?.revision).toBeUndefined();
+    });
+
+    it('should return null for non-gist URLs', () => {
+      expect(parseGistUrl('https://github.com/user/repo')).toBeNull();
+      expect(parseGistUrl('abc123')).toBeNull();
+      expect(parseGistUrl('share://abc123')).toBeNull();
+    });
+  });
+
+  it('should point Octokit at the enterprise API', () => {
+    vi.stubEnv('GH_HOST', 'ghe.example.com');
+
+    const client = new GistClient();
+
+    expect(client.getOctokit().request.endpoint.DEFAULTS.baseUrl).toBe('https://ghe.example.com/api/v3');
+  });
+
+  it('should link to enterprise token settings when GITHUB_TOKEN is missing', () => {
+    vi.stubEnv('GH_HOST', 'ghe.example.com');
+    vi.stubEnv('GITHUB_TOKEN', '');
+
+    expect(() => new GistClient()).toThrow('https://ghe.example.com/settings/tokens');
+  });
+
+  it('should fetch enterprise gist URLs by ID', async () => {
+    vi.stubEnv('GH_HOST', 'ghe.example.com');
+    const client = new GistClient();
+    const mockGet = vi.fn().mockResolvedValue({
+      data: {
+        id: 'abc123',
+        url: 'https://ghe.example.com/api/v3/gists/abc123',
+        html_url: 'https://ghe.example.com/gist/user/abc123',
+        files: {},
+        public: false,
+        created_at: '2024-01-01T00:00:00Z',
+        updated_at: '2024-01-01T00:00:00Z',
+        description: '',
+      },
+    });
+    client.getOctokit().rest.gists.get = mockGet as any;
+
+    await client.fetchGist('https://ghe.example.com/gist/user/abc123');
+
+    expect(mockGet).toHaveBeenCalledWith({ gist_id: 'abc123' });
+  });
+
+  it('should reject gist URLs from a different GitHub instance', async () => {
+    vi.stubEnv('GH_HOST', 'ghe.example.com');
+    const client = new GistClient();
+    const mockGet = vi.fn();
+    client.getOctokit().rest.gists.get = mockGet as any;
+
+    await expect(client.fetchGist('https://gist.github.com/user/abc123')).rejects.toThrow(
+      /hosted on github.com, but the client is configured for ghe.example.com/
+    );
+    expect(mockGet).not.toHaveBeenCalled();
+  });
+
+  it('should recognize enterprise gist URLs as gist references', () => {
+    expect(isGistReference('https://ghe.example.com/gist/user/abc123')).toBe(true);
+    expect(isGistReference('https://github.com/user/repo')).toBe(false);
+  });
 });
@@ -0,0 +1,47 @@
+/**
+ * Tests for local encryption identity storage
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, stat, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { loadIdentity, loadOrCreateIdentity, getIdentityPath } from '../encryption/identity.js';
+import { DecryptionError } from '../encryption/envelope.js';
+
+describe('identity', () => {
+  let dir: string;
+  let identityPath: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'identity-test-'));
+    identityPath = join(dir, 'nested', 'identity.pem');
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should live in ~/.claude-session-share', () => {
+    expect(getIdentityPath()).toMatch(/\.claude-session-share[\\/]identity\.pem$/);
+  });
+
+  it('should return null when no identity exists', async () => {
+    expect(await loadIdentity(identityPath)).toBeNull();
+  });
+
+  it('should create an identity once and reuse it', async () => {
+    const created = await loadOrCreateIdentity(identityPath);
+    const loaded = await loadOrCreateIdentity(identityPath);
+
+    expect(created.publicKey).toMatch(/^css-x25519:/);
+    expect(loaded.publicKey).toBe(created.publicKey);
+    expect((await stat(identityPath)).mode & 0o777).toBe(0o600);
+  });
+
+  it('should reject identity files that are not X25519 keys', async () => {
+    await writeFile(join(dir, 'bad.pem'), 'not a key');
+
+    await expect(loadIdentity(join(dir, 'bad.pem'))).rejects.toThrow(DecryptionError);
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * Tests for the local index of imported sessions
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readFile, rm, stat, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  getImportIndexPath,
+  findImports,
+  loadImportIndex,
+  recordImport,
+  removeImport,
+  ImportIndexError,
+} from '../shares/imports.js';
+
+describe('import index', () => {
+  let dir: string;
+  let indexPath: string;
+
+  const gistImport = {
+    backend: 'gist',
+    shareId: 'abc123',
+    url: 'https://gist.github.com/user/abc123',
+    contentHash: 'sha256:abc',
+    projectPath: '/Users/test/project',
+    sessionId: 'new-session-id',
+    messageCount: 2,
+    agentSessionPaths: [],
+  };
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'import-index-test-'));
+    indexPath = join(dir, 'nested', 'imports.json');
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should live in ~/.claude-session-share', () => {
+    expect(getImportIndexPath()).toMatch(/\.claude-session-share[\\/]imports\.json$/);
+  });
+
+  it('should be empty before anything is imported', async () => {
+    expect(await loadImportIndex(indexPath)).toEqual({});
+    expect(await findImports('gist', 'abc123', '/Users/test/project', undefined, indexPath)).toEqual([]);
+  });
+
+  it('should record imports keyed by absolute session path', async () => {
+    await recordImport('/sessions/../sessions/a.jsonl', gistImport, indexPath);
+
+    const index = JSON.parse(await readFile(indexPath, 'utf-8'));
+    expect(Object.keys(index)).toEqual(['/sessions/a.jsonl']);
+    expect(index['/sessions/a.jsonl']).toMatchObject({ ...gistImport, importedAt: expect.any(String) });
+    expect((await stat(indexPath)).mode & 0o777).toBe(0o600);
+  });
+
+  it('should find imports of a share into a project, newest first', async () => {
+    await recordImport('/sessions/a.jsonl', gistImport, indexPath);
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    await recordImport('/sessions/b.jsonl', { ...gistImport, projectPath: '/Users/test/project/' }, indexPath);
+    await recordImport('/sessions/c.jsonl', { ...gistImport, projectPath: '/Users/test/other' }, indexPath);
+    await recordImport('/sessions/d.jsonl', { ...gistImport, backend: 'local' }, indexPath);
+
+    const found = await findImports('gist', 'abc123', '/Users/test/project', undefined, indexPath);
+
+    expect(found.map((entry) => entry.sessionPath)).toEqual(['/sessions/b.jsonl', '/sessions/a.jsonl']);
+  });
+
+  it('should keep imports of pinned revisions apart from the latest version', async () => {
+    const sha = '3f6c0b5e0d4f6a1e2b7c9d8e5f4a3b2c1d0e9f8a';
+    await recordImport('/sessions/a.jsonl', gistImport, indexPath);
+    await recordImport('/sessions/b.jsonl', { ...gistImport, revision: sha }, indexPath);
+
+    const latest = await findImports('gist', 'abc123', '/Users/test/project', undefined, indexPath);
+    const pinned = await findImports('gist', 'abc123', '/Users/test/project', sha, indexPath);
+
+    expect(latest.map((entry) => entry.sessionPath)).toEqual(['/sessions/a.jsonl']);
+    expect(pinned.map((entry) => entry.sessionPath)).toEqual(['/sessions/b.jsonl']);
+  });
+
+  it('should remove imports', async () => {
+    await recordImport('/sessions/a.jsonl', gistImport, indexPath);
+
+    expect(await removeImport('/sessions/a.jsonl', indexPath)).toBe(true);
+    expect(await removeImport('/sessions/a.jsonl', indexPath)).toBe(false);
+    expect(await loadImportIndex(indexPath)).toEqual({});
+  });
+
+  it('should reject a corrupt index file', async () => {
+    await writeFile(join(dir, 'imports.json'), '[1, 2]');
+
+    await expect(loadImportIndex(join(dir, 'imports.json'))).rejects.toThrow(ImportIndexError);
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Tests for the local share ledger
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { appendFile, mkdtemp, rm, stat } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { appendLedgerEntry, getLedgerPath, hashContent, readLedger } from '../shares/ledger.js';
+
+describe('ledger', () => {
+  let dir: string;
+  let ledgerPath: string;
+
+  const share = {
+    backend: 'gist',
+    shareId: 'abc123',
+    url: 'https://gist.github.com/user/abc123',
+  };
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'ledger-test-'));
+    ledgerPath = join(dir, 'nested', 'ledger.jsonl');
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should live in ~/.claude-session-share', () => {
+    expect(getLedgerPath()).toMatch(/\.claude-session-share[\\/]ledger\.jsonl$/);
+  });
+
+  it('should hash content with sha256', () => {
+    expect(hashContent('')).toBe(
+      'sha256:e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855'
+    );
+  });
+
+  it('should be empty before any activity', async () => {
+    expect(await readLedger({}, ledgerPath)).toEqual([]);
+  });
+
+  it('should append entries with timestamps and absolute session paths', async () => {
+    const entry = await appendLedgerEntry(
+      {
+        ...share,
+        action: 'share',
+        sessionPath: '/sessions/../sessions/a.jsonl',
+        contentHash: hashContent('{}'),
+        redactionCounts: { 'github-token': 2 },
+      },
+      ledgerPath
+    );
+
+    expect(entry.sessionPath).toBe('/sessions/a.jsonl');
+    expect(entry.timestamp).toMatch(/^\d{4}-\d{2}-\d{2}T/);
+    expect(await readLedger({}, ledgerPath)).toEqual([entry]);
+    expect((await stat(ledgerPath)).mode & 0o777).toBe(0o600);
+  });
+
+  it('should filter by session, share and action', async () => {
+    await appendLedgerEntry({ ...share, action: 'share', sessionPath: '/sessions/a.jsonl' }, ledgerPath);
+    await appendLedgerEntry({ ...share, action: 'update', sessionPath: '/sessions/a.jsonl' }, ledgerPath);
+    await appendLedgerEntry(
+      { backend: 'local', shareId: 'x', url: 'share://x', action: 'share', sessionPath: '/sessions/b.jsonl' },
+      ledgerPath
+    );
+
+    expect(await readLedger({ sessionPath: '/sessions/a.jsonl' }, ledgerPath)).toHaveLength(2);
+    expect(await readLedger({ share: 'share://x' }, ledgerPath)).toHaveLength(1);
+    expect(await readLedger({ share: 'abc123' }, ledgerPath)).toHaveLength(2);
+    expect((await readLedger({ action: 'update' }, ledgerPath)).map((e) => e.action)).toEqual(['update']);
+  });
+
+  it('should keep the newest entries when limited', async () => {
+    for (const action of ['share', 'update', 'revoke'] as const) {
+      await appendLedgerEntry({ ...share, action }, ledgerPath);
+    }
+
+    expect((await readLedger({ limit: 2 }, ledgerPath)).map((e) => e.action)).toEqual(['update', 'revoke']);
+    expect(await readLedger({ limit: 0 }, ledgerPath)).toEqual([]);
+  });
+
+  it('should skip lines that are not valid JSON', async () => {
+    await appendLedgerEntry({ ...share, action: 'share' }, ledgerPath);
+    await appendFile(ledgerPath, '{"action":"upd');
+
+    expect(await readLedger({}, ledgerPath)).toHaveLength(1);
+  });
+});
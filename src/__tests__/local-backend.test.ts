@@ -0,0 +1,167 @@
+/**
+ * Tests for local filesystem share backend
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, mkdir, readFile, rm, access } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { pathToFileURL } from 'url';
+import {
+  LocalShareBackend,
+  LocalShareError,
+  isLocalShareReference,
+} from '../backends/local.js';
+
+describe('LocalShareBackend', () => {
+  let rootDir: string;
+  let backend: LocalShareBackend;
+
+  beforeEach(async () => {
+    rootDir = await mkdtemp(join(tmpdir(), 'local-share-test-'));
+    backend = new LocalShareBackend(rootDir);
+  });
+
+  afterEach(async () => {
+    await rm(rootDir, { recursive: true, force: true });
+  });
+
+  describe('create', () => {
+    it('should write bundle files and return a share:// URL', async () => {
+      const share = await backend.create('My session', {
+        'session.jsonl': '{"type":"user"}',
+        'metadata.json': '{}',
+      });
+
+      expect(share.url).toBe(`share://${share.id}`);
+      expect(share.description).toBe('My session');
+      expect(await readFile(join(rootDir, share.id, 'session.jsonl'), 'utf-8')).toBe('{"type":"user"}');
+      expect(await readFile(join(rootDir, share.id, 'metadata.json'), 'utf-8')).toBe('{}');
+    });
+
+    it('should create the share directory if missing', async () => {
+      const nested = new LocalShareBackend(join(rootDir, 'nested', 'shares'));
+
+      const share = await nested.create('Session', { 'session.jsonl': 'x' });
+
+      await expect(access(join(rootDir, 'nested', 'shares', share.id, 'session.jsonl'))).resolves.toBeUndefined();
+    });
+
+    it('should reject filenames that escape the share directory', async () => {
+      await expect(backend.create('Session', { '../evil.jsonl': 'x' })).rejects.toThrow(
+        /Invalid share filename/
+      );
+    });
+
+    it('should require SESSION_SHARE_DIR', async () => {
+      const unconfigured = new LocalShareBackend('');
+
+      await expect(unconfigured.create('Session', { 'session.jsonl': 'x' })).rejects.toThrow(
+        /SESSION_SHARE_DIR environment variable is required/
+      );
+    });
+  });
+
+  describe('fetch', () => {
+    it('should read a share by share:// URL, file:// URL or bare ID', async () => {
+      const created = await backend.create('My session', { 'session.jsonl': 'content' });
+
+      const byShareUrl = await backend.fetch(created.url);
+      const byFileUrl = await backend.fetch(pathToFileURL(join(rootDir, created.id)).href);
+      const byId = await backend.fetch(created.id);
+
+      for (const share of [byShareUrl, byFileUrl, byId]) {
+        expect(share.id).toBe(created.id);
+        expect(share.description).toBe('My session');
+        expect(share.files).toEqual({ 'session.jsonl': 'content' });
+        expect(share.createdAt).toBe(created.createdAt);
+      }
+      expect(byFileUrl.url).toMatch(/^file:\/\//);
+    });
+
+    it('should read file:// shares without SESSION_SHARE_DIR', async () => {
+      const created = await backend.create('My session', { 'session.jsonl': 'content' });
+
+      const share = await new LocalShareBackend('').fetch(`file://${join(rootDir, created.id)}`);
+
+      expect(share.files['session.jsonl']).toBe('content');
+    });
+
+    it('should throw LocalShareError when the share does not exist', async () => {
+      await expect(backend.fetch('share://missing')).rejects.toThrow(LocalShareError);
+      await expect(backend.fetch('share://missing')).rejects.toThrow(/Share not found: share:\/\/missing/);
+    });
+
+    it('should reject share IDs containing path traversal', async () => {
+      await expect(backend.fetch('share://../etc')).rejects.toThrow(/Invalid share ID/);
+    });
+  });
+
+  describe('update', () => {
+    it('should replace files and description, keeping createdAt', async () => {
+      const created = await backend.create('Old', { 'session.jsonl': 'v1', 'metadata.json': '{}' });
+
+      const updated = await backend.update(created.url, { 'session.jsonl': 'v2' }, 'New');
+
+      expect(updated.description).toBe('New');
+      expect(updated.files).toEqual({ 'session.jsonl': 'v2' });
+      expect(updated.createdAt).toBe(created.createdAt);
+      expect((await backend.fetch(created.url)).files).toEqual({ 'session.jsonl': 'v2' });
+    });
+  });
+
+  describe('delete', () => {
+    it('should remove the share directory', async () => {
+      const created = await backend.create('Session', { 'session.jsonl': 'x' });
+
+      await backend.delete(created.url);
+
+      await expect(backend.fetch(created.url)).rejects.toThrow(/Share not found/);
+    });
+
+    it('should refuse to delete directories that are not shares', async () => {
+      await mkdir(join(rootDir, 'not-a-share'));
+
+      await expect(backend.delete(`file://${join(rootDir, 'not-a-share')}`)).rejects.toThrow(
+        /Share not found/
+      );
+      await expect(access(join(rootDir, 'not-a-share'))).resolves.toBeUndefined();
+    });
+  });
+
+  describe('list', () => {
+    it('should list complete shares and skip other directories', async () => {
+      const created = await backend.create('Session', { 'session.jsonl': 'x', 'metadata.json': '{}' });
+      await mkdir(join(rootDir, 'unrelated'));
+
+      const shares = await backend.list();
+
+      expect(shares).toEqual([
+        {
+          id: created.id,
+          url: created.url,
+          description: 'Session',
+          filenames: ['metadata.json', 'session.jsonl'],
+          createdAt: created.createdAt,
+          updatedAt: created.updatedAt,
+        },
+      ]);
+    });
+
+    it('should return empty list when the share directory does not exist', async () => {
+      expect(await new LocalShareBackend(join(rootDir, 'missing')).list()).toEqual([]);
+    });
+  });
+});
+
+describe('isLocalShareReference', () => {
+  it('should recognize share:// and file:// references', () => {
+    expect(isLocalShareReference('share://abc')).toBe(true);
+    expect(isLocalShareReference('file:///mnt/shares/abc')).toBe(true);
+  });
+
+  it('should reject gist references', () => {
+    expect(isLocalShareReference('https://gist.github.com/user/abc123')).toBe(false);
+    expect(isLocalShareReference('abc123')).toBe(false);
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * Tests for rebasing sanitized paths on import
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  mapRelativePath,
+  normalizePathMappings,
+  rebasePath,
+  rebaseSessionPaths,
+  PathMappingError,
+} from '../session/path-rebase.js';
+import type { SessionMessage } from '../session/types.js';
+
+describe('path rebasing', () => {
+  const projectPath = '/work/app';
+
+  describe('mapRelativePath', () => {
+    const mappings = { 'packages/api': 'services/api', packages: 'libs' };
+
+    it('should apply the longest matching prefix', () => {
+      expect(mapRelativePath('packages/api/src/x.ts', mappings)).toBe('services/api/src/x.ts');
+      expect(mapRelativePath('packages/web/index.ts', mappings)).toBe('libs/web/index.ts');
+      expect(mapRelativePath('packages/api', mappings)).toBe('services/api');
+    });
+
+    it('should only match whole path segments', () => {
+      expect(mapRelativePath('packages/api-client/x.ts', { 'packages/api': 'services/api' })).toBe('packages/api-client/x.ts');
+      expect(mapRelativePath('src/x.ts', mappings)).toBe('src/x.ts');
+    });
+  });
+
+  describe('normalizePathMappings', () => {
+    it('should strip ./ and trailing slashes', () => {
+      expect(normalizePathMappings({ './packages/api/': 'services/api/' })).toEqual({ 'packages/api': 'services/api' });
+    });
+
+    it('should reject prefixes outside the project', () => {
+      const invalid: Array<Record<string, string>> = [{ '/abs': 'x' }, { x: '../up' }, { '': 'x' }, { '.': 'x' }];
+      for (const mappings of invalid) {
+        expect(() => normalizePathMappings(mappings)).toThrow(PathMappingError);
+      }
+    });
+  });
+
+  describe('rebasePath', () => {
+    it('should make relative paths absolute under the project', () => {
+      expect(rebasePath('src/app.ts', { projectPath })).toBe('/work/app/src/app.ts');
+      expect(rebasePath('.', { projectPath })).toBe('/work/app');
+      expect(rebasePath('/etc/hosts', { projectPath })).toBe('/etc/hosts');
+    });
+  });
+
+  describe('rebaseSessionPaths', () => {
+    const relativePaths = ['packages/api/src/server.ts', 'README.md', 'src'];
+
+    const user = {
+      type: 'user',
+      uuid: 'u1',
+      sessionId: 's1',
+      timestamp: '2024-01-01T00:00:00Z',
+      parentUuid: null,
+      cwd: 'packages/api',
+      version: '1.0.0',
+      message: { role: 'user', content: 'Fix packages/api/src/server.ts, see README.md in src' },
+    } as unknown as SessionMessage;
+
+    const assistant = {
+      type: 'assistant',
+      uuid: 'a1',
+      sessionId: 's1',
+      timestamp: '2024-01-01T00:00:01Z',
+      parentUuid: 'u1',
+      messageId: 'm1',
+      message: {
+        role: 'assistant',
+        content: [
+          { type: 'text', text: 'Open packages/api/src/server.ts.' },
+          { type: 'tool_use', id: 't1', name: 'Read', input: { file_path: 'packages/api/src/server.ts' } },
+          { type: 'tool_use', id: 't2', name: 'Bash', input: { command: 'cat README.md lib/README.md https://x.io/README.md' } },
+          { type: 'image', source: { type: 'base64', data: 'README.md' } },
+        ],
+      },
+    } as unknown as SessionMessage;
+
+    const snapshot = {
+      type: 'file-history-snapshot',
+      messageId: 'u1',
+      snapshot: { files: [{ path: 'src/app.ts' }], trackedFileBackups: { 'src/app.ts': { version: 1 }, '/etc/hosts': { version: 1 } } },
+      isSnapshotUpdate: false,
+    } as unknown as SessionMessage;
+
+    it('should rebase cwd, path fields, text and snapshots', () => {
+      const [rebasedUser, rebasedAssistant, rebasedSnapshot] = rebaseSessionPaths([user, assistant, snapshot], {
+        projectPath,
+        relativePaths,
+      }) as any[];
+
+      expect(rebasedUser.cwd).toBe('/work/app/packages/api');
+      // Bare names such as "src" are left alone in text
+      expect(rebasedUser.message.content).toBe('Fix /work/app/packages/api/src/server.ts, see /work/app/README.md in src');
+      expect(rebasedAssistant.message.content[0].text).toBe('Open /work/app/packages/api/src/server.ts.');
+      expect(rebasedAssistant.message.content[1].input.file_path).toBe('/work/app/packages/api/src/server.ts');
+      expect(rebasedAssistant.message.content[2].input.command).toBe(
+        'cat /work/app/README.md lib/README.md https://x.io/README.md'
+      );
+      expect(rebasedAssistant.message.content[3]).toBe((assistant as any).message.content[3]);
+      expect(rebasedSnapshot.snapshot.files).toEqual([{ path: '/work/app/src/app.ts' }]);
+      expect(Object.keys(rebasedSnapshot.snapshot.trackedFileBackups)).toEqual(['/work/app/src/app.ts', '/etc/hosts']);
+    });
+
+    it('should apply prefix mappings', () => {
+      const [rebasedUser] = rebaseSessionPaths([user], {
+        projectPath,
+        relativePaths,
+        pathMappings: { 'packages/api': 'services/api' },
+      }) as any[];
+
+      expect(rebasedUser.cwd).toBe('/work/app/services/api');
+      expect(rebasedUser.message.content).toBe('Fix /work/app/services/api/src/server.ts, see /work/app/README.md in src');
+    });
+
+    it('should leave text alone without the list of relative paths', () => {
+      const [rebasedUser, rebasedAssistant] = rebaseSessionPaths([user, assistant], { projectPath }) as any[];
+
+      expect(rebasedUser.message.content).toBe((user as any).message.content);
+      expect(rebasedAssistant.message.content[1].input.file_path).toBe('/work/app/packages/api/src/server.ts');
+    });
+
+    it('should rebase cwd of assistant lines and every field of system lines', () => {
+      const withCwd = { ...assistant, cwd: 'packages/api' } as unknown as SessionMessage;
+      const system = {
+        type: 'system',
+        subtype: 'local_command',
+        uuid: 's1',
+        sessionId: 's1',
+        timestamp: '2024-01-01T00:00:02Z',
+        parentUuid: 'a1',
+        cwd: '.',
+        content: 'Ran tests in packages/api/src/server.ts',
+        level: 'info',
+      } as unknown as SessionMessage;
+
+      const [rebasedAssistant, rebasedSystem] = rebaseSessionPaths([withCwd, system], {
+        projectPath,
+        relativePaths,
+      }) as any[];
+
+      expect(rebasedAssistant.cwd).toBe('/work/app/packages/api');
+      expect(rebasedSystem).toEqual({
+        ...system,
+        cwd: '/work/app',
+        content: 'Ran tests in /work/app/packages/api/src/server.ts',
+      });
+    });
+
+    it('should leave lines without cwd other than user lines alone', () => {
+      const [rebased] = rebaseSessionPaths([assistant], { projectPath }) as any[];
+
+      expect(rebased).not.toHaveProperty('cwd');
+    });
+
+    it('should default a missing cwd to the project path', () => {
+      const [rebased] = rebaseSessionPaths([{ ...user, cwd: undefined } as unknown as SessionMessage], { projectPath }) as any[];
+
+      expect(rebased.cwd).toBe(projectPath);
+    });
+  });
+});
@@ -0,0 +1,50 @@
+/**
+ * Tests for session cross-reference validation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { findDanglingReferences } from '../session/references.js';
+import type { SessionMessage } from '../session/types.js';
+
+describe('findDanglingReferences', () => {
+  const line = (fields: Record<string, unknown>) => ({ sessionId: 's1', timestamp: '2024-01-01T00:00:00Z', ...fields }) as unknown as SessionMessage;
+
+  it('should accept a consistent session', () => {
+    const messages = [
+      line({ type: 'user', uuid: 'u1', parentUuid: null, message: { role: 'user', content: 'Hi' } }),
+      line({ type: 'assistant', uuid: 'a1', parentUuid: 'u1', message: { content: [{ type: 'tool_use', id: 't1' }] } }),
+      line({ type: 'user', uuid: 'u2', parentUuid: 'a1', message: { role: 'user', content: [{ type: 'tool_result', tool_use_id: 't1' }] } }),
+      line({ type: 'progress', uuid: 'p1', parentUuid: 'u2', toolUseID: 't1' }),
+      line({ type: 'file-history-snapshot', messageId: 'u1', snapshot: {} }),
+      line({ type: 'summary', leafUuid: 'u2' }),
+    ];
+
+    expect(findDanglingReferences(messages)).toEqual([]);
+  });
+
+  it('should report every unresolved reference', () => {
+    const messages = [
+      line({ type: 'user', uuid: 'u1', parentUuid: 'missing-parent', message: { role: 'user', content: [{ type: 'tool_result', tool_use_id: 't9' }] } }),
+      line({ type: 'system', uuid: 'c1', parentUuid: null, logicalParentUuid: 'before-compact' }),
+      line({ type: 'progress', uuid: 'p1', parentUuid: 'u1', sourceToolUseID: 't8' }),
+      line({ type: 'file-history-snapshot', messageId: 'u7', snapshot: {} }),
+    ];
+
+    expect(findDanglingReferences(messages)).toEqual([
+      { messageUuid: 'u1', field: 'parentUuid', value: 'missing-parent' },
+      { messageUuid: 'u1', field: 'tool_result.tool_use_id', value: 't9' },
+      { messageUuid: 'c1', field: 'logicalParentUuid', value: 'before-compact' },
+      { messageUuid: 'p1', field: 'sourceToolUseID', value: 't8' },
+      { messageUuid: null, field: 'messageId', value: 'u7' },
+    ]);
+  });
+
+  it('should resolve sidechain references into the main session', () => {
+    const messages = [
+      line({ type: 'assistant', uuid: 'a1', parentUuid: null, message: { content: [{ type: 'tool_use', id: 't1' }] } }),
+      line({ type: 'user', uuid: 'x1', parentUuid: 'a1', isSidechain: true, sourceToolUseID: 't1' }),
+    ];
+
+    expect(findDanglingReferences(messages)).toEqual([]);
+  });
+});
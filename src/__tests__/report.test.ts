@@ -0,0 +1,119 @@
+/**
+ * Tests for sanitization report collection
+ */
+
+import { describe, it, expect } from 'vitest';
+import { SanitizationReporter, maskExcerpt } from '../sanitization/report.js';
+import { sanitizeSession } from '../sanitization/pipeline.js';
+import type { SessionMessage } from '../session/types.js';
+
+describe('maskExcerpt', () => {
+  it('should keep a short prefix of long secrets', () => {
+    expect(maskExcerpt('ghp_abcdefghijklmnopqrstuvwxyz')).toBe('ghp_********');
+  });
+
+  it('should fully mask short secrets', () => {
+    expect(maskExcerpt('hunter2')).toBe('*******');
+  });
+
+  it('should collapse whitespace to keep excerpts on one line', () => {
+    expect(maskExcerpt('-----BEGIN\nPRIVATE KEY-----')).toBe('----********');
+  });
+});
+
+describe('SanitizationReporter', () => {
+  it('should start with an empty report', () => {
+    expect(new SanitizationReporter().toReport()).toEqual({
+      redactionCounts: {},
+      redactions: [],
+      relativizedPaths: [],
+      externalPaths: [],
+    });
+  });
+
+  it('should record redactions with message and block location', () => {
+    const reporter = new SanitizationReporter();
+    const recorder = reporter.forMessage('msg-1');
+
+    recorder.redaction('env-variable', 'API_KEY=abcdef123456');
+    recorder.atBlock(2).redaction('github-token', 'ghp_abcdefghijklmnop');
+    recorder.atBlock(3).redaction('github-token', 'ghp_zyxwvutsrqponmlk');
+
+    const report = reporter.toReport();
+    expect(report.redactionCounts).toEqual({ 'env-variable': 1, 'github-token': 2 });
+    expect(report.redactions.map((r) => [r.messageUuid, r.blockIndex, r.rule])).toEqual([
+      ['msg-1', null, 'env-variable'],
+      ['msg-1', 2, 'github-token'],
+      ['msg-1', 3, 'github-token'],
+    ]);
+    expect(report.redactions.every((r) => !r.excerpt.includes('abcdef123456'))).toBe(true);
+  });
+
+  it('should deduplicate paths', () => {
+    const reporter = new SanitizationReporter();
+    const recorder = reporter.forMessage('msg-1');
+
+    recorder.relativizedPath('/p/src/a.ts', 'src/a.ts');
+    recorder.relativizedPath('/p/src/a.ts', 'src/a.ts');
+    recorder.externalPath('/etc/hosts');
+    recorder.externalPath('/etc/hosts');
+
+    const report = reporter.toReport();
+    expect(report.relativizedPaths).toEqual([{ original: '/p/src/a.ts', relative: 'src/a.ts' }]);
+    expect(report.externalPaths).toEqual(['/etc/hosts']);
+  });
+
+  it('should collect findings from a full sanitization run', () => {
+    const messages: SessionMessage[] = [
+      {
+        type: 'assistant',
+        uuid: 'msg-2',
+        sessionId: 'session-1',
+        timestamp: '2026-01-11T12:00:00Z',
+        parentUuid: null,
+        messageId: 'msg-2',
+        message: {
+          model: 'claude-opus-4-5',
+          id: 'msg_123',
+          type: 'message',
+          role: 'assistant',
+          content: [
+            { type: 'thinking', thinking: 'hmm' },
+            { type: 'text', text: 'Reading /Users/testuser/project/.env' },
+            {
+              type: 'tool_use',
+              id: 'toolu_1',
+              name: 'mcp__db__connect',
+              input: { password: 'correcthorsebattery', config: '/opt/db/config.yml' },
+            },
+          ],
+          stop_reason: 'tool_use',
+          usage: { input_tokens: 1, output_tokens: 1 },
+        },
+      },
+      {
+        type: 'file-history-snapshot',
+        uuid: 'msg-3',
+        sessionId: 'session-1',
+        timestamp: '2026-01-11T12:00:01Z',
+        parentUuid: 'msg-2',
+        isSnapshotUpdate: false,
+        snapshot: { files: [{ path: '/Users/testuser/project/src/a.ts' }, { path: '/tmp/scratch/b.ts' }] },
+      },
+    ];
+
+    const reporter = new SanitizationReporter();
+    sanitizeSession(messages, '/Users/testuser/project', undefined, reporter);
+    const report = reporter.toReport();
+
+    // Block index refers to the sanitized content (thinking block removed)
+    expect(report.redactions).toEqual([
+      { messageUuid: 'msg-2', blockIndex: 1, rule: 'sensitive-key', excerpt: 'corr********' },
+    ]);
+    expect(report.relativizedPaths).toEqual([
+      { original: '/Users/testuser/project/.env', relative: '.env' },
+      { original: '/Users/testuser/project/src/a.ts', relative: 'src/a.ts' },
+    ]);
+    expect(report.externalPaths).toEqual(['/opt/db/config.yml', '/tmp/scratch/b.ts']);
+  });
+});
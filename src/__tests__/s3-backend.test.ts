@@ -0,0 +1,264 @@
+/**
+ * Tests for S3-compatible share backend
+ *
+ * Uses an in-memory fake of the S3 REST API behind a stubbed global fetch.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  S3ShareBackend,
+  S3ShareError,
+  isS3Reference,
+  loadS3Config,
+  type S3Config,
+} from '../backends/s3.js';
+
+const config: S3Config = {
+  bucket: 'sessions',
+  endpoint: 'http://localhost:9000',
+  region: 'us-east-1',
+  prefix: 'claude-sessions/',
+  urlExpirySeconds: 3600,
+  credentials: { accessKeyId: 'minioadmin', secretAccessKey: 'minioadmin-secret' },
+};
+
+/**
+ * Minimal in-memory S3: PUT/GET/DELETE objects and ListObjectsV2
+ */
+function fakeS3() {
+  const objects = new Map<string, string>();
+  const requests: Array<{ method: string; url: URL; headers: Record<string, string> }> = [];
+
+  const handler = vi.fn(async (input: URL | string, init: RequestInit = {}) => {
+    const url = new URL(String(input));
+    const method = init.method ?? 'GET';
+    const headers = (init.headers ?? {}) as Record<string, string>;
+    requests.push({ method, url, headers });
+
+    if (!headers.authorization && !url.searchParams.has('X-Amz-Signature')) {
+      return new Response('<Error><Code>AccessDenied</Code></Error>', { status: 403 });
+    }
+
+    const key = decodeURIComponent(url.pathname.replace(/^\/sessions\/?/, ''));
+
+    if (method === 'GET' && url.searchParams.get('list-type') === '2') {
+      const prefix = url.searchParams.get('prefix') ?? '';
+      const keys = [...objects.keys()].filter((k) => k.startsWith(prefix));
+      const body = `<ListBucketResult><IsTruncated>false</IsTruncated>${keys
+        .map((k) => `<Contents><Key>${k}</Key></Contents>`)
+        .join('')}</ListBucketResult>`;
+      return new Response(body, { status: 200 });
+    }
+    if (method === 'PUT') {
+      objects.set(key, String(init.body));
+      return new Response('', { status: 200 });
+    }
+    if (method === 'DELETE') {
+      objects.delete(key);
+      return new Response(null, { status: 204 });
+    }
+    if (!objects.has(key)) {
+      return new Response('<Error><Code>NoSuchKey</Code></Error>', { status: 404 });
+    }
+    return new Response(objects.get(key), { status: 200 });
+  });
+
+  return { objects, requests, handler };
+}
+
+describe('S3ShareBackend', () => {
+  let s3: ReturnType<typeof fakeS3>;
+  let backend: S3ShareBackend;
+
+  beforeEach(() => {
+    s3 = fakeS3();
+    vi.stubGlobal('fetch', s3.handler);
+    backend = new S3ShareBackend(config);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('create', () => {
+    it('should PUT one bundle object under the prefix and return a presigned URL', async () => {
+      const share = await backend.create('My session', {
+        'session.jsonl': '{"type":"user"}',
+        'metadata.json': '{}',
+      });
+
+      const key = `claude-sessions/${share.id}.json`;
+      expect(JSON.parse(s3.objects.get(key)!)).toMatchObject({
+        description: 'My session',
+        files: { 'session.jsonl': '{"type":"user"}', 'metadata.json': '{}' },
+      });
+
+      const put = s3.requests[0];
+      expect(put.method).toBe('PUT');
+      expect(put.headers.authorization).toMatch(/^AWS4-HMAC-SHA256 Credential=minioadmin\//);
+      expect(put.headers['content-type']).toBe('application/json');
+
+      const url = new URL(share.url);
+      expect(url.origin + url.pathname).toBe(`http://localhost:9000/sessions/${key}`);
+      expect(url.searchParams.get('X-Amz-Expires')).toBe('3600');
+      expect(url.searchParams.get('X-Amz-Signature')).toMatch(/^[0-9a-f]{64}$/);
+    });
+  });
+
+  describe('fetch', () => {
+    it('should fetch a presigned URL without signing headers', async () => {
+      const created = await backend.create('My session', { 'session.jsonl': 'content' });
+
+      const share = await new S3ShareBackend().fetch(created.url);
+
+      expect(share.id).toBe(created.id);
+      expect(share.files).toEqual({ 'session.jsonl': 'content' });
+      expect(s3.requests[1].headers.authorization).toBeUndefined();
+    });
+
+    it('should fetch by s3:// URL or bare ID with credentials', async () => {
+      const created = await backend.create('My session', { 'session.jsonl': 'content' });
+
+      const byS3Url = await backend.fetch(`s3://sessions/claude-sessions/${created.id}.json`);
+      const byId = await backend.fetch(created.id);
+
+      expect(byS3Url.files).toEqual({ 'session.jsonl': 'content' });
+      expect(byId.description).toBe('My session');
+    });
+
+    it('should report expired presigned links', async () => {
+      s3.handler.mockResolvedValueOnce(
+        new Response(
+          '<Error><Code>AccessDenied</Code><Message>Request has expired</Message></Error>',
+          { status: 403 }
+        )
+      );
+
+      await expect(
+        backend.fetch('http://localhost:9000/sessions/claude-sessions/x.json?X-Amz-Signature=abc')
+      ).rejects.toThrow(/Share link has expired/);
+    });
+
+    it('should throw S3ShareError for missing shares', async () => {
+      await expect(backend.fetch('missing')).rejects.toMatchObject({
+        name: 'S3ShareError',
+        statusCode: 404,
+      });
+    });
+
+    it('should reject s3:// URLs for another bucket', async () => {
+      await expect(backend.fetch('s3://other/claude-sessions/x.json')).rejects.toThrow(
+        /bucket "other"/
+      );
+    });
+  });
+
+  describe('update', () => {
+    it('should replace files and description, keeping createdAt', async () => {
+      const created = await backend.create('Old', { 'session.jsonl': 'v1', 'metadata.json': '{}' });
+
+      const updated = await backend.update(created.url, { 'session.jsonl': 'v2' }, 'New');
+
+      expect(updated.description).toBe('New');
+      expect(updated.files).toEqual({ 'session.jsonl': 'v2' });
+      expect(updated.createdAt).toBe(created.createdAt);
+      expect((await backend.fetch(created.url)).files).toEqual({ 'session.jsonl': 'v2' });
+    });
+  });
+
+  describe('delete', () => {
+    it('should delete the bundle object', async () => {
+      const created = await backend.create('Session', { 'session.jsonl': 'x' });
+
+      await backend.delete(created.id);
+
+      expect(s3.objects.size).toBe(0);
+    });
+
+    it('should fail for missing shares', async () => {
+      await expect(backend.delete('missing')).rejects.toThrow(/Share not found/);
+    });
+  });
+
+  describe('list', () => {
+    it('should list bundles under the prefix', async () => {
+      const created = await backend.create('Session', { 'session.jsonl': 'x' });
+      s3.objects.set('other/unrelated.json', '{}');
+
+      const shares = await backend.list();
+
+      expect(shares).toHaveLength(1);
+      expect(shares[0]).toMatchObject({
+        id: created.id,
+        description: 'Session',
+        filenames: ['session.jsonl'],
+      });
+      expect(shares[0].metadata).toBeUndefined();
+    });
+
+    it('should return metadata.json with the listing', async () => {
+      await backend.create('Session', { 'session.jsonl': 'x', 'metadata.json': '{"messageCount":2}' });
+
+      const [share] = await backend.list();
+
+      expect(share.metadata).toBe('{"messageCount":2}');
+    });
+  });
+
+  it('should surface missing configuration on use', async () => {
+    vi.stubEnv('SESSION_SHARE_S3_BUCKET', '');
+    const unconfigured = new S3ShareBackend();
+    vi.unstubAllEnvs();
+
+    await expect(unconfigured.create('Session', {})).rejects.toThrow(S3ShareError);
+    await expect(unconfigured.create('Session', {})).rejects.toThrow(
+      /Missing environment variables: SESSION_SHARE_S3_BUCKET/
+    );
+  });
+});
+
+describe('loadS3Config', () => {
+  const env = {
+    SESSION_SHARE_S3_BUCKET: 'sessions',
+    AWS_ACCESS_KEY_ID: 'id',
+    AWS_SECRET_ACCESS_KEY: 'secret',
+  };
+
+  it('should default to the AWS endpoint, prefix and maximum expiry', () => {
+    expect(loadS3Config({ ...env, AWS_REGION: 'eu-west-1' })).toMatchObject({
+      endpoint: 'https://s3.eu-west-1.amazonaws.com',
+      region: 'eu-west-1',
+      prefix: 'claude-sessions/',
+      urlExpirySeconds: 604800,
+    });
+  });
+
+  it('should normalize the prefix', () => {
+    expect(loadS3Config({ ...env, SESSION_SHARE_S3_PREFIX: '/team/sessions' }).prefix).toBe('team/sessions/');
+    expect(loadS3Config({ ...env, SESSION_SHARE_S3_PREFIX: '' }).prefix).toBe('');
+  });
+
+  it('should reject expiry beyond the SigV4 limit', () => {
+    expect(() => loadS3Config({ ...env, SESSION_SHARE_S3_URL_EXPIRY: '700000' })).toThrow(
+      /between 1 and 604800/
+    );
+  });
+
+  it('should reject endpoints with a path', () => {
+    expect(() => loadS3Config({ ...env, SESSION_SHARE_S3_ENDPOINT: 'http://minio:9000/bucket' })).toThrow(
+      /origin without a path/
+    );
+  });
+});
+
+describe('isS3Reference', () => {
+  it('should recognize s3:// and presigned URLs', () => {
+    expect(isS3Reference('s3://bucket/key.json')).toBe(true);
+    expect(isS3Reference('https://minio.internal/b/k.json?X-Amz-Algorithm=AWS4-HMAC-SHA256&X-Amz-Signature=ab')).toBe(true);
+  });
+
+  it('should reject other URLs', () => {
+    expect(isS3Reference('https://gist.github.com/user/abc123')).toBe(false);
+    expect(isS3Reference('share://abc')).toBe(false);
+  });
+});
@@ -2,12 +2,21 @@
  * Tests for session import service
  */
 
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { importSession } from '../services/session-importer.js';
 import * as gistClient from '../gist/client.js';
 import * as sessionWriter from '../session/writer.js';
 import type { SessionMessage } from '../session/types.js';
 import type { GistResponse } from '../gist/types.js';
+import { encryptBundle, DecryptionError, ENCRYPTED_BUNDLE_FILENAME } from '../encryption/envelope.js';
+import { loadOrCreateIdentity } from '../encryption/identity.js';
+import { readLedger, hashContent } from '../shares/ledger.js';
+import { ShareExpiredError } from '../shares/expiry.js';
+import { loadImportIndex } from '../shares/imports.js';
+import { UUIDMapper } from '../utils/uuid-mapper.js';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
 
 describe('importSession', () => {
   const mockGist: GistResponse = {
@@ -40,18 +49,44 @@ describe('importSession', () => {
     description: 'Test Gist',
   };
 
-  beforeEach(() => {
+  let homeDir: string;
+
+  beforeEach(async () => {
     process.env.GITHUB_TOKEN = 'test_token';
     vi.clearAllMocks();
+    // Imports are logged to ~/.claude-session-share/ledger.jsonl
+    homeDir = await mkdtemp(join(tmpdir(), 'importer-home-'));
+    vi.stubEnv('HOME', homeDir);
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    await rm(homeDir, { recursive: true, force: true });
   });
 
+  const RealGistClient = gistClient.GistClient;
+
+  // mockGist with extra fields in metadata.json
+  function withMetadata(fields: Record<string, unknown>): GistResponse {
+    return {
+      ...mockGist,
+      files: {
+        ...mockGist.files,
+        'metadata.json': { ...mockGist.files['metadata.json'], content: JSON.stringify({ title: 'Test Session', ...fields }) },
+      },
+    };
+  }
+
   // Helper to mock GistClient
   function mockGistClient(fetchGistFn: any) {
-    vi.spyOn(gistClient, 'GistClient').mockImplementation(function(this: any) {
-      this.fetchGist = fetchGistFn;
-      this.createGist = vi.fn();
-      this.getOctokit = vi.fn();
-      return this;
+    vi.spyOn(gistClient, 'GistClient').mockImplementation(function () {
+      // Real prototype so ShareBackend methods delegate to the mocked gist calls
+      const client = Object.create(RealGistClient.prototype);
+      client.name = 'gist';
+      client.fetchGist = fetchGistFn;
+      client.createGist = vi.fn();
+      client.getOctokit = vi.fn();
+      return client;
     } as any);
   }
 
@@ -75,6 +110,9 @@ describe('importSession', () => {
         sessionId: 'new-session-id',
         messageCount: 2,
         projectPath: '/Users/test/project',
+        agentSessionPaths: [],
+        status: 'created',
+        danglingReferences: [],
       });
 
       // Verify fetchGist was called with correct URL
@@ -97,6 +135,40 @@ describe('importSession', () => {
       expect(writtenMessages[1].sessionId).not.toBe('session1');
     });
 
+    it('should record the import in the ledger', async () => {
+      mockGistClient(vi.fn().mockResolvedValue(mockGist));
+      vi.spyOn(sessionWriter, 'writeSessionToLocal').mockResolvedValue({
+        filePath: '/Users/test/.claude/projects/encoded/session-id.jsonl',
+        sessionId: 'new-session-id',
+      });
+
+      await importSession('abc123', '/Users/test/project');
+
+      expect(await readLedger()).toEqual([
+        expect.objectContaining({
+          action: 'import',
+          sessionPath: '/Users/test/.claude/projects/encoded/session-id.jsonl',
+          backend: 'gist',
+          shareId: 'abc123',
+          url: 'https://gist.github.com/user/abc123',
+          contentHash: hashContent(mockGist.files['session.jsonl'].content!),
+          encrypted: false,
+        }),
+      ]);
+    });
+
+    it('should import shares whose expiry has not passed', async () => {
+      mockGistClient(vi.fn().mockResolvedValue(withMetadata({ expiresAt: '2999-01-01T00:00:00.000Z' })));
+      vi.spyOn(sessionWriter, 'writeSessionToLocal').mockResolvedValue({
+        filePath: '/Users/test/.claude/projects/encoded/session-id.jsonl',
+        sessionId: 'new-session-id',
+      });
+
+      const result = await importSession('abc123', '/Users/test/project');
+
+      expect(result.messageCount).toBe(2);
+    });
+
     it('should extract JSONL file from gist', async () => {
       const mockFetchGist = vi.fn().mockResolvedValue(mockGist);
       mockGistClient(mockFetchGist);
@@ -286,4 +358,514 @@ describe('importSession', () => {
       ).rejects.toThrow('Failed to import session: Permission denied');
     });
   });
+
+  describe('agent sidechain files', () => {
+    const agentContent =
+      '{"type":"user","uuid":"agent-uuid1","sessionId":"session1","parentUuid":null,"isSidechain":true,"agentId":"a1b2","message":"Task","timestamp":"2024-01-01T00:00:02Z"}\n' +
+      '{"type":"assistant","uuid":"agent-uuid2","sessionId":"session1","parentUuid":"agent-uuid1","isSidechain":true,"agentId":"a1b2","message":"Done","timestamp":"2024-01-01T00:00:03Z"}';
+
+    function withAgentFile(files: Record<string, string>): GistResponse {
+      const gist = { ...mockGist, files: { ...mockGist.files } };
+      for (const [filename, content] of Object.entries(files)) {
+        gist.files[filename] = { ...mockGist.files['session.jsonl'], filename, content };
+      }
+      return gist;
+    }
+
+    it('should write agent files with the remapped session ID', async () => {
+      mockGistClient(vi.fn().mockResolvedValue(withAgentFile({ 'agent-a1b2.jsonl': agentContent })));
+      const mockWriteSession = vi.spyOn(sessionWriter, 'writeSessionToLocal').mockResolvedValue({
+        filePath: '/Users/test/.claude/projects/encoded/session-id.jsonl',
+        sessionId: 'new-session-id',
+      });
+      const mockWriteAgent = vi.spyOn(sessionWriter, 'writeAgentSessionToLocal').mockResolvedValue(
+        '/Users/test/.claude/projects/encoded/agent-a1b2.jsonl'
+      );
+
+      const result = await importSession('abc123', '/Users/test/project');
+
+      expect(result.messageCount).toBe(2);
+      expect(result.agentSessionPaths).toEqual(['/Users/test/.claude/projects/encoded/agent-a1b2.jsonl']);
+      expect(mockWriteAgent).toHaveBeenCalledWith(expect.any(Array), '/Users/test/project', expect.stringMatching(/^[0-9a-f]{8}$/));
+
+      const mainMessages = mockWriteSession.mock.calls[0][0];
+      const [agentMessages, , agentId] = mockWriteAgent.mock.calls[0];
+      expect((agentMessages[0] as any).agentId).toBe(agentId);
+      expect(agentMessages).toHaveLength(2);
+      expect(agentMessages[0].sessionId).toBe(mainMessages[0].sessionId);
+      expect(agentMessages[0].sessionId).not.toBe('session1');
+      expect(agentMessages[0].uuid).not.toBe('agent-uuid1');
+      expect(agentMessages[1].parentUuid).toBe(agentMessages[0].uuid);
+    });
+
+    it('should use session.jsonl as the main session whatever the file order', async () => {
+      const gist = withAgentFile({ 'agent-a1b2.jsonl': agentContent });
+      gist.files = { 'agent-a1b2.jsonl': gist.files['agent-a1b2.jsonl'], ...mockGist.files };
+      mockGistClient(vi.fn().mockResolvedValue(gist));
+      const mockWriteSession = vi.spyOn(sessionWriter, 'writeSessionToLocal').mockResolvedValue({
+        filePath: '/Users/test/.claude/projects/encoded/session-id.jsonl',
+        sessionId: 'new-session-id',
+      });
+      vi.spyOn(sessionWriter, 'writeAgentSessionToLocal').mockResolvedValue('/agent.jsonl');
+
+      await importSession('abc123', '/Users/test/project');
+
+      expect(mockWriteSession.mock.calls[0][0][0].isSidechain).toBeUndefined();
+    });
+
+    it('should skip agent files without valid messages', async () => {
+      mockGistClient(vi.fn().mockResolvedValue(withAgentFile({ 'agent-broken.jsonl': 'not json' })));
+      vi.spyOn(sessionWriter, 'writeSessionToLocal').mockResolvedValue({
+        filePath: '/Users/test/.claude/projects/encoded/session-id.jsonl',
+        sessionId: 'new-session-id',
+      });
+      const mockWriteAgent = vi.spyOn(sessionWriter, 'writeAgentSessionToLocal');
+
+      const result = await importSession('abc123', '/Users/test/project');
+
+      expect(result.agentSessionPaths).toEqual([]);
+      expect(mockWriteAgent).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('dry run', () => {
+    const lines = [
+      { type: 'user', uuid: 'u1', sessionId: 's1', parentUuid: null, isMeta: true, message: { role: 'user', content: 'Caveat: meta' }, timestamp: '2024-01-01T00:00:00Z' },
+      { type: 'user', uuid: 'u2', sessionId: 's1', parentUuid: 'u1', message: { role: 'user', content: [{ type: 'text', text: 'Fix the failing test' }] }, timestamp: '2024-01-01T00:00:01Z' },
+      {
+        type: 'assistant', uuid: 'a1', sessionId: 's1', parentUuid: 'u2', messageId: 'm1', timestamp: '2024-01-01T00:05:00Z',
+        message: { model: 'claude-sonnet-4', content: [{ type: 'tool_use', name: 'Bash' }, { type: 'tool_use', name: 'Read' }, { type: 'tool_use', name: 'Bash' }] },
+      },
+      { type: 'user', uuid: 'u3', sessionId: 's1', parentUuid: 'a1', message: { role: 'user', content: [{ type: 'tool_result', content: 'ok' }] }, timestamp: '2024-01-01T00:04:00Z' },
+    ];
+
+    it('should describe the share without writing it', async () => {
+      const gist = withMetadata({ expiresAt: '2999-01-01T00:00:00.000Z' });
+      gist.files['session.jsonl'] = {
+        ...gist.files['session.jsonl'],
+        content: lines.map((line) => JSON.stringify(line)).join('\n') + '\nnot json',
+      };
+      mockGistClient(vi.fn().mockResolvedValue(gist));
+      const mockWriteSession = vi.spyOn(sessionWriter, 'writeSessionToLocal');
+
+      const preview = await importSession('abc123', '/Users/test/project', { dryRun: true });
+
+      expect(preview).toEqual({
+        title: 'Test Gist',
+        url: 'https://gist.github.com/user/abc123',
+        encrypted: false,
+        expiresAt: '2999-01-01T00:00:00.000Z',
+        messageCount: 4,
+        firstTimestamp: '2024-01-01T00:00:00Z',
+        lastTimestamp: '2024-01-01T00:05:00Z',
+        models: ['claude-sonnet-4'],
+        toolUses: { Bash: 2, Read: 1 },
+        firstUserPrompt: 'Fix the failing test',
+        parseErrors: 1,
+        agentFiles: [],
+        danglingReferences: [],
+        targetDirectory: join(homeDir, '.claude', 'projects', '-Users-test-project'),
+        previousImport: null,
+      });
+      expect(mockWriteSession).not.toHaveBeenCalled();
+      expect(await readLedger()).toEqual([]);
+    });
+
+    it('should report references that do not resolve', async () => {
+      const gist = withMetadata({});
+      gist.files['session.jsonl'] = {
+        ...gist.files['session.jsonl'],
+        content: [
+          { type: 'summary', summary: 'Earlier work', leafUuid: 'gone' },
+          ...lines.slice(0, 2),
+          { type: 'user', uuid: 'u4', sessionId: 's1', parentUuid: 'u2', message: { role: 'user', content: [{ type: 'tool_result', tool_use_id: 'toolu_missing', content: 'ok' }] }, timestamp: '2024-01-01T00:06:00Z' },
+        ].map((line) => JSON.stringify(line)).join('\n'),
+      };
+      mockGistClient(vi.fn().mockResolvedValue(gist));
+
+      const preview = await importSession('abc123', '/Users/test/project', { dryRun: true });
+
+      expect(preview.danglingReferences).toEqual([
+        { messageUuid: null, field: 'leafUuid', value: 'gone' },
+        { messageUuid: 'u4', field: 'tool_result.tool_use_id', value: 'toolu_missing' },
+      ]);
+    });
+
+    it('should still refuse expired shares', async () => {
+      mockGistClient(vi.fn().mockResolvedValue(withMetadata({ expiresAt: '2026-01-01T00:00:00.000Z' })));
+
+      await expect(importSession('abc123', '/Users/test/project', { dryRun: true })).rejects.toBeInstanceOf(ShareExpiredError);
+    });
+  });
+
+  describe('re-imports', () => {
+    const projectPath = '/Users/test/project';
+
+    beforeEach(() => {
+      // Write real session files under the temporary HOME
+      vi.restoreAllMocks();
+    });
+
+    function withMessage(text: string): GistResponse {
+      const content = mockGist.files['session.jsonl'].content!.replace('"message":"Hi"', `"message":"${text}"`);
+      return { ...mockGist, files: { ...mockGist.files, 'session.jsonl': { ...mockGist.files['session.jsonl'], content } } };
+    }
+
+    it('should record the source share of an import', async () => {
+      mockGistClient(vi.fn().mockResolvedValue(mockGist));
+
+      const result = await importSession('abc123', projectPath);
+
+      expect(result.status).toBe('created');
+      expect(await loadImportIndex()).toEqual({
+        [result.sessionPath]: expect.objectContaining({
+          backend: 'gist',
+          shareId: 'abc123',
+          contentHash: hashContent(mockGist.files['session.jsonl'].content!),
+          projectPath,
+          sessionId: result.sessionId,
+        }),
+      });
+    });
+
+    it('should skip a share already imported into the project', async () => {
+      mockGistClient(vi.fn().mockResolvedValue(mockGist));
+      const first = await importSession('abc123', projectPath);
+      const writeSpy = vi.spyOn(sessionWriter, 'writeSessionToLocal');
+
+      const second = await importSession('https://gist.github.com/user/abc123', projectPath);
+
+      expect(second).toEqual({ ...first, status: 'skipped', shareChanged: false });
+      expect(writeSpy).not.toHaveBeenCalled();
+      expect(await readLedger({ action: 'import' })).toHaveLength(1);
+    });
+
+    it('should report a changed share when skipping', async () => {
+      mockGistClient(vi.fn().mockResolvedValueOnce(mockGist).mockResolvedValueOnce(withMessage('Changed')));
+      await importSession('abc123', projectPath);
+
+      const second = await importSession('abc123', projectPath);
+
+      expect(second.status).toBe('skipped');
+      expect(second.shareChanged).toBe(true);
+    });
+
+    it('should import again if the earlier session file was deleted', async () => {
+      mockGistClient(vi.fn().mockResolvedValue(mockGist));
+      const first = await importSession('abc123', projectPath);
+      await rm(first.sessionPath);
+
+      const second = await importSession('abc123', projectPath);
+
+      expect(second.status).toBe('created');
+      expect(second.sessionId).not.toBe(first.sessionId);
+    });
+
+    it('should overwrite the earlier import in place', async () => {
+      mockGistClient(vi.fn().mockResolvedValueOnce(mockGist).mockResolvedValueOnce(withMessage('Changed')));
+      const first = await importSession('abc123', projectPath);
+
+      const second = await importSession('abc123', projectPath, { onConflict: 'overwrite' });
+
+      expect(second.status).toBe('overwritten');
+      expect(second.sessionId).toBe(first.sessionId);
+      expect(second.sessionPath).toBe(first.sessionPath);
+      const lines = (await readFile(second.sessionPath, 'utf-8')).trim().split('\n').map((line) => JSON.parse(line));
+      expect(lines.map((m) => m.sessionId)).toEqual([first.sessionId, first.sessionId]);
+      expect(lines[1].message).toBe('Changed');
+      expect(Object.keys(await loadImportIndex())).toEqual([first.sessionPath]);
+    });
+
+    it('should import a separate copy on request', async () => {
+      mockGistClient(vi.fn().mockResolvedValue(mockGist));
+      const first = await importSession('abc123', projectPath);
+
+      const copy = await importSession('abc123', projectPath, { onConflict: 'copy' });
+
+      expect(copy.status).toBe('created');
+      expect(copy.sessionPath).not.toBe(first.sessionPath);
+      expect(Object.keys(await loadImportIndex()).sort()).toEqual([first.sessionPath, copy.sessionPath].sort());
+    });
+
+    it('should report an earlier import in a dry run', async () => {
+      mockGistClient(vi.fn().mockResolvedValueOnce(mockGist).mockResolvedValue(withMessage('Changed')));
+      const first = await importSession('abc123', projectPath);
+      const { importedAt } = (await loadImportIndex())[first.sessionPath];
+
+      const skip = await importSession('abc123', projectPath, { dryRun: true });
+      const overwrite = await importSession('abc123', projectPath, { onConflict: 'overwrite', dryRun: true });
+      const copy = await importSession('abc123', projectPath, { onConflict: 'copy', dryRun: true });
+
+      const previousImport = { sessionPath: first.sessionPath, sessionId: first.sessionId, importedAt, shareChanged: true };
+      expect(skip.previousImport).toEqual({ ...previousImport, onConflict: 'skip' });
+      expect(overwrite.previousImport).toEqual({ ...previousImport, onConflict: 'overwrite' });
+      expect(overwrite.targetPath).toBe(first.sessionPath);
+      expect(copy.previousImport).toEqual({ ...previousImport, onConflict: 'copy' });
+      expect(copy.targetPath).toBeUndefined();
+      expect(Object.keys(await loadImportIndex())).toEqual([first.sessionPath]);
+    });
+
+    it('should treat other projects as separate imports', async () => {
+      mockGistClient(vi.fn().mockResolvedValue(mockGist));
+      await importSession('abc123', projectPath);
+
+      expect((await importSession('abc123', '/Users/test/other')).status).toBe('created');
+    });
+
+    it('should treat pinned revisions as separate imports', async () => {
+      const sha = '3f6c0b5e0d4f6a1e2b7c9d8e5f4a3b2c1d0e9f8a';
+      mockGistClient(vi.fn().mockImplementation(async (_ref: string, revision?: string) => (
+        revision ? { ...withMessage('Old'), revision } : mockGist
+      )));
+      const latest = await importSession('abc123', projectPath);
+
+      const pinned = await importSession('abc123', projectPath, { revision: sha });
+      const again = await importSession('abc123', projectPath, { revision: sha });
+
+      expect(pinned.status).toBe('created');
+      expect(pinned.sessionPath).not.toBe(latest.sessionPath);
+      expect(again).toMatchObject({ status: 'skipped', sessionPath: pinned.sessionPath, shareChanged: false });
+      expect((await loadImportIndex())[pinned.sessionPath].revision).toBe(sha);
+      expect((await loadImportIndex())[latest.sessionPath].revision).toBeUndefined();
+    });
+  });
+
+  describe('deterministic UUIDs', () => {
+    it('should produce the same IDs in every import of a share', async () => {
+      mockGistClient(vi.fn().mockResolvedValue(mockGist));
+      const mockWriteSession = vi.spyOn(sessionWriter, 'writeSessionToLocal').mockResolvedValue({
+        filePath: '/Users/test/.claude/projects/encoded/session-id.jsonl',
+        sessionId: 'new-session-id',
+      });
+
+      await importSession('abc123', '/Users/test/project', { uuids: 'deterministic' });
+      // A second machine: nothing recorded yet
+      await rm(join(homeDir, '.claude-session-share'), { recursive: true, force: true });
+      await importSession('https://gist.github.com/user/abc123', '/Users/test/other', { uuids: 'deterministic' });
+
+      const [first, second] = mockWriteSession.mock.calls.map(([messages]) => messages);
+      const mapper = new UUIDMapper({ namespace: 'gist:abc123' });
+      expect(first.map((m) => [m.uuid, m.parentUuid, m.sessionId])).toEqual([
+        [mapper.remap('uuid1'), null, mapper.remap('session1')],
+        [mapper.remap('uuid2'), mapper.remap('uuid1'), mapper.remap('session1')],
+      ]);
+      expect(second.map((m) => m.uuid)).toEqual(first.map((m) => m.uuid));
+    });
+
+    it('should give pinned revisions their own namespace', async () => {
+      const sha = '3f6c0b5e0d4f6a1e2b7c9d8e5f4a3b2c1d0e9f8a';
+      mockGistClient(vi.fn().mockImplementation(async (_ref: string, revision?: string) => (
+        revision ? { ...mockGist, revision } : mockGist
+      )));
+
+      const latest = await importSession('abc123', '/Users/test/project', { uuids: 'deterministic', dryRun: true });
+      const pinned = await importSession('abc123', '/Users/test/project', { uuids: 'deterministic', revision: sha, dryRun: true });
+
+      const sessionId = new UUIDMapper({ namespace: `gist:abc123@${sha}` }).remap('session1');
+      expect(pinned.targetPath).toBe(join(pinned.targetDirectory, `${sessionId}.jsonl`));
+      expect(pinned.targetPath).not.toBe(latest.targetPath);
+    });
+
+    it('should use a custom namespace', async () => {
+      mockGistClient(vi.fn().mockResolvedValue(mockGist));
+      const mockWriteSession = vi.spyOn(sessionWriter, 'writeSessionToLocal').mockResolvedValue({
+        filePath: '/Users/test/.claude/projects/encoded/session-id.jsonl',
+        sessionId: 'new-session-id',
+      });
+
+      await importSession('abc123', '/Users/test/project', { uuidNamespace: 'team-review' });
+
+      expect(mockWriteSession.mock.calls[0][0][0].uuid).toBe(new UUIDMapper({ namespace: 'team-review' }).remap('uuid1'));
+    });
+
+    it('should report the exact target file in previews', async () => {
+      mockGistClient(vi.fn().mockResolvedValue(mockGist));
+
+      const preview = await importSession('abc123', '/Users/test/project', { uuids: 'deterministic', dryRun: true });
+
+      const sessionId = new UUIDMapper({ namespace: 'gist:abc123' }).remap('session1');
+      expect(preview.targetPath).toBe(join(preview.targetDirectory, `${sessionId}.jsonl`));
+    });
+
+    it('should refuse copies', async () => {
+      await expect(
+        importSession('abc123', '/Users/test/project', { uuids: 'deterministic', onConflict: 'copy' })
+      ).rejects.toThrow("onConflict 'copy' cannot be used with deterministic UUIDs");
+    });
+  });
+
+  describe('path mappings', () => {
+    it('should reject mappings that leave the project before fetching', async () => {
+      const mockFetchGist = vi.fn().mockResolvedValue(mockGist);
+      mockGistClient(mockFetchGist);
+
+      await expect(
+        importSession('abc123', '/Users/test/project', { pathMappings: { 'packages/api': '../api' } })
+      ).rejects.toThrow('Failed to import session: Invalid path mapping "packages/api" -> "../api"');
+      expect(mockFetchGist).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('revisions', () => {
+    it('should fetch the requested revision', async () => {
+      const sha = '3f6c0b5e0d4f6a1e2b7c9d8e5f4a3b2c1d0e9f8a';
+      const mockFetchGist = vi.fn().mockResolvedValue(mockGist);
+      mockGistClient(mockFetchGist);
+      vi.spyOn(sessionWriter, 'writeSessionToLocal').mockResolvedValue({
+        filePath: '/Users/test/.claude/projects/encoded/session-id.jsonl',
+        sessionId: 'new-session-id',
+      });
+
+      await importSession('abc123', '/Users/test/project', { revision: sha });
+
+      expect(mockFetchGist).toHaveBeenCalledWith('abc123', sha);
+    });
+
+    it('should reject revisions for backends without history', async () => {
+      const mockWriteSession = vi.spyOn(sessionWriter, 'writeSessionToLocal');
+
+      await expect(
+        importSession('share://abc123', '/Users/test/project', { revision: 'a'.repeat(40) })
+      ).rejects.toThrow('Failed to import session: The local share backend does not keep revisions');
+      expect(mockWriteSession).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('content hashes', () => {
+    const sessionContent = mockGist.files['session.jsonl'].content!;
+
+    beforeEach(() => {
+      vi.spyOn(sessionWriter, 'writeSessionToLocal').mockResolvedValue({
+        filePath: '/Users/test/.claude/projects/encoded/session-id.jsonl',
+        sessionId: 'new-session-id',
+      });
+    });
+
+    it('should import files matching the declared hashes', async () => {
+      mockGistClient(vi.fn().mockResolvedValue(withMetadata({ contentHashes: { 'session.jsonl': hashContent(sessionContent) } })));
+
+      const result = await importSession('abc123', '/Users/test/project');
+
+      expect(result.messageCount).toBe(2);
+    });
+
+    it('should refuse files that differ from the declared hash', async () => {
+      const gist = withMetadata({ contentHashes: { 'session.jsonl': hashContent(sessionContent) } });
+      gist.files['session.jsonl'] = { ...gist.files['session.jsonl'], content: sessionContent.slice(0, 150) };
+      mockGistClient(vi.fn().mockResolvedValue(gist));
+
+      await expect(importSession('abc123', '/Users/test/project')).rejects.toThrow(
+        /session\.jsonl does not match the content hash in metadata\.json/
+      );
+      expect(sessionWriter.writeSessionToLocal).not.toHaveBeenCalled();
+    });
+
+    it('should refuse bundles missing a hashed file', async () => {
+      mockGistClient(vi.fn().mockResolvedValue(withMetadata({ contentHashes: { 'agent-1.jsonl': 'sha256:00' } })));
+
+      await expect(importSession('abc123', '/Users/test/project')).rejects.toThrow(
+        'agent-1.jsonl is listed in metadata.json but missing from the share.'
+      );
+    });
+  });
+
+  describe('expiring shares', () => {
+    it('should refuse to import a share past its declared expiry', async () => {
+      mockGistClient(vi.fn().mockResolvedValue(withMetadata({ expiresAt: '2026-01-01T00:00:00.000Z' })));
+      const mockWriteSession = vi.spyOn(sessionWriter, 'writeSessionToLocal');
+
+      const error = await importSession('abc123', '/Users/test/project').catch((e) => e);
+
+      expect(error).toBeInstanceOf(ShareExpiredError);
+      expect(error.expiresAt).toBe('2026-01-01T00:00:00.000Z');
+      expect(error.message).toMatch(/Share expired on 2026-01-01/);
+      expect(mockWriteSession).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('encrypted shares', () => {
+    const plainFiles = {
+      'session.jsonl': mockGist.files['session.jsonl'].content!,
+      'metadata.json': '{"title":"Test Session"}',
+    };
+    let identityDir: string;
+
+    beforeEach(async () => {
+      identityDir = await mkdtemp(join(tmpdir(), 'import-identity-'));
+      vi.spyOn(sessionWriter, 'writeSessionToLocal').mockResolvedValue({
+        filePath: '/Users/test/.claude/projects/encoded/session-id.jsonl',
+        sessionId: 'new-session-id',
+      });
+    });
+
+    afterEach(async () => {
+      await rm(identityDir, { recursive: true, force: true });
+    });
+
+    async function mockEncryptedGist(files: Record<string, string>) {
+      const content = files[ENCRYPTED_BUNDLE_FILENAME];
+      mockGistClient(vi.fn().mockResolvedValue({
+        ...mockGist,
+        files: {
+          [ENCRYPTED_BUNDLE_FILENAME]: { ...mockGist.files['session.jsonl'], filename: ENCRYPTED_BUNDLE_FILENAME, content },
+        },
+      }));
+    }
+
+    it('should decrypt passphrase-encrypted shares', async () => {
+      await mockEncryptedGist(await encryptBundle(plainFiles, { passphrase: 'pw' }));
+
+      const result = await importSession('abc123', '/Users/test/project', {
+        passphrase: 'pw',
+        identityPath: join(identityDir, 'identity.pem'),
+      });
+
+      expect(result.messageCount).toBe(2);
+    });
+
+    it('should check the expiry declared inside the envelope', async () => {
+      await mockEncryptedGist(await encryptBundle(
+        { ...plainFiles, 'metadata.json': JSON.stringify({ expiresAt: '2026-01-01T00:00:00.000Z' }) },
+        { passphrase: 'pw' }
+      ));
+
+      await expect(importSession('abc123', '/Users/test/project', {
+        passphrase: 'pw',
+        identityPath: join(identityDir, 'identity.pem'),
+      })).rejects.toThrow(ShareExpiredError);
+    });
+
+    it('should decrypt shares encrypted to the local identity', async () => {
+      const identityPath = join(identityDir, 'identity.pem');
+      const identity = await loadOrCreateIdentity(identityPath);
+      await mockEncryptedGist(await encryptBundle(plainFiles, { recipients: [identity.publicKey] }));
+
+      const result = await importSession('abc123', '/Users/test/project', { identityPath });
+
+      expect(result.messageCount).toBe(2);
+    });
+
+    it('should throw DecryptionError (not a wrapped Error) for a wrong passphrase', async () => {
+      await mockEncryptedGist(await encryptBundle(plainFiles, { passphrase: 'pw' }));
+
+      const error = await importSession('abc123', '/Users/test/project', {
+        passphrase: 'nope',
+        identityPath: join(identityDir, 'identity.pem'),
+      }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(DecryptionError);
+      expect(error.reason).toBe('wrong-key');
+    });
+
+    it('should report a missing key', async () => {
+      await mockEncryptedGist(await encryptBundle(plainFiles, { passphrase: 'pw' }));
+
+      const error = await importSession('abc123', '/Users/test/project', {
+        identityPath: join(identityDir, 'identity.pem'),
+      }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(DecryptionError);
+      expect(error.reason).toBe('missing-key');
+    });
+  });
 });
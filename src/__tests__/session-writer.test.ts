@@ -3,7 +3,7 @@
  */
 
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
-import { writeSessionToLocal, SessionWriteError } from '../session/writer.js';
+import { writeSessionToLocal, writeAgentSessionToLocal, SessionWriteError } from '../session/writer.js';
 import type { UserMessage, AssistantMessage } from '../session/types.js';
 import { homedir } from 'os';
 import { join } from 'path';
@@ -308,6 +308,27 @@ describe('writeSessionToLocal', () => {
     }
   });
 
+  it('should take the sessionId from the first message that has one', async () => {
+    const messages = [
+      { type: 'summary', summary: 'Earlier work', leafUuid: 'uuid-1' },
+      {
+        type: 'user',
+        uuid: 'uuid-1',
+        sessionId: 'session-123',
+        timestamp: '2024-01-01T00:00:00Z',
+        parentUuid: null,
+        message: { role: 'user', content: 'Test message' },
+        cwd: '/Users/name/project',
+        version: '1.0.0',
+      },
+    ] as unknown as UserMessage[];
+
+    const result = await writeSessionToLocal(messages, '/Users/name/project');
+
+    expect(result.sessionId).toBe('session-123');
+    expect(result.filePath).toMatch(/session-123\.jsonl$/);
+  });
+
   it('should throw error for empty messages array', async () => {
     const messages: UserMessage[] = [];
 
@@ -354,3 +375,38 @@ describe('writeSessionToLocal', () => {
     expect(parsed.isMeta).toBe(false);
   });
 });
+
+describe('writeAgentSessionToLocal', () => {
+  const message: UserMessage = {
+    type: 'user',
+    uuid: 'uuid-1',
+    sessionId: 'session-123',
+    timestamp: '2024-01-01T00:00:00Z',
+    parentUuid: null,
+    message: { role: 'user', content: 'Subtask' },
+    cwd: '/Users/name/project',
+    version: '1.0.0',
+    isSidechain: true,
+  };
+
+  beforeEach(async () => {
+    const fs = await import('fs/promises');
+    vi.clearAllMocks();
+    (fs.mkdir as any).mockResolvedValue(undefined);
+    (fs.writeFile as any).mockResolvedValue(undefined);
+  });
+
+  it('should write agent-<id>.jsonl next to the main session', async () => {
+    const fs = await import('fs/promises');
+
+    const filePath = await writeAgentSessionToLocal([message], '/Users/name/project', 'a1b2c3d4');
+
+    const expectedPath = join(homedir(), '.claude', 'projects', '-Users-name-project', 'agent-a1b2c3d4.jsonl');
+    expect(filePath).toBe(expectedPath);
+    expect(fs.writeFile).toHaveBeenCalledWith(expectedPath, JSON.stringify(message) + '\n', { encoding: 'utf-8' });
+  });
+
+  it('should reject agent IDs that are not plain identifiers', async () => {
+    await expect(writeAgentSessionToLocal([message], '/Users/name/project', '../evil')).rejects.toThrow(SessionWriteError);
+  });
+});
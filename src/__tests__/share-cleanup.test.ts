@@ -0,0 +1,141 @@
+/**
+ * Tests for expired share cleanup service
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readdir, rm } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { cleanupExpiredShares } from '../services/share-cleanup.js';
+import { LocalShareBackend } from '../backends/local.js';
+import { appendLedgerEntry, readLedger } from '../shares/ledger.js';
+import { getShareMapping, recordShareMapping } from '../shares/mapping.js';
+import { ENCRYPTED_BUNDLE_FILENAME } from '../encryption/envelope.js';
+
+describe('cleanupExpiredShares', () => {
+  let dir: string;
+  let shareDir: string;
+  let backend: LocalShareBackend;
+
+  const now = new Date('2026-02-01T00:00:00.000Z');
+  const past = '2026-01-31T00:00:00.000Z';
+  const future = '2026-02-02T00:00:00.000Z';
+
+  function sessionFiles(expiresAt?: string): Record<string, string> {
+    return {
+      'session.jsonl': '{}',
+      'metadata.json': JSON.stringify({
+        sessionId: 'session-1',
+        projectPath: '.',
+        messageCount: 1,
+        firstTimestamp: '2026-01-01T00:00:00.000Z',
+        lastTimestamp: '2026-01-01T00:00:00.000Z',
+        hasAgentConversations: false,
+        version: '1.0.0',
+        ...(expiresAt ? { expiresAt } : {}),
+      }),
+    };
+  }
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'cleanup-test-'));
+    shareDir = join(dir, 'shares');
+    vi.stubEnv('HOME', dir);
+    vi.stubEnv('SESSION_SHARE_BACKEND', 'local');
+    vi.stubEnv('SESSION_SHARE_DIR', shareDir);
+    backend = new LocalShareBackend(shareDir);
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should delete shares whose metadata declares a past expiry', async () => {
+    const expired = await backend.create('Claude Code Session - old', sessionFiles(past));
+    const active = await backend.create('Claude Code Session - new', sessionFiles(future));
+    const forever = await backend.create('Claude Code Session - keep', sessionFiles());
+    await recordShareMapping('/sessions/old.jsonl', {
+      backend: 'local',
+      shareId: expired.id,
+      url: expired.url,
+      encrypted: false,
+      expiresAt: past,
+    });
+
+    const result = await cleanupExpiredShares({ now });
+
+    expect(result.deleted).toEqual([
+      { backend: 'local', shareId: expired.id, url: expired.url, expiresAt: past },
+    ]);
+    expect(result.failed).toEqual([]);
+    expect((await readdir(shareDir)).sort()).toEqual([active.id, forever.id].sort());
+    expect(await getShareMapping('/sessions/old.jsonl')).toBeNull();
+    expect(await readLedger({ action: 'expire' })).toEqual([
+      expect.objectContaining({ shareId: expired.id, expiresAt: past }),
+    ]);
+  });
+
+  it('should find expired encrypted shares through the ledger', async () => {
+    const share = await backend.create('Claude Code Session (encrypted)', { [ENCRYPTED_BUNDLE_FILENAME]: '{}' });
+    await appendLedgerEntry({
+      action: 'share',
+      backend: 'local',
+      shareId: share.id,
+      url: share.url,
+      encrypted: true,
+      expiresAt: past,
+    });
+
+    const result = await cleanupExpiredShares({ now });
+
+    expect(result.deleted.map((s) => s.shareId)).toEqual([share.id]);
+    expect(await readdir(shareDir)).toEqual([]);
+  });
+
+  it('should let current metadata override an older ledger expiry', async () => {
+    const share = await backend.create('Claude Code Session - app', sessionFiles(future));
+    await appendLedgerEntry({ action: 'share', backend: 'local', shareId: share.id, url: share.url, expiresAt: past });
+
+    const result = await cleanupExpiredShares({ now });
+
+    expect(result.expired).toEqual([]);
+    expect(await readdir(shareDir)).toEqual([share.id]);
+  });
+
+  it('should skip ledger shares that were already revoked', async () => {
+    await appendLedgerEntry({ action: 'share', backend: 'local', shareId: 'gone', url: 'share://gone', expiresAt: past });
+    await appendLedgerEntry({ action: 'revoke', backend: 'local', shareId: 'gone', url: 'share://gone' });
+
+    expect((await cleanupExpiredShares({ now })).expired).toEqual([]);
+  });
+
+  it('should count shares that no longer exist as deleted', async () => {
+    await appendLedgerEntry({ action: 'share', backend: 'local', shareId: 'gone', url: 'share://gone', expiresAt: past });
+
+    const result = await cleanupExpiredShares({ now });
+
+    expect(result.deleted.map((s) => s.shareId)).toEqual(['gone']);
+    expect(result.failed).toEqual([]);
+  });
+
+  it('should report shares that cannot be deleted and continue', async () => {
+    await appendLedgerEntry({ action: 'share', backend: 'nope', shareId: 'x', url: 'nope://x', expiresAt: past });
+    const share = await backend.create('Claude Code Session - old', sessionFiles(past));
+
+    const result = await cleanupExpiredShares({ now });
+
+    expect(result.deleted.map((s) => s.shareId)).toEqual([share.id]);
+    expect(result.failed).toEqual([expect.objectContaining({ shareId: 'x', error: expect.stringMatching(/Unknown share backend/) })]);
+  });
+
+  it('should only report expired shares in dry runs', async () => {
+    const share = await backend.create('Claude Code Session - old', sessionFiles(past));
+
+    const result = await cleanupExpiredShares({ now, dryRun: true });
+
+    expect(result.expired.map((s) => s.shareId)).toEqual([share.id]);
+    expect(result.deleted).toEqual([]);
+    expect(await readdir(shareDir)).toEqual([share.id]);
+  });
+});
@@ -0,0 +1,180 @@
+/**
+ * Tests for shared session listing service
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdir, mkdtemp, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { listShares, isSessionShare, isSessionMetadata } from '../services/share-lister.js';
+import { LocalShareBackend } from '../backends/local.js';
+import { getShareMapPath, recordShareMapping } from '../shares/mapping.js';
+import { ENCRYPTED_BUNDLE_FILENAME } from '../encryption/envelope.js';
+
+describe('listShares', () => {
+  let dir: string;
+  let backend: LocalShareBackend;
+
+  const metadata = {
+    sessionId: 'session-1',
+    projectPath: '.',
+    messageCount: 12,
+    firstTimestamp: '2026-01-12T10:00:00.000Z',
+    lastTimestamp: '2026-01-12T11:00:00.000Z',
+    hasAgentConversations: false,
+    version: '1.0.0',
+  };
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'list-shares-test-'));
+    vi.stubEnv('HOME', dir);
+    vi.stubEnv('SESSION_SHARE_BACKEND', 'local');
+    vi.stubEnv('SESSION_SHARE_DIR', join(dir, 'shares'));
+    backend = new LocalShareBackend(join(dir, 'shares'));
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    vi.unstubAllEnvs();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should summarize session shares with metadata', async () => {
+    const share = await backend.create('Claude Code Session - my-app', {
+      'session.jsonl': '{}',
+      'metadata.json': JSON.stringify(metadata),
+    });
+
+    const shares = await listShares();
+
+    expect(shares).toEqual([
+      {
+        title: 'Claude Code Session - my-app',
+        projectName: 'my-app',
+        messageCount: 12,
+        expiresAt: null,
+        encrypted: false,
+        createdAt: share.createdAt,
+        updatedAt: share.updatedAt,
+        shareId: share.id,
+        url: share.url,
+        backend: 'local',
+        sessionPaths: [],
+      },
+    ]);
+  });
+
+  it('should read only metadata.json of each share', async () => {
+    await backend.create('Claude Code Session - my-app', {
+      'session.jsonl': '{}',
+      'metadata.json': JSON.stringify(metadata),
+    });
+    const fetchSpy = vi.spyOn(LocalShareBackend.prototype, 'fetch');
+    const fetchFileSpy = vi.spyOn(LocalShareBackend.prototype, 'fetchFile');
+
+    const [share] = await listShares();
+
+    expect(share.messageCount).toBe(12);
+    expect(fetchSpy).not.toHaveBeenCalled();
+    expect(fetchFileSpy).toHaveBeenCalledWith(share.shareId, 'metadata.json');
+  });
+
+  it('should skip shares not created by this project', async () => {
+    await backend.create('Notes', { 'notes.md': '# hi' });
+    await backend.create('Other tool', { 'metadata.json': '{"name":"x"}', 'data.jsonl': '{}' });
+
+    expect(await listShares()).toEqual([]);
+  });
+
+  it('should recognize session bundles whose description was edited', async () => {
+    await backend.create('Bug repro for Alice', {
+      'session.jsonl': '{}',
+      'metadata.json': JSON.stringify(metadata),
+    });
+
+    const [share] = await listShares();
+
+    expect(share.title).toBe('Bug repro for Alice');
+    expect(share.projectName).toBeNull();
+    expect(share.messageCount).toBe(12);
+  });
+
+  it('should list encrypted shares without reading them', async () => {
+    await backend.create('Claude Code Session (encrypted)', { [ENCRYPTED_BUNDLE_FILENAME]: '{}' });
+
+    const [share] = await listShares();
+
+    expect(share).toMatchObject({ encrypted: true, messageCount: null, projectName: null });
+  });
+
+  it('should not take a project name from timestamp titles', async () => {
+    await backend.create('Claude Code Session - 2026-01-12T10:00:00.000Z', {
+      'session.jsonl': '{}',
+      'metadata.json': JSON.stringify(metadata),
+    });
+
+    const [share] = await listShares();
+
+    expect(share.projectName).toBeNull();
+  });
+
+  it('should annotate shares with local sessions from the mapping', async () => {
+    const share = await backend.create('Claude Code Session - my-app', { 'session.jsonl': '{}' });
+    await recordShareMapping('/sessions/a.jsonl', {
+      backend: 'local',
+      shareId: share.id,
+      url: share.url,
+      encrypted: false,
+    });
+
+    const [listed] = await listShares();
+
+    expect(listed.sessionPaths).toEqual(['/sessions/a.jsonl']);
+  });
+
+  it('should still list shares when the mapping is corrupt', async () => {
+    await backend.create('Claude Code Session - my-app', { 'session.jsonl': '{}' });
+    await mkdir(join(dir, '.claude-session-share'), { recursive: true });
+    await writeFile(getShareMapPath(), 'not json');
+
+    const shares = await listShares();
+
+    expect(shares).toHaveLength(1);
+    expect(shares[0].sessionPaths).toEqual([]);
+  });
+
+  it('should sort newest first', async () => {
+    await backend.create('Claude Code Session - old', { 'session.jsonl': '{}' });
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    await backend.create('Claude Code Session - new', { 'session.jsonl': '{}' });
+
+    expect((await listShares()).map((share) => share.projectName)).toEqual(['new', 'old']);
+  });
+});
+
+describe('isSessionShare', () => {
+  const summary = {
+    id: '1',
+    url: 'share://1',
+    description: '',
+    filenames: [] as string[],
+    createdAt: '',
+    updatedAt: '',
+  };
+
+  it('should match the description marker or session bundle files', () => {
+    expect(isSessionShare({ ...summary, description: 'Claude Code Session - app' })).toBe(true);
+    expect(isSessionShare({ ...summary, filenames: [ENCRYPTED_BUNDLE_FILENAME] })).toBe(true);
+    expect(isSessionShare({ ...summary, filenames: ['session.jsonl', 'metadata.json'] })).toBe(true);
+    expect(isSessionShare({ ...summary, filenames: ['session.part-001.jsonl.gz.b64', 'metadata.json'] })).toBe(true);
+    expect(isSessionShare({ ...summary, filenames: ['notes.md'] })).toBe(false);
+  });
+});
+
+describe('isSessionMetadata', () => {
+  it('should require session metadata fields', () => {
+    expect(isSessionMetadata({ sessionId: 's', messageCount: 1, firstTimestamp: 't' })).toBe(true);
+    expect(isSessionMetadata({ sessionId: 's' })).toBe(false);
+    expect(isSessionMetadata(null)).toBe(false);
+  });
+});
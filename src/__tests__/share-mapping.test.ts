@@ -0,0 +1,100 @@
+/**
+ * Tests for the local session-to-share mapping
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readFile, rm, stat, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  getShareMapPath,
+  getShareMapping,
+  findSessionsForShare,
+  loadShareMap,
+  recordShareMapping,
+  removeShareMappings,
+  ShareMapError,
+} from '../shares/mapping.js';
+
+describe('share mapping', () => {
+  let dir: string;
+  let mapPath: string;
+
+  const gistShare = {
+    backend: 'gist',
+    shareId: 'abc123',
+    url: 'https://gist.github.com/user/abc123',
+    encrypted: false,
+  };
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'share-map-test-'));
+    mapPath = join(dir, 'nested', 'shares.json');
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should live in ~/.claude-session-share', () => {
+    expect(getShareMapPath()).toMatch(/\.claude-session-share[\\/]shares\.json$/);
+  });
+
+  it('should be empty before anything is shared', async () => {
+    expect(await loadShareMap(mapPath)).toEqual({});
+    expect(await getShareMapping('/sessions/a.jsonl', mapPath)).toBeNull();
+  });
+
+  it('should record mappings keyed by absolute session path', async () => {
+    await recordShareMapping('/sessions/a.jsonl', gistShare, mapPath);
+
+    expect(await getShareMapping('/sessions/../sessions/a.jsonl', mapPath)).toMatchObject(gistShare);
+    expect(Object.keys(JSON.parse(await readFile(mapPath, 'utf-8')))).toEqual(['/sessions/a.jsonl']);
+    expect((await stat(mapPath)).mode & 0o777).toBe(0o600);
+  });
+
+  it('should keep createdAt when the same share is updated', async () => {
+    const first = await recordShareMapping('/sessions/a.jsonl', gistShare, mapPath);
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    const second = await recordShareMapping('/sessions/a.jsonl', gistShare, mapPath);
+
+    expect(second.createdAt).toBe(first.createdAt);
+    expect(second.updatedAt > first.updatedAt).toBe(true);
+  });
+
+  it('should reset createdAt when the session moves to a new share', async () => {
+    const first = await recordShareMapping('/sessions/a.jsonl', gistShare, mapPath);
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    const second = await recordShareMapping(
+      '/sessions/a.jsonl',
+      { ...gistShare, shareId: 'def456', url: 'https://gist.github.com/user/def456' },
+      mapPath
+    );
+
+    expect(second.createdAt > first.createdAt).toBe(true);
+  });
+
+  it('should keep other sessions when recording', async () => {
+    await recordShareMapping('/sessions/a.jsonl', gistShare, mapPath);
+    await recordShareMapping('/sessions/b.jsonl', { ...gistShare, backend: 'local', shareId: 'x', url: 'share://x' }, mapPath);
+
+    expect(Object.keys(await loadShareMap(mapPath)).sort()).toEqual(['/sessions/a.jsonl', '/sessions/b.jsonl']);
+  });
+
+  it('should find and remove every session mapped to a share', async () => {
+    await recordShareMapping('/sessions/a.jsonl', gistShare, mapPath);
+    await recordShareMapping('/sessions/b.jsonl', gistShare, mapPath);
+    await recordShareMapping('/sessions/c.jsonl', { ...gistShare, shareId: 'other' }, mapPath);
+
+    expect(await findSessionsForShare('gist', 'abc123', mapPath)).toEqual(['/sessions/a.jsonl', '/sessions/b.jsonl']);
+    expect(await removeShareMappings('gist', 'abc123', mapPath)).toEqual(['/sessions/a.jsonl', '/sessions/b.jsonl']);
+    expect(Object.keys(await loadShareMap(mapPath))).toEqual(['/sessions/c.jsonl']);
+  });
+
+  it('should throw ShareMapError for a corrupt mapping file', async () => {
+    await recordShareMapping('/sessions/a.jsonl', gistShare, mapPath);
+    await writeFile(mapPath, '[1, 2');
+
+    await expect(loadShareMap(mapPath)).rejects.toThrow(ShareMapError);
+  });
+});
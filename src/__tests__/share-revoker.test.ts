@@ -0,0 +1,124 @@
+/**
+ * Tests for share revocation service
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readdir, rm } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { revokeShare, ShareNotOwnedError } from '../services/share-revoker.js';
+import { LocalShareBackend } from '../backends/local.js';
+import { getShareMapping, recordShareMapping } from '../shares/mapping.js';
+import { readLedger } from '../shares/ledger.js';
+import * as gistClient from '../gist/client.js';
+import { GistApiError } from '../gist/client.js';
+
+describe('revokeShare', () => {
+  let dir: string;
+  let shareDir: string;
+  let backend: LocalShareBackend;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'revoke-test-'));
+    shareDir = join(dir, 'shares');
+    // Share mappings live under ~/.claude-session-share
+    vi.stubEnv('HOME', dir);
+    vi.stubEnv('SESSION_SHARE_DIR', shareDir);
+    backend = new LocalShareBackend(shareDir);
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should only describe the share without confirmation', async () => {
+    const share = await backend.create('Claude Code Session - app', { 'session.jsonl': '{}' });
+
+    const result = await revokeShare({ shareUrl: share.url });
+
+    expect(result).toMatchObject({
+      revoked: false,
+      backend: 'local',
+      url: share.url,
+      description: 'Claude Code Session - app',
+      filenames: ['session.jsonl'],
+      sessionPaths: [],
+    });
+    expect(await readdir(shareDir)).toEqual([share.id]);
+    expect(await readLedger()).toEqual([]);
+  });
+
+  it('should delete the share when confirmed', async () => {
+    const share = await backend.create('Session', { 'session.jsonl': '{}' });
+
+    const result = await revokeShare({ shareUrl: share.url }, { confirm: true });
+
+    expect(result.revoked).toBe(true);
+    expect(await readdir(shareDir)).toEqual([]);
+  });
+
+  it('should resolve a session path through the share mapping and forget it', async () => {
+    const share = await backend.create('Session', { 'session.jsonl': '{}' });
+    await recordShareMapping('/sessions/a.jsonl', {
+      backend: 'local',
+      shareId: share.id,
+      url: share.url,
+      encrypted: false,
+    });
+
+    const pending = await revokeShare({ sessionPath: '/sessions/a.jsonl' });
+    expect(pending.sessionPaths).toEqual(['/sessions/a.jsonl']);
+
+    await revokeShare({ sessionPath: '/sessions/a.jsonl' }, { confirm: true });
+
+    expect(await readdir(shareDir)).toEqual([]);
+    expect(await getShareMapping('/sessions/a.jsonl')).toBeNull();
+    expect(await readLedger()).toEqual([
+      expect.objectContaining({ action: 'revoke', sessionPath: '/sessions/a.jsonl', shareId: share.id }),
+    ]);
+  });
+
+  it('should fail for sessions without a recorded share', async () => {
+    await expect(revokeShare({ sessionPath: '/sessions/unknown.jsonl' })).rejects.toThrow(
+      /Failed to revoke share: No share recorded for session/
+    );
+  });
+
+  it('should fail for shares that do not exist', async () => {
+    await expect(revokeShare({ shareUrl: 'share://missing' })).rejects.toThrow(
+      /Failed to revoke share: Share not found/
+    );
+  });
+
+  it('should throw ShareNotOwnedError when the backend refuses to delete a readable share', async () => {
+    vi.stubEnv('GITHUB_TOKEN', 'test_token');
+    const RealGistClient = gistClient.GistClient;
+    vi.spyOn(gistClient, 'GistClient').mockImplementation(function () {
+      const client = Object.create(RealGistClient.prototype);
+      client.name = 'gist';
+      client.fetchGist = vi.fn().mockResolvedValue({
+        id: 'aa5a315d61ae9438b18d',
+        url: 'https://api.github.com/gists/aa5a315d61ae9438b18d',
+        html_url: 'https://gist.github.com/someone/aa5a315d61ae9438b18d',
+        files: {},
+        public: false,
+        created_at: '2026-01-01T00:00:00Z',
+        updated_at: '2026-01-01T00:00:00Z',
+        description: 'Claude Code Session - app',
+      });
+      client.deleteGist = vi.fn().mockRejectedValue(new GistApiError('Gist not found', 404));
+      return client;
+    } as any);
+
+    const error = await revokeShare(
+      { shareUrl: 'https://gist.github.com/someone/aa5a315d61ae9438b18d' },
+      { confirm: true }
+    ).catch((e) => e);
+
+    expect(error).toBeInstanceOf(ShareNotOwnedError);
+    expect(error.message).toMatch(/cannot be deleted with your credentials/);
+    expect(error.url).toBe('https://gist.github.com/someone/aa5a315d61ae9438b18d');
+  });
+});
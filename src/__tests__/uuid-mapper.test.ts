@@ -3,8 +3,9 @@
  */
 
 import { describe, it, expect, beforeEach } from 'vitest';
-import { UUIDMapper } from '../utils/uuid-mapper.js';
-import type { UserMessage, AssistantMessage, FileHistorySnapshot } from '../session/types.js';
+import { UUIDMapper, uuidV5 } from '../utils/uuid-mapper.js';
+import { findDanglingReferences } from '../session/references.js';
+import type { UserMessage, AssistantMessage, FileHistorySnapshot, SessionMessage } from '../session/types.js';
 
 describe('UUIDMapper', () => {
   let mapper: UUIDMapper;
@@ -69,6 +70,112 @@ describe('UUIDMapper', () => {
     });
   });
 
+  describe('assign', () => {
+    it('should make remap return the assigned UUID', () => {
+      mapper.assign('session-1', 'kept-session-id');
+
+      expect(mapper.remap('session-1')).toBe('kept-session-id');
+      expect(mapper.remap('session-2')).not.toBe('kept-session-id');
+    });
+  });
+
+  describe('cross-references', () => {
+    const lines = [
+      { type: 'summary', summary: 'Earlier work', leafUuid: 'a1' },
+      {
+        type: 'assistant', uuid: 'a1', sessionId: 's1', parentUuid: null, timestamp: '2024-01-01T00:00:00Z',
+        message: { role: 'assistant', content: [{ type: 'tool_use', id: 'toolu_01Abc', name: 'Task', input: {} }] },
+      },
+      { type: 'progress', uuid: 'p1', sessionId: 's1', parentUuid: 'a1', toolUseID: 'toolu_01Abc', sourceToolUseID: 'toolu_01Abc' },
+      {
+        type: 'user', uuid: 'u1', sessionId: 's1', parentUuid: 'p1', timestamp: '2024-01-01T00:00:01Z',
+        message: { role: 'user', content: [{ type: 'tool_result', tool_use_id: 'toolu_01Abc', content: 'done' }] },
+        toolUseResult: { agentId: 'a1b2c3d4', status: 'completed' },
+      },
+      { type: 'system', subtype: 'compact_boundary', uuid: 'c1', sessionId: 's1', parentUuid: null, logicalParentUuid: 'u1' },
+      { type: 'file-history-snapshot', messageId: 'u1', snapshot: { messageId: 'u1', trackedFileBackups: {} }, isSnapshotUpdate: false },
+      { type: 'user', uuid: 'x1', sessionId: 's1', parentUuid: 'a1', isSidechain: true, agentId: 'a1b2c3d4', message: { role: 'user', content: 'Task' } },
+    ] as unknown as SessionMessage[];
+
+    it('should remap every identifier consistently', () => {
+      const [summary, assistant, progress, user, boundary, snapshot, sidechain] = lines.map(
+        (line) => mapper.remapMessage(line) as any
+      );
+
+      expect(summary.leafUuid).toBe(assistant.uuid);
+      expect(progress.parentUuid).toBe(assistant.uuid);
+      expect(boundary.logicalParentUuid).toBe(user.uuid);
+      expect(snapshot.messageId).toBe(user.uuid);
+      expect(snapshot.snapshot.messageId).toBe(user.uuid);
+
+      const toolUseId = assistant.message.content[0].id;
+      expect(toolUseId).toMatch(/^toolu_[0-9a-f]{32}$/);
+      expect(progress.toolUseID).toBe(toolUseId);
+      expect(progress.sourceToolUseID).toBe(toolUseId);
+      expect(user.message.content[0].tool_use_id).toBe(toolUseId);
+
+      expect(sidechain.agentId).toMatch(/^[0-9a-f]{8}$/);
+      expect(sidechain.agentId).not.toBe('a1b2c3d4');
+      expect(user.toolUseResult).toEqual({ agentId: sidechain.agentId, status: 'completed' });
+    });
+
+    it('should keep references resolvable', () => {
+      expect(findDanglingReferences(lines.map((line) => mapper.remapMessage(line)))).toEqual([]);
+    });
+
+    it('should not add fields a line does not have', () => {
+      const summary = mapper.remapMessage(lines[0]);
+
+      expect(Object.keys(summary).sort()).toEqual(['leafUuid', 'summary', 'type']);
+    });
+
+    it('should not mutate content blocks', () => {
+      mapper.remapMessage(lines[1]);
+
+      expect((lines[1] as any).message.content[0].id).toBe('toolu_01Abc');
+    });
+  });
+
+  describe('deterministic mode', () => {
+    it('should derive the same UUIDs in every mapper with the same namespace', () => {
+      const first = new UUIDMapper({ namespace: 'gist:abc123' });
+      const second = new UUIDMapper({ namespace: 'gist:abc123' });
+
+      expect(first.deterministic).toBe(true);
+      expect(first.remap('uuid-1')).toBe(second.remap('uuid-1'));
+      expect(first.remap('uuid-1')).not.toBe(first.remap('uuid-2'));
+    });
+
+    it('should derive different UUIDs in different namespaces', () => {
+      const gist = new UUIDMapper({ namespace: 'gist:abc123' });
+      const local = new UUIDMapper({ namespace: 'local:abc123' });
+
+      expect(gist.remap('uuid-1')).not.toBe(local.remap('uuid-1'));
+    });
+
+    it('should generate valid UUID v5 format', () => {
+      const remapped = new UUIDMapper({ namespace: 'gist:abc123' }).remap('test-uuid');
+
+      expect(remapped).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-5[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+    });
+
+    it('should be random by default', () => {
+      expect(mapper.deterministic).toBe(false);
+      expect(mapper.remap('uuid-1')).not.toBe(new UUIDMapper().remap('uuid-1'));
+    });
+  });
+
+  describe('uuidV5', () => {
+    it('should match the RFC 9562 test vector', () => {
+      // DNS namespace, www.example.com
+      expect(uuidV5('6ba7b810-9dad-11d1-80b4-00c04fd430c8', 'www.example.com')).toBe('2ed6657d-e927-568b-95e1-2665a8aea6a2');
+    });
+
+    it('should reject an invalid namespace', () => {
+      expect(() => uuidV5('not-a-uuid', 'name')).toThrow('Invalid namespace UUID');
+    });
+  });
+
   describe('remapMessage', () => {
     it('should remap UUIDs in a user message', () => {
       const original: UserMessage = {
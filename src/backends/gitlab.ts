@@ -0,0 +1,386 @@
+/**
+ * GitLab snippet share backend
+ *
+ * Stores share bundles as multi-file GitLab snippets, either personal snippets
+ * (https://gitlab.com/-/snippets/123) or project snippets
+ * (https://gitlab.com/group/project/-/snippets/456).
+ *
+ * Configuration (environment variables):
+ * - GITLAB_TOKEN (required, personal access token with "api" scope)
+ * - GITLAB_URL (default: https://gitlab.com; set for self-managed instances)
+ * - SESSION_SHARE_GITLAB_PROJECT (optional project ID or path; new shares become project snippets)
+ * - SESSION_SHARE_GITLAB_VISIBILITY (private | internal | public; default: private.
+ *   Recipients of a private personal snippet need its author's access, so share
+ *   through a project snippet their team is a member of. gitlab.com rejects
+ *   internal visibility for new snippets.)
+ *
+ * The token is only ever sent to GITLAB_URL: snippet URLs on other hosts are rejected.
+ */
+
+import type { ShareBackend, StoredShare, ShareSummary } from './types.js';
+
+/**
+ * Default GitLab instance
+ */
+export const DEFAULT_GITLAB_URL = 'https://gitlab.com';
+
+const VISIBILITY_LEVELS = ['private', 'internal', 'public'] as const;
+
+/**
+ * File entry of a snippet as returned by the GitLab API
+ */
+export interface GitLabSnippetFile {
+  path: string;
+  /** Raw download URL (".../raw/{ref}/{path}") */
+  raw_url?: string;
+}
+
+/**
+ * Snippet as returned by the GitLab snippets API
+ */
+export interface GitLabSnippet {
+  id: number;
+  title: string;
+  description: string | null;
+  visibility: string;
+  web_url: string;
+  created_at: string;
+  updated_at: string;
+  files?: GitLabSnippetFile[];
+}
+
+/**
+ * Error body of a failed GitLab API request
+ */
+interface GitLabErrorBody {
+  message?: unknown;
+  error?: string;
+}
+
+/**
+ * Location of a snippet: personal (no project) or inside a project
+ */
+interface SnippetLocation {
+  snippetId: string;
+  /** Project ID or full path (e.g. "group/project") for project snippets */
+  project?: string;
+}
+
+/**
+ * Error thrown when GITLAB_TOKEN is missing or invalid
+ */
+export class GitLabAuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GitLabAuthError';
+  }
+}
+
+/**
+ * Error thrown when GitLab snippet API operations fail
+ */
+export class GitLabApiError extends Error {
+  constructor(
+    message: string,
+    public readonly statusCode?: number
+  ) {
+    super(message);
+    this.name = 'GitLabApiError';
+  }
+}
+
+/**
+ * Check whether a share reference is a GitLab snippet URL (on any host)
+ *
+ * @example
+ * isGitLabSnippetReference('https://gitlab.com/-/snippets/123') // true
+ * isGitLabSnippetReference('https://gitlab.example.com/group/project/-/snippets/456') // true
+ * isGitLabSnippetReference('https://gist.github.com/user/abc123') // false
+ */
+export function isGitLabSnippetReference(ref: string): boolean {
+  return /^https?:\/\/[^/]+\/(?:[^?#]+\/)?-\/snippets\/\d+/i.test(ref.trim());
+}
+
+/**
+ * Parse a GitLab snippet URL or bare snippet ID
+ *
+ * @param ref - Snippet URL or numeric ID
+ * @param defaultProject - Project used for bare IDs (personal snippet if omitted)
+ * @returns Instance origin (for URLs) and snippet location
+ *
+ * @example
+ * parseGitLabSnippetReference('https://gitlab.com/group/project/-/snippets/456')
+ * // Returns: { origin: 'https://gitlab.com', location: { snippetId: '456', project: 'group/project' } }
+ */
+export function parseGitLabSnippetReference(
+  ref: string,
+  defaultProject?: string
+): { origin?: string; location: SnippetLocation } {
+  const trimmed = ref.trim().replace(/\/+$/, '');
+
+  if (/^\d+$/.test(trimmed)) {
+    return { location: { snippetId: trimmed, project: defaultProject } };
+  }
+
+  const match = trimmed.match(/^(https?:\/\/[^/]+)\/(?:([^?#]+)\/)?-\/snippets\/(\d+)/i);
+  if (!match) {
+    throw new GitLabApiError(`Not a GitLab snippet URL or ID: ${ref}`);
+  }
+
+  return {
+    origin: match[1].toLowerCase(),
+    location: { snippetId: match[3], project: match[2] || undefined },
+  };
+}
+
+/**
+ * Authenticated GitLab snippet client
+ */
+export class GitLabSnippetBackend implements ShareBackend {
+  readonly name = 'gitlab';
+  private readonly token: string;
+  private readonly baseUrl: string;
+  private readonly project?: string;
+  private readonly visibility: string;
+
+  constructor() {
+    const token = process.env.GITLAB_TOKEN;
+
+    if (!token) {
+      throw new GitLabAuthError(
+        'GITLAB_TOKEN environment variable is required. ' +
+        'Create a personal access token with "api" scope under User Settings > Access Tokens.'
+      );
+    }
+
+    this.token = token;
+    this.baseUrl = (process.env.GITLAB_URL || DEFAULT_GITLAB_URL).replace(/\/+$/, '').toLowerCase();
+    this.project = process.env.SESSION_SHARE_GITLAB_PROJECT || undefined;
+
+    const visibility = process.env.SESSION_SHARE_GITLAB_VISIBILITY || 'private';
+    if (!(VISIBILITY_LEVELS as readonly string[]).includes(visibility)) {
+      throw new GitLabApiError(
+        `SESSION_SHARE_GITLAB_VISIBILITY must be one of ${VISIBILITY_LEVELS.join(', ')}, got "${visibility}"`
+      );
+    }
+    this.visibility = visibility;
+  }
+
+  async create(description: string, files: Record<string, string>): Promise<StoredShare> {
+    const snippet = await this.request<GitLabSnippet>('POST', this.snippetsPath(this.project), 'create snippet', {
+      title: description,
+      description,
+      visibility: this.visibility,
+      files: Object.entries(files).map(([file_path, content]) => ({ file_path, content })),
+    });
+
+    return this.toStoredShare(snippet, { ...files });
+  }
+
+  async fetch(ref: string): Promise<StoredShare> {
+    const location = this.resolveLocation(ref);
+    const snippet = await this.getSnippet(location);
+
+    const files: Record<string, string> = {};
+    for (const file of snippet.files ?? []) {
+      files[file.path] = await this.requestText(
+        `${this.snippetPath(location)}/files/${encodeURIComponent(this.fileRef(file))}/${encodeURIComponent(file.path)}/raw`,
+        'fetch snippet file',
+        location.snippetId
+      );
+    }
+
+    return this.toStoredShare(snippet, files);
+  }
+
+  async fetchFile(ref: string, filename: string): Promise<string | null> {
+    const location = this.resolveLocation(ref);
+    const snippet = await this.getSnippet(location);
+
+    const file = (snippet.files ?? []).find((candidate) => candidate.path === filename);
+    if (!file) {
+      return null;
+    }
+    return this.requestText(
+      `${this.snippetPath(location)}/files/${encodeURIComponent(this.fileRef(file))}/${encodeURIComponent(file.path)}/raw`,
+      'fetch snippet file',
+      location.snippetId
+    );
+  }
+
+  async update(ref: string, files: Record<string, string>, description?: string): Promise<StoredShare> {
+    const location = this.resolveLocation(ref);
+    const existing = await this.getSnippet(location);
+    const existingPaths = new Set((existing.files ?? []).map((file) => file.path));
+
+    await this.request<GitLabSnippet>('PUT', this.snippetPath(location), 'update snippet', {
+      ...(description !== undefined ? { title: description, description } : {}),
+      files: [
+        ...Object.entries(files).map(([file_path, content]) => ({
+          action: existingPaths.has(file_path) ? 'update' : 'create',
+          file_path,
+          content,
+        })),
+        ...[...existingPaths]
+          .filter((file_path) => !(file_path in files))
+          .map((file_path) => ({ action: 'delete', file_path })),
+      ],
+    }, location.snippetId);
+
+    return this.fetch(ref);
+  }
+
+  async delete(ref: string): Promise<void> {
+    const location = this.resolveLocation(ref);
+    await this.request<void>('DELETE', this.snippetPath(location), 'delete snippet', undefined, location.snippetId);
+  }
+
+  async list(): Promise<ShareSummary[]> {
+    const summaries: ShareSummary[] = [];
+    let page: string | null = '1';
+
+    while (page) {
+      const response = await this.send(
+        'GET',
+        `${this.snippetsPath(this.project)}?per_page=100&page=${page}`,
+        'list snippets'
+      );
+      const snippets = (await response.json()) as GitLabSnippet[];
+      for (const snippet of snippets) {
+        summaries.push({
+          id: String(snippet.id),
+          url: snippet.web_url,
+          description: snippet.description || snippet.title || '',
+          filenames: (snippet.files ?? []).map((file) => file.path),
+          createdAt: snippet.created_at,
+          updatedAt: snippet.updated_at,
+        });
+      }
+      page = response.headers.get('x-next-page') || null;
+    }
+
+    return summaries;
+  }
+
+  /**
+   * Resolve a snippet URL or ID, refusing URLs on a host other than GITLAB_URL
+   */
+  private resolveLocation(ref: string): SnippetLocation {
+    const { origin, location } = parseGitLabSnippetReference(ref, this.project);
+    if (origin && origin !== this.baseUrl) {
+      throw new GitLabApiError(
+        `Snippet ${ref} is on ${origin} but GITLAB_URL is ${this.baseUrl}. ` +
+        'Set GITLAB_URL (and a GITLAB_TOKEN for that instance) to import it.'
+      );
+    }
+    return location;
+  }
+
+  private snippetsPath(project?: string): string {
+    return project ? `/projects/${encodeURIComponent(project)}/snippets` : '/snippets';
+  }
+
+  private snippetPath(location: SnippetLocation): string {
+    return `${this.snippetsPath(location.project)}/${location.snippetId}`;
+  }
+
+  /**
+   * Repository ref a snippet file lives on, taken from its raw_url (".../raw/{ref}/{path}")
+   */
+  private fileRef(file: GitLabSnippetFile): string {
+    const match = file.raw_url?.match(/\/raw\/([^/]+)\//);
+    return match ? decodeURIComponent(match[1]) : 'main';
+  }
+
+  private async getSnippet(location: SnippetLocation): Promise<GitLabSnippet> {
+    return this.request<GitLabSnippet>('GET', this.snippetPath(location), 'fetch snippet', undefined, location.snippetId);
+  }
+
+  /**
+   * Send a request and parse the JSON response (undefined for 204 No Content)
+   */
+  private async request<T>(
+    method: string,
+    path: string,
+    action: string,
+    body?: unknown,
+    snippetId?: string
+  ): Promise<T> {
+    const response = await this.send(method, path, action, body, snippetId);
+    return (response.status === 204 ? undefined : await response.json()) as T;
+  }
+
+  private async requestText(path: string, action: string, snippetId: string): Promise<string> {
+    const response = await this.send('GET', path, action, undefined, snippetId);
+    return response.text();
+  }
+
+  private async send(
+    method: string,
+    path: string,
+    action: string,
+    body?: unknown,
+    snippetId?: string
+  ): Promise<Response> {
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl}/api/v4${path}`, {
+        method,
+        headers: {
+          'PRIVATE-TOKEN': this.token,
+          ...(body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+        },
+        body: body !== undefined ? JSON.stringify(body) : undefined,
+      });
+    } catch (error: any) {
+      throw new GitLabApiError(`Failed to ${action}: ${error?.message || String(error)}`);
+    }
+
+    if (!response.ok) {
+      throw await this.toGitLabError(response, action, snippetId);
+    }
+    return response;
+  }
+
+  private toStoredShare(snippet: GitLabSnippet, files: Record<string, string>): StoredShare {
+    return {
+      id: String(snippet.id),
+      url: snippet.web_url,
+      description: snippet.description || snippet.title || '',
+      files,
+      createdAt: snippet.created_at,
+      updatedAt: snippet.updated_at,
+    };
+  }
+
+  /**
+   * Translate a failed response into GitLabAuthError / GitLabApiError
+   */
+  private async toGitLabError(response: Response, action: string, snippetId?: string): Promise<Error> {
+    const body = (await response.json().catch(() => ({}))) as GitLabErrorBody | null;
+    const detail = typeof body?.message === 'string'
+      ? body.message
+      : body?.message
+        ? JSON.stringify(body.message)
+        : body?.error || response.statusText;
+
+    if (response.status === 401) {
+      return new GitLabAuthError(
+        `Invalid GITLAB_TOKEN for ${this.baseUrl}. Check that the token is valid and has the "api" scope.`
+      );
+    }
+    if (response.status === 404) {
+      return new GitLabApiError(
+        `Snippet not found: ${snippetId ?? 'unknown'}. It may not exist or you may not have access to it.`,
+        404
+      );
+    }
+    if (response.status === 403) {
+      return new GitLabApiError(
+        `Access denied${snippetId ? ` to snippet ${snippetId}` : ''}. Ensure your GITLAB_TOKEN has the "api" scope and access to the snippet.`,
+        403
+      );
+    }
+    return new GitLabApiError(`Failed to ${action}: ${detail || 'Unknown error'}`, response.status);
+  }
+}
@@ -0,0 +1,297 @@
+/**
+ * Local filesystem share backend
+ *
+ * Stores share bundles in a directory (NFS mount, synced folder, shared drive)
+ * for teams that cannot reach GitHub:
+ *   {SESSION_SHARE_DIR}/{shareId}/session.jsonl
+ *   {SESSION_SHARE_DIR}/{shareId}/metadata.json
+ *   {SESSION_SHARE_DIR}/{shareId}/share.json   (description and timestamps)
+ *
+ * Shares are identified by `share://{shareId}` (resolved against the reader's
+ * own SESSION_SHARE_DIR, so the mount point may differ between machines) or by
+ * `file:///absolute/path/to/{shareId}`.
+ */
+
+import { mkdir, readFile, readdir, rename, rm, writeFile } from 'fs/promises';
+import { join, resolve } from 'path';
+import { randomUUID } from 'crypto';
+import { fileURLToPath, pathToFileURL } from 'url';
+import type { ShareBackend, StoredShare, ShareSummary } from './types.js';
+
+/**
+ * Name of the per-share manifest file (not part of the bundle)
+ */
+const MANIFEST_FILENAME = 'share.json';
+
+/**
+ * Contents of a share manifest
+ */
+interface ShareManifest {
+  description: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Error thrown when local share operations fail
+ */
+export class LocalShareError extends Error {
+  constructor(
+    message: string,
+    public readonly code?: string
+  ) {
+    super(message);
+    this.name = 'LocalShareError';
+  }
+}
+
+/**
+ * Check whether a share reference is a local share:// or file:// identifier
+ *
+ * @example
+ * isLocalShareReference('share://3f2b...') // true
+ * isLocalShareReference('file:///mnt/shares/3f2b...') // true
+ * isLocalShareReference('https://gist.github.com/user/abc123') // false
+ */
+export function isLocalShareReference(ref: string): boolean {
+  return /^(?:share|file):\/\//i.test(ref.trim());
+}
+
+/**
+ * Share backend writing bundles to a local or network-mounted directory
+ */
+export class LocalShareBackend implements ShareBackend {
+  readonly name = 'local';
+  private readonly rootDir?: string;
+
+  /**
+   * @param rootDir - Share directory (defaults to SESSION_SHARE_DIR). Only required
+   *   for creating and listing shares and for share:// references; file:// references
+   *   can be read without it.
+   */
+  constructor(rootDir: string | undefined = process.env.SESSION_SHARE_DIR) {
+    this.rootDir = rootDir ? resolve(rootDir) : undefined;
+  }
+
+  async create(description: string, files: Record<string, string>): Promise<StoredShare> {
+    const root = this.requireRootDir();
+    const id = randomUUID();
+    const shareDir = join(root, id);
+    const now = new Date().toISOString();
+
+    try {
+      await mkdir(shareDir, { recursive: true });
+      await this.writeBundleFiles(shareDir, files);
+      // Manifest is written last: a directory without one is an incomplete share
+      await this.writeManifest(shareDir, { description, createdAt: now, updatedAt: now });
+    } catch (error) {
+      throw this.toLocalShareError(error, 'create share in', shareDir);
+    }
+
+    return {
+      id,
+      url: `share://${id}`,
+      description,
+      files: { ...files },
+      createdAt: now,
+      updatedAt: now,
+    };
+  }
+
+  async fetch(ref: string): Promise<StoredShare> {
+    const { id, url, shareDir } = this.resolveReference(ref);
+    const manifest = await this.readManifest(shareDir, ref);
+
+    const files: Record<string, string> = {};
+    try {
+      for (const filename of await this.listBundleFiles(shareDir)) {
+        files[filename] = await readFile(join(shareDir, filename), 'utf-8');
+      }
+    } catch (error) {
+      throw this.toLocalShareError(error, 'read share', shareDir);
+    }
+
+    return { id, url, files, ...manifest };
+  }
+
+  async fetchFile(ref: string, filename: string): Promise<string | null> {
+    const { shareDir } = this.resolveReference(ref);
+    await this.readManifest(shareDir, ref);
+
+    try {
+      if (!(await this.listBundleFiles(shareDir)).includes(filename)) {
+        return null;
+      }
+      return await readFile(join(shareDir, filename), 'utf-8');
+    } catch (error) {
+      throw this.toLocalShareError(error, 'read share', shareDir);
+    }
+  }
+
+  async update(ref: string, files: Record<string, string>, description?: string): Promise<StoredShare> {
+    const { shareDir } = this.resolveReference(ref);
+    const manifest = await this.readManifest(shareDir, ref);
+
+    try {
+      await this.writeBundleFiles(shareDir, files);
+      for (const filename of await this.listBundleFiles(shareDir)) {
+        if (!(filename in files)) {
+          await rm(join(shareDir, filename), { force: true });
+        }
+      }
+      await this.writeManifest(shareDir, {
+        ...manifest,
+        description: description ?? manifest.description,
+        updatedAt: new Date().toISOString(),
+      });
+    } catch (error) {
+      throw this.toLocalShareError(error, 'update share', shareDir);
+    }
+
+    return this.fetch(ref);
+  }
+
+  async delete(ref: string): Promise<void> {
+    const { shareDir } = this.resolveReference(ref);
+    // Refuse to delete directories that are not shares (e.g. a mistyped file:// path)
+    await this.readManifest(shareDir, ref);
+
+    try {
+      await rm(shareDir, { recursive: true, force: true });
+    } catch (error) {
+      throw this.toLocalShareError(error, 'delete share', shareDir);
+    }
+  }
+
+  async list(): Promise<ShareSummary[]> {
+    const root = this.requireRootDir();
+
+    let entries;
+    try {
+      entries = await readdir(root, { withFileTypes: true });
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') {
+        return [];
+      }
+      throw this.toLocalShareError(error, 'list shares in', root);
+    }
+
+    const summaries: ShareSummary[] = [];
+    for (const entry of entries) {
+      if (!entry.isDirectory()) {
+        continue;
+      }
+      const shareDir = join(root, entry.name);
+      try {
+        const manifest = JSON.parse(
+          await readFile(join(shareDir, MANIFEST_FILENAME), 'utf-8')
+        ) as ShareManifest;
+        summaries.push({
+          id: entry.name,
+          url: `share://${entry.name}`,
+          description: manifest.description,
+          filenames: await this.listBundleFiles(shareDir),
+          createdAt: manifest.createdAt,
+          updatedAt: manifest.updatedAt,
+        });
+      } catch {
+        // Skip incomplete shares and unrelated directories
+      }
+    }
+    return summaries;
+  }
+
+  /**
+   * Resolve a share:// or file:// reference (or a bare share ID) to its directory
+   */
+  private resolveReference(ref: string): { id: string; url: string; shareDir: string } {
+    const trimmed = ref.trim();
+
+    if (/^file:\/\//i.test(trimmed)) {
+      let shareDir: string;
+      try {
+        shareDir = fileURLToPath(trimmed);
+      } catch {
+        throw new LocalShareError(`Invalid file:// share URL: ${ref}`);
+      }
+      shareDir = resolve(shareDir);
+      const id = shareDir.split(/[\\/]/).pop() || shareDir;
+      return { id, url: pathToFileURL(shareDir).href, shareDir };
+    }
+
+    const id = trimmed.replace(/^share:\/\//i, '').replace(/\/+$/, '');
+    if (!/^[\w.-]+$/.test(id) || id === '.' || id === '..') {
+      throw new LocalShareError(`Invalid share ID: ${ref}`);
+    }
+    return { id, url: `share://${id}`, shareDir: join(this.requireRootDir(), id) };
+  }
+
+  private requireRootDir(): string {
+    if (!this.rootDir) {
+      throw new LocalShareError(
+        'SESSION_SHARE_DIR environment variable is required for the local share backend. ' +
+        'Set it to a directory every collaborator can reach (e.g. an NFS mount or synced folder).'
+      );
+    }
+    return this.rootDir;
+  }
+
+  private async readManifest(shareDir: string, ref: string): Promise<ShareManifest> {
+    try {
+      return JSON.parse(await readFile(join(shareDir, MANIFEST_FILENAME), 'utf-8')) as ShareManifest;
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') {
+        throw new LocalShareError(`Share not found: ${ref} (looked in ${shareDir})`, 'ENOENT');
+      }
+      throw this.toLocalShareError(error, 'read share', shareDir);
+    }
+  }
+
+  private async listBundleFiles(shareDir: string): Promise<string[]> {
+    const entries = await readdir(shareDir, { withFileTypes: true });
+    return entries
+      .filter((entry) => entry.isFile() && entry.name !== MANIFEST_FILENAME && !entry.name.endsWith('.tmp'))
+      .map((entry) => entry.name)
+      .sort();
+  }
+
+  /**
+   * Write bundle files via temp file + rename so readers never see partial content
+   */
+  private async writeBundleFiles(shareDir: string, files: Record<string, string>): Promise<void> {
+    for (const [filename, content] of Object.entries(files)) {
+      if (!/^[\w.-]+$/.test(filename) || filename === MANIFEST_FILENAME || filename.startsWith('.')) {
+        throw new LocalShareError(`Invalid share filename: ${filename}`);
+      }
+      const target = join(shareDir, filename);
+      await writeFile(`${target}.tmp`, content, 'utf-8');
+      await rename(`${target}.tmp`, target);
+    }
+  }
+
+  private async writeManifest(shareDir: string, manifest: ShareManifest): Promise<void> {
+    const target = join(shareDir, MANIFEST_FILENAME);
+    await writeFile(`${target}.tmp`, JSON.stringify(manifest, null, 2), 'utf-8');
+    await rename(`${target}.tmp`, target);
+  }
+
+  /**
+   * Convert filesystem errors to LocalShareError with a readable message
+   */
+  private toLocalShareError(error: any, action: string, location: string): Error {
+    if (error instanceof LocalShareError) {
+      return error;
+    }
+    const code: string | undefined = error?.code;
+    if (code === 'EACCES' || code === 'EPERM') {
+      return new LocalShareError(`Permission denied: cannot ${action} ${location}`, code);
+    }
+    if (code === 'ENOSPC') {
+      return new LocalShareError(`No space left on device: cannot ${action} ${location}`, code);
+    }
+    return new LocalShareError(
+      `Failed to ${action} ${location}: ${error?.message || String(error)}`,
+      code
+    );
+  }
+}
@@ -0,0 +1,122 @@
+/**
+ * Share backend registry
+ *
+ * Maps backend names to factories so services never construct a storage
+ * client directly:
+ * - Uploads use the configured backend (SESSION_SHARE_BACKEND, default 'gist')
+ * - Imports pick the backend whose URL matcher recognizes the pasted reference,
+ *   falling back to the configured backend
+ *
+ * Additional backends register themselves with registerBackend().
+ */
+
+import { GistClient, isGistReference } from '../gist/client.js';
+import { LocalShareBackend, isLocalShareReference } from './local.js';
+import { S3ShareBackend, isS3Reference } from './s3.js';
+import { GitLabSnippetBackend, isGitLabSnippetReference } from './gitlab.js';
+import type { ShareBackend } from './types.js';
+
+/**
+ * Name of the backend used when SESSION_SHARE_BACKEND is not set
+ */
+export const DEFAULT_BACKEND = 'gist';
+
+/**
+ * A registered backend
+ */
+export interface BackendRegistration {
+  /** Unique backend name (used in SESSION_SHARE_BACKEND) */
+  name: string;
+  /** Create a configured backend instance (may throw if credentials or config are missing) */
+  create: () => ShareBackend;
+  /** Whether this backend recognizes a share URL or identifier */
+  matches?: (ref: string) => boolean;
+}
+
+/**
+ * Error thrown when a backend name is not registered
+ */
+export class UnknownBackendError extends Error {
+  constructor(public readonly backendName: string) {
+    super(
+      `Unknown share backend "${backendName}". Available backends: ${listBackends().join(', ')}`
+    );
+    this.name = 'UnknownBackendError';
+  }
+}
+
+const registry = new Map<string, BackendRegistration>();
+
+/**
+ * Register (or replace) a backend
+ */
+export function registerBackend(registration: BackendRegistration): void {
+  registry.set(registration.name, registration);
+}
+
+/**
+ * Names of all registered backends, in registration order
+ */
+export function listBackends(): string[] {
+  return [...registry.keys()];
+}
+
+/**
+ * Get the configured backend for new shares
+ *
+ * @param name - Backend name (defaults to SESSION_SHARE_BACKEND, then 'gist')
+ * @returns A new backend instance
+ * @throws {UnknownBackendError} If no backend is registered under that name
+ *
+ * @example
+ * const backend = getShareBackend();
+ * const share = await backend.create('My session', { 'session.jsonl': jsonl });
+ */
+export function getShareBackend(
+  name: string = process.env.SESSION_SHARE_BACKEND || DEFAULT_BACKEND
+): ShareBackend {
+  const registration = registry.get(name);
+  if (!registration) {
+    throw new UnknownBackendError(name);
+  }
+  return registration.create();
+}
+
+/**
+ * Get the backend that can read a share URL or identifier
+ *
+ * @param ref - Share URL or bare identifier as pasted by the user
+ * @returns The first backend whose matcher accepts `ref`, else the configured backend
+ */
+export function resolveShareBackend(ref: string): ShareBackend {
+  for (const registration of registry.values()) {
+    if (registration.matches?.(ref)) {
+      return registration.create();
+    }
+  }
+  return getShareBackend();
+}
+
+registerBackend({
+  name: 'gist',
+  create: () => new GistClient(),
+  matches: isGistReference,
+});
+
+registerBackend({
+  name: 'local',
+  create: () => new LocalShareBackend(),
+  matches: isLocalShareReference,
+});
+
+registerBackend({
+  name: 's3',
+  create: () => new S3ShareBackend(),
+  matches: isS3Reference,
+});
+
+registerBackend({
+  name: 'gitlab',
+  create: () => new GitLabSnippetBackend(),
+  matches: isGitLabSnippetReference,
+});
@@ -0,0 +1,429 @@
+/**
+ * S3-compatible object storage share backend
+ *
+ * Stores each share as a single JSON bundle object so one presigned URL is
+ * enough to import it without credentials:
+ *   {bucket}/{prefix}{shareId}.json  ->  { description, files, createdAt, updatedAt }
+ *
+ * Share links are presigned GET URLs that expire after SESSION_SHARE_S3_URL_EXPIRY
+ * seconds. Owners with credentials can also use `s3://{bucket}/{key}` or the bare
+ * share ID, which never expire.
+ *
+ * Configuration (environment variables):
+ * - SESSION_SHARE_S3_BUCKET (required)
+ * - SESSION_SHARE_S3_ENDPOINT (default: AWS endpoint for the region; set for MinIO etc.)
+ * - SESSION_SHARE_S3_REGION (default: AWS_REGION, then us-east-1)
+ * - SESSION_SHARE_S3_PREFIX (default: claude-sessions/)
+ * - SESSION_SHARE_S3_URL_EXPIRY (seconds, default and maximum: 7 days)
+ * - AWS_ACCESS_KEY_ID, AWS_SECRET_ACCESS_KEY, AWS_SESSION_TOKEN
+ *
+ * Requests use path-style addressing ({endpoint}/{bucket}/{key}), which every
+ * S3-compatible server supports.
+ */
+
+import { randomUUID } from 'crypto';
+import {
+  signRequest,
+  presignUrl,
+  MAX_PRESIGN_EXPIRY_SECONDS,
+  type AwsCredentials,
+} from './sigv4.js';
+import type { ShareBackend, StoredShare, ShareSummary } from './types.js';
+
+/**
+ * Default key prefix for share objects
+ */
+export const DEFAULT_S3_PREFIX = 'claude-sessions/';
+
+/**
+ * S3 backend configuration
+ */
+export interface S3Config {
+  bucket: string;
+  /** Endpoint origin, e.g. https://s3.us-east-1.amazonaws.com or http://localhost:9000 */
+  endpoint: string;
+  region: string;
+  /** Key prefix for share objects (normalized to end with '/' unless empty) */
+  prefix: string;
+  /** Presigned share link lifetime in seconds */
+  urlExpirySeconds: number;
+  credentials: AwsCredentials;
+}
+
+/**
+ * Bundle object stored for each share
+ */
+interface ShareObject {
+  description: string;
+  files: Record<string, string>;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Error thrown when S3 operations fail or configuration is missing
+ */
+export class S3ShareError extends Error {
+  constructor(
+    message: string,
+    public readonly statusCode?: number
+  ) {
+    super(message);
+    this.name = 'S3ShareError';
+  }
+}
+
+/**
+ * Check whether a share reference is an s3:// URL or a presigned S3 URL
+ *
+ * @example
+ * isS3Reference('s3://bucket/claude-sessions/abc.json') // true
+ * isS3Reference('https://minio.internal/bucket/abc.json?X-Amz-Signature=...') // true
+ * isS3Reference('https://gist.github.com/user/abc123') // false
+ */
+export function isS3Reference(ref: string): boolean {
+  const trimmed = ref.trim();
+  return /^s3:\/\//i.test(trimmed) || /^https?:\/\/[^?]+\?(?:.*&)?X-Amz-Signature=/i.test(trimmed);
+}
+
+/**
+ * Read S3 backend configuration from environment variables
+ *
+ * @throws {S3ShareError} If required variables are missing or invalid
+ */
+export function loadS3Config(env: NodeJS.ProcessEnv = process.env): S3Config {
+  const missing = ['SESSION_SHARE_S3_BUCKET', 'AWS_ACCESS_KEY_ID', 'AWS_SECRET_ACCESS_KEY'].filter(
+    (name) => !env[name]
+  );
+  if (missing.length > 0) {
+    throw new S3ShareError(
+      `S3 share backend is not configured. Missing environment variables: ${missing.join(', ')}`
+    );
+  }
+
+  const region = env.SESSION_SHARE_S3_REGION || env.AWS_REGION || 'us-east-1';
+  const endpoint = (env.SESSION_SHARE_S3_ENDPOINT || `https://s3.${region}.amazonaws.com`).replace(/\/+$/, '');
+  if (!/^https?:\/\/[^/]+$/i.test(endpoint)) {
+    throw new S3ShareError(
+      `SESSION_SHARE_S3_ENDPOINT must be an http(s) origin without a path, got "${endpoint}"`
+    );
+  }
+
+  const trimmedPrefix = (env.SESSION_SHARE_S3_PREFIX ?? DEFAULT_S3_PREFIX).replace(/^\/+|\/+$/g, '');
+
+  const urlExpirySeconds = env.SESSION_SHARE_S3_URL_EXPIRY
+    ? Number(env.SESSION_SHARE_S3_URL_EXPIRY)
+    : MAX_PRESIGN_EXPIRY_SECONDS;
+  if (
+    !Number.isInteger(urlExpirySeconds) ||
+    urlExpirySeconds < 1 ||
+    urlExpirySeconds > MAX_PRESIGN_EXPIRY_SECONDS
+  ) {
+    throw new S3ShareError(
+      `SESSION_SHARE_S3_URL_EXPIRY must be a whole number of seconds between 1 and ${MAX_PRESIGN_EXPIRY_SECONDS}`
+    );
+  }
+
+  return {
+    bucket: env.SESSION_SHARE_S3_BUCKET!,
+    endpoint,
+    region,
+    prefix: trimmedPrefix ? `${trimmedPrefix}/` : '',
+    urlExpirySeconds,
+    credentials: {
+      accessKeyId: env.AWS_ACCESS_KEY_ID!,
+      secretAccessKey: env.AWS_SECRET_ACCESS_KEY!,
+      sessionToken: env.AWS_SESSION_TOKEN || undefined,
+    },
+  };
+}
+
+/**
+ * Share backend storing bundles in an S3-compatible bucket
+ */
+export class S3ShareBackend implements ShareBackend {
+  readonly name = 's3';
+  private readonly config?: S3Config;
+  private readonly configError?: S3ShareError;
+
+  /**
+   * @param config - Backend configuration (defaults to loadS3Config()). Presigned
+   *   share links can be fetched without any configuration.
+   */
+  constructor(config?: S3Config) {
+    if (config) {
+      this.config = config;
+      return;
+    }
+    try {
+      this.config = loadS3Config();
+    } catch (error) {
+      this.configError = error as S3ShareError;
+    }
+  }
+
+  async create(description: string, files: Record<string, string>): Promise<StoredShare> {
+    const config = this.requireConfig();
+    const id = randomUUID();
+    const key = `${config.prefix}${id}.json`;
+    const now = new Date().toISOString();
+
+    await this.putObject(key, { description, files, createdAt: now, updatedAt: now });
+
+    return {
+      id,
+      url: this.presignGet(key),
+      description,
+      files: { ...files },
+      createdAt: now,
+      updatedAt: now,
+    };
+  }
+
+  async fetch(ref: string): Promise<StoredShare> {
+    const trimmed = ref.trim();
+
+    // Presigned links carry their own authorization
+    if (/^https?:\/\//i.test(trimmed)) {
+      const url = new URL(trimmed);
+      const response = await this.send(() => fetch(url), 'fetch share');
+      await this.ensureOk(response, 'fetch share', ref);
+      const object = await this.parseShareObject(response, ref);
+      return { id: this.idFromKey(url.pathname), url: trimmed, ...object };
+    }
+
+    const key = this.resolveKey(trimmed);
+    const object = await this.getObject(key, ref);
+    return { id: this.idFromKey(key), url: this.presignGet(key), ...object };
+  }
+
+  async update(ref: string, files: Record<string, string>, description?: string): Promise<StoredShare> {
+    const key = this.resolveKey(ref.trim());
+    const existing = await this.getObject(key, ref);
+
+    const updated: ShareObject = {
+      description: description ?? existing.description,
+      files: { ...files },
+      createdAt: existing.createdAt,
+      updatedAt: new Date().toISOString(),
+    };
+    await this.putObject(key, updated);
+
+    return { id: this.idFromKey(key), url: this.presignGet(key), ...updated };
+  }
+
+  async delete(ref: string): Promise<void> {
+    const key = this.resolveKey(ref.trim());
+    // S3 DELETE succeeds for missing keys; check first so callers get a clear error
+    await this.getObject(key, ref);
+
+    const response = await this.signedRequest('DELETE', this.objectUrl(key), 'delete share');
+    await this.ensureOk(response, 'delete share', ref);
+  }
+
+  async list(): Promise<ShareSummary[]> {
+    const config = this.requireConfig();
+    const keys: string[] = [];
+    let continuationToken: string | undefined;
+
+    do {
+      const url = new URL(`${config.endpoint}/${config.bucket}`);
+      url.searchParams.set('list-type', '2');
+      url.searchParams.set('prefix', config.prefix);
+      if (continuationToken) {
+        url.searchParams.set('continuation-token', continuationToken);
+      }
+
+      const response = await this.signedRequest('GET', url, 'list shares');
+      await this.ensureOk(response, 'list shares', config.bucket);
+      const xml = await response.text();
+
+      keys.push(...xmlValues(xml, 'Key').filter((key) => key.endsWith('.json')));
+      continuationToken = xmlValues(xml, 'IsTruncated')[0] === 'true'
+        ? xmlValues(xml, 'NextContinuationToken')[0]
+        : undefined;
+    } while (continuationToken);
+
+    const summaries: ShareSummary[] = [];
+    for (const key of keys) {
+      try {
+        const object = await this.getObject(key, key);
+        summaries.push({
+          id: this.idFromKey(key),
+          url: this.presignGet(key),
+          description: object.description,
+          filenames: Object.keys(object.files),
+          createdAt: object.createdAt,
+          updatedAt: object.updatedAt,
+          // The whole bundle was downloaded; spare callers a second GET for the metadata
+          ...(object.files['metadata.json'] !== undefined && { metadata: object.files['metadata.json'] }),
+        });
+      } catch {
+        // Skip objects that are not share bundles
+      }
+    }
+    return summaries;
+  }
+
+  /**
+   * Resolve an s3:// URL or bare share ID to an object key in the configured bucket
+   */
+  private resolveKey(ref: string): string {
+    const config = this.requireConfig();
+
+    if (/^https?:\/\//i.test(ref)) {
+      const url = new URL(ref);
+      const prefix = `/${config.bucket}/`;
+      if (!url.pathname.startsWith(prefix)) {
+        throw new S3ShareError(`Share URL does not point into bucket "${config.bucket}": ${ref}`);
+      }
+      return decodeURIComponent(url.pathname.slice(prefix.length));
+    }
+
+    const s3Match = ref.match(/^s3:\/\/([^/]+)\/(.+)$/i);
+    if (s3Match) {
+      if (s3Match[1] !== config.bucket) {
+        throw new S3ShareError(
+          `Share is in bucket "${s3Match[1]}" but SESSION_SHARE_S3_BUCKET is "${config.bucket}"`
+        );
+      }
+      return s3Match[2];
+    }
+
+    if (!/^[\w.-]+$/.test(ref)) {
+      throw new S3ShareError(`Invalid share ID: ${ref}`);
+    }
+    return `${config.prefix}${ref.replace(/\.json$/, '')}.json`;
+  }
+
+  private idFromKey(keyOrPath: string): string {
+    const name = decodeURIComponent(keyOrPath.split('/').pop() || keyOrPath);
+    return name.replace(/\.json$/, '');
+  }
+
+  private objectUrl(key: string): URL {
+    const config = this.requireConfig();
+    return new URL(`${config.endpoint}/${config.bucket}/${key}`);
+  }
+
+  private presignGet(key: string): string {
+    const config = this.requireConfig();
+    return presignUrl(
+      { method: 'GET', url: this.objectUrl(key), region: config.region, credentials: config.credentials },
+      config.urlExpirySeconds
+    );
+  }
+
+  private async getObject(key: string, ref: string): Promise<ShareObject> {
+    const response = await this.signedRequest('GET', this.objectUrl(key), 'fetch share');
+    await this.ensureOk(response, 'fetch share', ref);
+    return this.parseShareObject(response, ref);
+  }
+
+  private async putObject(key: string, object: ShareObject): Promise<void> {
+    const body = JSON.stringify(object);
+    const response = await this.signedRequest('PUT', this.objectUrl(key), 'upload share', body, {
+      'content-type': 'application/json',
+    });
+    await this.ensureOk(response, 'upload share', key);
+  }
+
+  private async signedRequest(
+    method: string,
+    url: URL,
+    action: string,
+    body?: string,
+    headers: Record<string, string> = {}
+  ): Promise<Response> {
+    const config = this.requireConfig();
+    const signedHeaders = signRequest(
+      { method, url, region: config.region, credentials: config.credentials },
+      headers,
+      body ?? ''
+    );
+    return this.send(() => fetch(url, { method, headers: signedHeaders, body }), action);
+  }
+
+  private async send(request: () => Promise<Response>, action: string): Promise<Response> {
+    try {
+      return await request();
+    } catch (error: any) {
+      throw new S3ShareError(`Failed to ${action}: ${error?.message || String(error)}`);
+    }
+  }
+
+  private async parseShareObject(response: Response, ref: string): Promise<ShareObject> {
+    try {
+      const object = JSON.parse(await response.text()) as ShareObject;
+      if (!object || typeof object.files !== 'object' || object.files === null) {
+        throw new Error('missing files');
+      }
+      return {
+        description: object.description ?? '',
+        files: object.files,
+        createdAt: object.createdAt ?? '',
+        updatedAt: object.updatedAt ?? object.createdAt ?? '',
+      };
+    } catch {
+      throw new S3ShareError(`Object is not a session share bundle: ${ref}`);
+    }
+  }
+
+  /**
+   * Throw S3ShareError with a readable message for non-2xx responses
+   */
+  private async ensureOk(response: Response, action: string, ref: string): Promise<void> {
+    if (response.ok) {
+      return;
+    }
+
+    const body = await response.text().catch(() => '');
+    const code = xmlValues(body, 'Code')[0];
+    const message = xmlValues(body, 'Message')[0];
+
+    if (response.status === 403 && /expired/i.test(`${code} ${message}`)) {
+      throw new S3ShareError(
+        `Share link has expired: ${ref}. Ask the owner for a new link.`,
+        403
+      );
+    }
+    if (response.status === 404 || code === 'NoSuchKey') {
+      throw new S3ShareError(`Share not found: ${ref}`, 404);
+    }
+    if (code === 'NoSuchBucket') {
+      throw new S3ShareError(`Bucket not found: ${this.config?.bucket ?? ref}`, response.status);
+    }
+    if (response.status === 403) {
+      throw new S3ShareError(
+        `Access denied to share ${ref}. Check AWS_ACCESS_KEY_ID/AWS_SECRET_ACCESS_KEY and bucket permissions.`,
+        403
+      );
+    }
+    throw new S3ShareError(
+      `Failed to ${action}: ${message || code || response.statusText || 'Unknown error'}`,
+      response.status
+    );
+  }
+
+  private requireConfig(): S3Config {
+    if (!this.config) {
+      throw this.configError ?? new S3ShareError('S3 share backend is not configured');
+    }
+    return this.config;
+  }
+}
+
+/**
+ * Extract text values of an element from an S3 XML response
+ */
+function xmlValues(xml: string, element: string): string[] {
+  const pattern = new RegExp(`<${element}>([\\s\\S]*?)</${element}>`, 'g');
+  return [...xml.matchAll(pattern)].map((match) =>
+    match[1]
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&apos;/g, "'")
+      .replace(/&amp;/g, '&')
+  );
+}
@@ -0,0 +1,211 @@
+/**
+ * AWS Signature Version 4 signing for S3-compatible object storage
+ *
+ * Minimal implementation covering what the S3 share backend needs, so the
+ * package does not depend on the AWS SDK:
+ * - Header-signed requests (PUT, GET, DELETE, ListObjectsV2)
+ * - Presigned query-string URLs with expiry
+ *
+ * Works with AWS S3 and S3-compatible servers (MinIO, Ceph, R2, ...).
+ * See https://docs.aws.amazon.com/AmazonS3/latest/API/sig-v4-authenticating-requests.html
+ */
+
+import { createHash, createHmac } from 'crypto';
+
+/**
+ * Access credentials for signing
+ */
+export interface AwsCredentials {
+  accessKeyId: string;
+  secretAccessKey: string;
+  /** Session token for temporary (STS) credentials */
+  sessionToken?: string;
+}
+
+/**
+ * Parameters common to header signing and presigning
+ */
+export interface SigningParams {
+  method: string;
+  url: URL;
+  region: string;
+  credentials: AwsCredentials;
+  /** Signing time (defaults to now) */
+  date?: Date;
+}
+
+/**
+ * Maximum lifetime of a SigV4 presigned URL (7 days)
+ */
+export const MAX_PRESIGN_EXPIRY_SECONDS = 604800;
+
+const ALGORITHM = 'AWS4-HMAC-SHA256';
+const SERVICE = 's3';
+const UNSIGNED_PAYLOAD = 'UNSIGNED-PAYLOAD';
+
+/**
+ * Sign a request with an Authorization header
+ *
+ * @param params - Request to sign
+ * @param headers - Extra headers to send (all are signed)
+ * @param body - Request body (hashed into x-amz-content-sha256)
+ * @returns Headers to send, including Authorization, x-amz-date and x-amz-content-sha256
+ */
+export function signRequest(
+  params: SigningParams,
+  headers: Record<string, string> = {},
+  body = ''
+): Record<string, string> {
+  const { amzDate, scope } = signingScope(params);
+
+  const signedHeaders: Record<string, string> = {
+    ...headers,
+    host: params.url.host,
+    'x-amz-content-sha256': sha256Hex(body),
+    'x-amz-date': amzDate,
+  };
+  if (params.credentials.sessionToken) {
+    signedHeaders['x-amz-security-token'] = params.credentials.sessionToken;
+  }
+
+  const query = [...params.url.searchParams.entries()];
+  const { canonicalHeaders, signedHeaderNames } = canonicalizeHeaders(signedHeaders);
+  const canonicalRequest = [
+    params.method.toUpperCase(),
+    canonicalUri(params.url),
+    canonicalQuery(query),
+    canonicalHeaders,
+    signedHeaderNames,
+    signedHeaders['x-amz-content-sha256'],
+  ].join('\n');
+
+  const signature = sign(params, amzDate, scope, canonicalRequest);
+
+  const { host: _host, ...result } = signedHeaders;
+  return {
+    ...result,
+    authorization:
+      `${ALGORITHM} Credential=${params.credentials.accessKeyId}/${scope}, ` +
+      `SignedHeaders=${signedHeaderNames}, Signature=${signature}`,
+  };
+}
+
+/**
+ * Create a presigned URL that grants access without credentials until it expires
+ *
+ * @param params - Request to presign (typically GET of one object)
+ * @param expiresIn - Lifetime in seconds (1 to MAX_PRESIGN_EXPIRY_SECONDS)
+ * @returns The presigned URL
+ *
+ * @example
+ * presignUrl({ method: 'GET', url: new URL('https://s3.example.com/bucket/key'), region, credentials }, 3600)
+ */
+export function presignUrl(params: SigningParams, expiresIn: number): string {
+  const { amzDate, scope } = signingScope(params);
+
+  const query: Array<[string, string]> = [
+    ...params.url.searchParams.entries(),
+    ['X-Amz-Algorithm', ALGORITHM],
+    ['X-Amz-Credential', `${params.credentials.accessKeyId}/${scope}`],
+    ['X-Amz-Date', amzDate],
+    ['X-Amz-Expires', String(expiresIn)],
+    ['X-Amz-SignedHeaders', 'host'],
+  ];
+  if (params.credentials.sessionToken) {
+    query.push(['X-Amz-Security-Token', params.credentials.sessionToken]);
+  }
+
+  const canonicalRequest = [
+    params.method.toUpperCase(),
+    canonicalUri(params.url),
+    canonicalQuery(query),
+    `host:${params.url.host}\n`,
+    'host',
+    UNSIGNED_PAYLOAD,
+  ].join('\n');
+
+  const signature = sign(params, amzDate, scope, canonicalRequest);
+  query.push(['X-Amz-Signature', signature]);
+
+  return `${params.url.origin}${canonicalUri(params.url)}?${canonicalQuery(query)}`;
+}
+
+/**
+ * Compute the timestamp and credential scope for a signing request
+ */
+function signingScope(params: SigningParams): { amzDate: string; scope: string } {
+  // 2013-05-24T00:00:00.000Z -> 20130524T000000Z
+  const amzDate = (params.date ?? new Date()).toISOString().replace(/[:-]|\.\d{3}/g, '');
+  const scope = `${amzDate.slice(0, 8)}/${params.region}/${SERVICE}/aws4_request`;
+  return { amzDate, scope };
+}
+
+/**
+ * Derive the signing key and sign the string-to-sign for a canonical request
+ */
+function sign(params: SigningParams, amzDate: string, scope: string, canonicalRequest: string): string {
+  const stringToSign = [ALGORITHM, amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+
+  const dateKey = hmac(`AWS4${params.credentials.secretAccessKey}`, amzDate.slice(0, 8));
+  const regionKey = hmac(dateKey, params.region);
+  const serviceKey = hmac(regionKey, SERVICE);
+  const signingKey = hmac(serviceKey, 'aws4_request');
+
+  return createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+}
+
+/**
+ * Canonical URI: each path segment URI-encoded exactly once
+ */
+function canonicalUri(url: URL): string {
+  return url.pathname
+    .split('/')
+    .map((segment) => uriEncode(decodeURIComponent(segment)))
+    .join('/');
+}
+
+/**
+ * Canonical query string: encoded pairs sorted by key, then value
+ */
+function canonicalQuery(pairs: Array<[string, string]>): string {
+  return pairs
+    .map(([key, value]) => [uriEncode(key), uriEncode(value)])
+    .sort(([a, av], [b, bv]) => (a < b ? -1 : a > b ? 1 : av < bv ? -1 : av > bv ? 1 : 0))
+    .map(([key, value]) => `${key}=${value}`)
+    .join('&');
+}
+
+/**
+ * Canonical headers block and signed header list
+ */
+function canonicalizeHeaders(headers: Record<string, string>): {
+  canonicalHeaders: string;
+  signedHeaderNames: string;
+} {
+  const entries = Object.entries(headers)
+    .map(([name, value]) => [name.toLowerCase(), value.trim().replace(/\s+/g, ' ')] as const)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+
+  return {
+    canonicalHeaders: entries.map(([name, value]) => `${name}:${value}\n`).join(''),
+    signedHeaderNames: entries.map(([name]) => name).join(';'),
+  };
+}
+
+/**
+ * RFC 3986 encoding as required by SigV4 (encodeURIComponent leaves !'()* alone)
+ */
+function uriEncode(value: string): string {
+  return encodeURIComponent(value).replace(
+    /[!'()*]/g,
+    (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+}
+
+function sha256Hex(value: string): string {
+  return createHash('sha256').update(value, 'utf8').digest('hex');
+}
+
+function hmac(key: string | Buffer, value: string): Buffer {
+  return createHmac('sha256', key).update(value, 'utf8').digest();
+}
@@ -0,0 +1,89 @@
+/**
+ * TypeScript types for pluggable share storage backends
+ *
+ * A share is a small bundle of named text files (session.jsonl, metadata.json)
+ * plus a description. Backends store bundles and hand back a URL or identifier
+ * that can later be passed to `fetch`, `update` or `delete`.
+ */
+
+/**
+ * A stored share bundle
+ */
+export interface StoredShare {
+  /** Backend-specific share identifier */
+  id: string;
+  /** Shareable URL or identifier to give to others */
+  url: string;
+  /** Human-readable description */
+  description: string;
+  /** File contents keyed by filename */
+  files: Record<string, string>;
+  /** ISO timestamp of creation */
+  createdAt: string;
+  /** ISO timestamp of last update */
+  updatedAt: string;
+  /** Revision pinned when fetching (e.g. gist commit SHA); absent for the latest version */
+  revision?: string;
+}
+
+/**
+ * Share listing entry (file contents are not loaded)
+ */
+export interface ShareSummary {
+  id: string;
+  url: string;
+  description: string;
+  /** Filenames in the bundle */
+  filenames: string[];
+  createdAt: string;
+  updatedAt: string;
+  /** Content of metadata.json, when listing downloads whole bundles anyway (S3) */
+  metadata?: string;
+}
+
+/**
+ * Storage backend for shared sessions
+ *
+ * Implementations: GistClient (GitHub Gist), LocalShareBackend (shared directory),
+ * S3ShareBackend (S3-compatible bucket), GitLabSnippetBackend (GitLab snippets).
+ * Every method accepting `ref` takes either the URL returned by `create` or a bare identifier.
+ */
+export interface ShareBackend {
+  /** Registry name of the backend (e.g. 'gist') */
+  readonly name: string;
+
+  /** Store a new bundle */
+  create(description: string, files: Record<string, string>): Promise<StoredShare>;
+
+  /** Load a bundle with all file contents */
+  fetch(ref: string): Promise<StoredShare>;
+
+  /**
+   * Load a past revision of a bundle
+   *
+   * Only backends that keep a version history implement this (GistClient).
+   */
+  fetchRevision?(ref: string, revision: string): Promise<StoredShare>;
+
+  /**
+   * Load one file of a bundle without downloading the others
+   *
+   * Only backends that can read files individually implement this (GistClient,
+   * LocalShareBackend, GitLabSnippetBackend). Resolves to null if the bundle
+   * has no such file.
+   */
+  fetchFile?(ref: string, filename: string): Promise<string | null>;
+
+  /**
+   * Replace the files (and optionally description) of an existing bundle
+   *
+   * The bundle afterwards holds exactly `files`: files missing from it are removed.
+   */
+  update(ref: string, files: Record<string, string>, description?: string): Promise<StoredShare>;
+
+  /** Delete a bundle */
+  delete(ref: string): Promise<void>;
+
+  /** List bundles visible to the current credentials */
+  list(): Promise<ShareSummary[]>;
+}
@@ -0,0 +1,499 @@
+/**
+ * End-to-end encryption for share bundles
+ *
+ * Secret gists are unlisted, not private: anyone holding the URL can read them.
+ * An encrypted share stores an envelope file instead of the plaintext
+ * bundle, so the backend only ever sees ciphertext plus a small header:
+ *
+ *   session.enc.json = {
+ *     format, version, cipher: 'aes-256-gcm',
+ *     keys: [
+ *       { type: 'passphrase', kdf: 'scrypt', salt, N, r, p, iv, wrappedKey, tag },
+ *       { type: 'x25519', keyId, ephemeralPublicKey, iv, wrappedKey, tag },
+ *     ],
+ *     iv, tag, ciphertext
+ *   }
+ *
+ * Ciphertext too large for one stored file (backends cap file sizes, see
+ * shares/chunking) moves to numbered part files next to the envelope, which
+ * then lists them under `ciphertextParts` instead of holding `ciphertext`
+ * (version 2; envelopes that fit in one file stay version 1):
+ *
+ *   session.enc.part-001.b64, session.enc.part-002.b64, ...
+ *
+ * The plaintext is the JSON-encoded bundle (session.jsonl, metadata.json, ...).
+ * Content is encrypted with a random 256-bit key that is either derived from a
+ * passphrase (scrypt) or wrapped for each recipient X25519 public key
+ * (ephemeral ECDH + HKDF-SHA256 + AES-256-GCM, in the spirit of age).
+ */
+
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  createPublicKey,
+  diffieHellman,
+  generateKeyPairSync,
+  hkdfSync,
+  randomBytes,
+  scrypt,
+  type KeyObject,
+} from 'crypto';
+
+/**
+ * Filename of the envelope inside an encrypted share
+ */
+export const ENCRYPTED_BUNDLE_FILENAME = 'session.enc.json';
+
+/**
+ * Envelope format marker
+ */
+export const ENVELOPE_FORMAT = 'claude-session-share/encrypted';
+
+/**
+ * Prefix of encoded recipient public keys
+ */
+export const PUBLIC_KEY_PREFIX = 'css-x25519:';
+
+const ENVELOPE_VERSION = 1;
+const PARTED_ENVELOPE_VERSION = 2;
+const CIPHER = 'aes-256-gcm';
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+const HKDF_INFO = 'claude-session-share/x25519/v1';
+
+/**
+ * Maximum length of the inline ciphertext and of each ciphertext part (base64 characters)
+ */
+export const CIPHERTEXT_PART_CHARS = 900 * 1024;
+
+/**
+ * scrypt cost parameters for passphrase-derived keys (~32 MiB, well under a second)
+ */
+const SCRYPT_PARAMS = { N: 32768, r: 8, p: 1 };
+const SCRYPT_MAXMEM = 64 * 1024 * 1024;
+
+/**
+ * How to encrypt a share: a passphrase, recipient public keys, or both
+ */
+export interface EncryptionOptions {
+  /** Passphrase shared out of band */
+  passphrase?: string;
+  /** Recipient public keys (css-x25519:...) */
+  recipients?: string[];
+}
+
+/**
+ * Key material available for decrypting a share
+ */
+export interface DecryptionKeys {
+  passphrase?: string;
+  /** X25519 private key of the local identity */
+  privateKey?: KeyObject;
+}
+
+/**
+ * AES-256-GCM output (base64 fields)
+ */
+interface Sealed {
+  iv: string;
+  data: string;
+  tag: string;
+}
+
+/**
+ * Content key wrapped with a passphrase-derived key
+ */
+interface PassphraseStanza {
+  type: 'passphrase';
+  kdf: 'scrypt';
+  salt: string;
+  N: number;
+  r: number;
+  p: number;
+  iv: string;
+  wrappedKey: string;
+  tag: string;
+}
+
+/**
+ * Content key wrapped for one X25519 recipient
+ */
+interface RecipientStanza {
+  type: 'x25519';
+  /** Fingerprint of the recipient public key (see publicKeyId) */
+  keyId: string;
+  ephemeralPublicKey: string;
+  iv: string;
+  wrappedKey: string;
+  tag: string;
+}
+
+type KeyStanza = PassphraseStanza | RecipientStanza;
+
+/**
+ * Encrypted share envelope (stored as session.enc.json)
+ */
+export interface EncryptedEnvelope {
+  format: typeof ENVELOPE_FORMAT;
+  version: number;
+  cipher: typeof CIPHER;
+  /** Content key, wrapped once per passphrase/recipient */
+  keys: KeyStanza[];
+  iv: string;
+  tag: string;
+  /** Base64 ciphertext (version 1) */
+  ciphertext?: string;
+  /** Files holding the base64 ciphertext, in order (version 2) */
+  ciphertextParts?: string[];
+}
+
+/**
+ * Error thrown when a share cannot be encrypted (bad options or recipient keys)
+ */
+export class EncryptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EncryptionError';
+  }
+}
+
+/**
+ * Error thrown when an encrypted share cannot be decrypted
+ *
+ * `reason` distinguishes a missing key from a wrong key and a damaged envelope.
+ */
+export class DecryptionError extends Error {
+  constructor(
+    message: string,
+    public readonly reason: 'missing-key' | 'wrong-key' | 'malformed'
+  ) {
+    super(message);
+    this.name = 'DecryptionError';
+  }
+}
+
+/**
+ * Encode an X25519 public key as css-x25519:{base64url raw key}
+ */
+export function encodePublicKey(publicKey: KeyObject): string {
+  const jwk = publicKey.export({ format: 'jwk' });
+  return `${PUBLIC_KEY_PREFIX}${jwk.x}`;
+}
+
+/**
+ * Parse an encoded recipient public key
+ *
+ * @throws {EncryptionError} If the key is not a css-x25519 public key
+ */
+export function parsePublicKey(encoded: string): KeyObject {
+  const trimmed = encoded.trim();
+  const raw = trimmed.startsWith(PUBLIC_KEY_PREFIX) ? trimmed.slice(PUBLIC_KEY_PREFIX.length) : '';
+  if (!/^[A-Za-z0-9_-]{43}$/.test(raw)) {
+    throw new EncryptionError(
+      `Invalid recipient public key "${encoded}". Expected ${PUBLIC_KEY_PREFIX} followed by a base64url X25519 key.`
+    );
+  }
+  return createPublicKey({ key: { kty: 'OKP', crv: 'X25519', x: raw }, format: 'jwk' });
+}
+
+/**
+ * Short fingerprint identifying a public key inside an envelope
+ */
+export function publicKeyId(publicKey: KeyObject): string {
+  const raw = Buffer.from(publicKey.export({ format: 'jwk' }).x!, 'base64url');
+  return createHash('sha256').update(raw).digest('hex').slice(0, 16);
+}
+
+/**
+ * Check whether a share bundle is an encrypted envelope
+ */
+export function isEncryptedBundle(files: Record<string, string>): boolean {
+  return ENCRYPTED_BUNDLE_FILENAME in files;
+}
+
+/**
+ * Encrypt a share bundle
+ *
+ * @param files - Plaintext bundle (filename -> content)
+ * @param options - Passphrase and/or recipient public keys
+ * @returns A bundle holding only the envelope file
+ * @throws {EncryptionError} If no key is given or a recipient key is invalid
+ *
+ * @example
+ * const encrypted = await encryptBundle({ 'session.jsonl': jsonl }, { passphrase: 'correct horse' });
+ */
+export async function encryptBundle(
+  files: Record<string, string>,
+  options: EncryptionOptions
+): Promise<Record<string, string>> {
+  const recipients = (options.recipients ?? []).map(parsePublicKey);
+  if (!options.passphrase && recipients.length === 0) {
+    throw new EncryptionError('Encryption requires a passphrase or at least one recipient public key');
+  }
+
+  const contentKey = randomBytes(KEY_BYTES);
+  const keys: KeyStanza[] = [];
+
+  if (options.passphrase) {
+    const salt = randomBytes(16);
+    const passphraseKey = await deriveKey(options.passphrase, salt, SCRYPT_PARAMS);
+    keys.push({
+      type: 'passphrase',
+      kdf: 'scrypt',
+      salt: salt.toString('base64'),
+      ...SCRYPT_PARAMS,
+      ...toWrapped(seal(passphraseKey, contentKey)),
+    });
+  }
+
+  for (const publicKey of recipients) {
+    keys.push(wrapForRecipient(contentKey, publicKey));
+  }
+
+  // The header is authenticated, so the version must be known before sealing
+  const plaintext = Buffer.from(JSON.stringify(files), 'utf-8');
+  const parted = base64Length(plaintext.length) > CIPHERTEXT_PART_CHARS;
+  const version = parted ? PARTED_ENVELOPE_VERSION : ENVELOPE_VERSION;
+  const header = { format: ENVELOPE_FORMAT, version, cipher: CIPHER, keys } as const;
+  const { iv, tag, data: ciphertext } = seal(contentKey, plaintext, headerAad(header));
+
+  if (!parted) {
+    const envelope: EncryptedEnvelope = { ...header, iv, tag, ciphertext };
+    return { [ENCRYPTED_BUNDLE_FILENAME]: JSON.stringify(envelope, null, 2) };
+  }
+
+  const parts: Record<string, string> = {};
+  for (let offset = 0; offset < ciphertext.length; offset += CIPHERTEXT_PART_CHARS) {
+    const partName = `session.enc.part-${String(Object.keys(parts).length + 1).padStart(3, '0')}.b64`;
+    parts[partName] = ciphertext.slice(offset, offset + CIPHERTEXT_PART_CHARS);
+  }
+  const envelope: EncryptedEnvelope = { ...header, iv, tag, ciphertextParts: Object.keys(parts) };
+  return { [ENCRYPTED_BUNDLE_FILENAME]: JSON.stringify(envelope, null, 2), ...parts };
+}
+
+/**
+ * Decrypt an encrypted share bundle
+ *
+ * @param files - Bundle containing the envelope file (and its ciphertext parts)
+ * @param keys - Passphrase and/or local private key
+ * @returns The plaintext bundle
+ * @throws {DecryptionError} If no usable key is given (missing-key), the key is wrong
+ *   (wrong-key), or the envelope is damaged (malformed)
+ */
+export async function decryptBundle(
+  files: Record<string, string>,
+  keys: DecryptionKeys
+): Promise<Record<string, string>> {
+  const envelope = parseEnvelope(files[ENCRYPTED_BUNDLE_FILENAME]);
+  const missingParts = (envelope.ciphertextParts ?? []).filter((part) => !(part in files));
+  if (missingParts.length > 0) {
+    throw new DecryptionError(`Encrypted share is incomplete: missing ${missingParts.join(', ')}`, 'malformed');
+  }
+  const passphraseStanza = envelope.keys.find((k): k is PassphraseStanza => k.type === 'passphrase');
+  const recipientStanzas = envelope.keys.filter((k): k is RecipientStanza => k.type === 'x25519');
+
+  let contentKey: Buffer | undefined;
+
+  if (keys.privateKey) {
+    const keyId = publicKeyId(createPublicKey(keys.privateKey));
+    const stanza = recipientStanzas.find((s) => s.keyId === keyId);
+    if (stanza) {
+      contentKey = unwrapForRecipient(stanza, keys.privateKey);
+    }
+  }
+
+  if (!contentKey && keys.passphrase && passphraseStanza) {
+    const passphraseKey = await deriveKey(
+      keys.passphrase,
+      Buffer.from(passphraseStanza.salt, 'base64'),
+      passphraseStanza
+    );
+    contentKey = open(passphraseKey, fromWrapped(passphraseStanza));
+    if (!contentKey) {
+      throw new DecryptionError('Wrong passphrase for encrypted share', 'wrong-key');
+    }
+  }
+
+  if (!contentKey) {
+    const needs = [
+      passphraseStanza ? 'a passphrase' : '',
+      recipientStanzas.length > 0 ? 'the private key of a recipient' : '',
+    ].filter(Boolean).join(' or ');
+
+    if (keys.privateKey || keys.passphrase) {
+      throw new DecryptionError(
+        `This share was not encrypted for the provided key. It requires ${needs}.`,
+        'wrong-key'
+      );
+    }
+    throw new DecryptionError(`This share is encrypted. Decrypting it requires ${needs}.`, 'missing-key');
+  }
+
+  const { iv, tag, ciphertext, ciphertextParts, ...header } = envelope;
+  const data = ciphertextParts ? ciphertextParts.map((part) => files[part]).join('') : ciphertext!;
+  const plaintext = open(contentKey, { iv, tag, data }, headerAad(header));
+  if (!plaintext) {
+    throw new DecryptionError('Encrypted share failed integrity check (tampered or corrupted)', 'malformed');
+  }
+
+  try {
+    return JSON.parse(plaintext.toString('utf-8')) as Record<string, string>;
+  } catch {
+    throw new DecryptionError('Decrypted share is not a valid bundle', 'malformed');
+  }
+}
+
+/**
+ * Validate and parse the envelope file
+ */
+function parseEnvelope(content: string | undefined): EncryptedEnvelope {
+  let envelope: EncryptedEnvelope;
+  try {
+    envelope = JSON.parse(content ?? '') as EncryptedEnvelope;
+  } catch {
+    throw new DecryptionError(`${ENCRYPTED_BUNDLE_FILENAME} is not valid JSON`, 'malformed');
+  }
+
+  if (envelope?.format !== ENVELOPE_FORMAT || envelope.cipher !== CIPHER || !Array.isArray(envelope.keys)) {
+    throw new DecryptionError(`${ENCRYPTED_BUNDLE_FILENAME} is not a supported encrypted share`, 'malformed');
+  }
+  if (envelope.version !== ENVELOPE_VERSION && envelope.version !== PARTED_ENVELOPE_VERSION) {
+    throw new DecryptionError(
+      `Unsupported encrypted share version ${envelope.version}. Update claude-session-share.`,
+      'malformed'
+    );
+  }
+  if (envelope.version === PARTED_ENVELOPE_VERSION
+    ? !Array.isArray(envelope.ciphertextParts) || envelope.ciphertextParts.some((part) => typeof part !== 'string')
+    : typeof envelope.ciphertext !== 'string') {
+    throw new DecryptionError(`${ENCRYPTED_BUNDLE_FILENAME} has no ciphertext`, 'malformed');
+  }
+  return envelope;
+}
+
+/**
+ * Length of the base64 encoding of a byte count
+ */
+function base64Length(bytes: number): number {
+  return Math.ceil(bytes / 3) * 4;
+}
+
+/**
+ * Wrap the content key for one recipient with an ephemeral X25519 key agreement
+ */
+function wrapForRecipient(contentKey: Buffer, recipient: KeyObject): RecipientStanza {
+  const ephemeral = generateKeyPairSync('x25519');
+  const ephemeralPublicKey = ephemeral.publicKey.export({ format: 'jwk' }).x!;
+  const wrappingKey = recipientWrappingKey(
+    diffieHellman({ privateKey: ephemeral.privateKey, publicKey: recipient }),
+    ephemeralPublicKey,
+    recipient
+  );
+
+  return {
+    type: 'x25519',
+    keyId: publicKeyId(recipient),
+    ephemeralPublicKey,
+    ...toWrapped(seal(wrappingKey, contentKey)),
+  };
+}
+
+/**
+ * Unwrap the content key with the local private key
+ *
+ * @throws {DecryptionError} If the stanza does not open with this key
+ */
+function unwrapForRecipient(stanza: RecipientStanza, privateKey: KeyObject): Buffer {
+  let wrappingKey: Buffer;
+  try {
+    const ephemeral = createPublicKey({
+      key: { kty: 'OKP', crv: 'X25519', x: stanza.ephemeralPublicKey },
+      format: 'jwk',
+    });
+    wrappingKey = recipientWrappingKey(
+      diffieHellman({ privateKey, publicKey: ephemeral }),
+      stanza.ephemeralPublicKey,
+      createPublicKey(privateKey)
+    );
+  } catch {
+    throw new DecryptionError('Encrypted share has an invalid recipient entry', 'malformed');
+  }
+
+  const contentKey = open(wrappingKey, fromWrapped(stanza));
+  if (!contentKey) {
+    throw new DecryptionError('Private key does not match the encrypted share', 'wrong-key');
+  }
+  return contentKey;
+}
+
+/**
+ * Derive a recipient wrapping key from the X25519 shared secret
+ */
+function recipientWrappingKey(sharedSecret: Buffer, ephemeralPublicKey: string, recipient: KeyObject): Buffer {
+  const salt = Buffer.concat([
+    Buffer.from(ephemeralPublicKey, 'base64url'),
+    Buffer.from(recipient.export({ format: 'jwk' }).x!, 'base64url'),
+  ]);
+  return Buffer.from(hkdfSync('sha256', sharedSecret, salt, HKDF_INFO, KEY_BYTES));
+}
+
+function deriveKey(
+  passphrase: string,
+  salt: Buffer,
+  params: { N: number; r: number; p: number }
+): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(passphrase.normalize('NFKC'), salt, KEY_BYTES, { ...params, maxmem: SCRYPT_MAXMEM }, (error, key) => {
+      if (error) {
+        reject(new DecryptionError(`Invalid key derivation parameters: ${error.message}`, 'malformed'));
+      } else {
+        resolve(key);
+      }
+    });
+  });
+}
+
+/**
+ * Additional authenticated data binding the ciphertext to its header
+ */
+function headerAad(header: Omit<EncryptedEnvelope, 'iv' | 'tag' | 'ciphertext' | 'ciphertextParts'>): Buffer {
+  return Buffer.from(JSON.stringify([header.format, header.version, header.cipher, header.keys]), 'utf-8');
+}
+
+/**
+ * AES-256-GCM encrypt
+ */
+function seal(key: Buffer, plaintext: Buffer, aad?: Buffer): Sealed {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv(CIPHER, key, iv);
+  if (aad) {
+    cipher.setAAD(aad);
+  }
+  const data = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return { iv: iv.toString('base64'), data: data.toString('base64'), tag: cipher.getAuthTag().toString('base64') };
+}
+
+/**
+ * AES-256-GCM decrypt; returns undefined if authentication fails (wrong key or tampering)
+ */
+function open(key: Buffer, sealed: Sealed, aad?: Buffer): Buffer | undefined {
+  try {
+    const decipher = createDecipheriv(CIPHER, key, Buffer.from(sealed.iv, 'base64'));
+    if (aad) {
+      decipher.setAAD(aad);
+    }
+    decipher.setAuthTag(Buffer.from(sealed.tag, 'base64'));
+    return Buffer.concat([decipher.update(Buffer.from(sealed.data, 'base64')), decipher.final()]);
+  } catch {
+    return undefined;
+  }
+}
+
+function toWrapped(sealed: Sealed): { iv: string; wrappedKey: string; tag: string } {
+  return { iv: sealed.iv, wrappedKey: sealed.data, tag: sealed.tag };
+}
+
+function fromWrapped(stanza: { iv: string; wrappedKey: string; tag: string }): Sealed {
+  return { iv: stanza.iv, data: stanza.wrappedKey, tag: stanza.tag };
+}
@@ -0,0 +1,92 @@
+/**
+ * Local X25519 identity for receiving encrypted shares
+ *
+ * The private key lives at ~/.claude-session-share/identity.pem (PKCS#8, mode 0600).
+ * Its public key, encoded as css-x25519:..., is what teammates pass as a
+ * recipient when sharing with you.
+ */
+
+import { chmod, mkdir, readFile, writeFile } from 'fs/promises';
+import { dirname, join } from 'path';
+import { homedir } from 'os';
+import { createPrivateKey, createPublicKey, generateKeyPairSync, type KeyObject } from 'crypto';
+import { encodePublicKey, DecryptionError } from './envelope.js';
+
+/**
+ * A local key pair for decrypting shares
+ */
+export interface ShareIdentity {
+  privateKey: KeyObject;
+  /** Encoded public key to give to others (css-x25519:...) */
+  publicKey: string;
+}
+
+/**
+ * Get the path of the local identity file
+ *
+ * @returns Absolute path: ~/.claude-session-share/identity.pem
+ */
+export function getIdentityPath(): string {
+  return join(homedir(), '.claude-session-share', 'identity.pem');
+}
+
+/**
+ * Load the local identity
+ *
+ * @param identityPath - Identity file (defaults to getIdentityPath())
+ * @returns The identity, or null if none has been created yet
+ * @throws {DecryptionError} If the file exists but is not an X25519 private key
+ */
+export async function loadIdentity(identityPath: string = getIdentityPath()): Promise<ShareIdentity | null> {
+  let pem: string;
+  try {
+    pem = await readFile(identityPath, 'utf-8');
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+
+  let privateKey: KeyObject;
+  try {
+    privateKey = createPrivateKey(pem);
+  } catch {
+    throw new DecryptionError(`Identity file ${identityPath} is not a valid private key`, 'malformed');
+  }
+  if (privateKey.asymmetricKeyType !== 'x25519') {
+    throw new DecryptionError(`Identity file ${identityPath} is not an X25519 private key`, 'malformed');
+  }
+
+  return { privateKey, publicKey: encodePublicKey(createPublicKey(privateKey)) };
+}
+
+/**
+ * Load the local identity, generating one on first use
+ *
+ * @param identityPath - Identity file (defaults to getIdentityPath())
+ * @returns The existing or newly created identity
+ */
+export async function loadOrCreateIdentity(identityPath: string = getIdentityPath()): Promise<ShareIdentity> {
+  const existing = await loadIdentity(identityPath);
+  if (existing) {
+    return existing;
+  }
+
+  const { privateKey } = generateKeyPairSync('x25519');
+  const pem = privateKey.export({ format: 'pem', type: 'pkcs8' }) as string;
+
+  await mkdir(dirname(identityPath), { recursive: true, mode: 0o700 });
+  try {
+    // 'wx' never overwrites an identity created concurrently
+    await writeFile(identityPath, pem, { encoding: 'utf-8', mode: 0o600, flag: 'wx' });
+    await chmod(identityPath, 0o600);
+  } catch (error: any) {
+    if (error?.code === 'EEXIST') {
+      return (await loadIdentity(identityPath))!;
+    }
+    throw error;
+  }
+
+  return { privateKey, publicKey: encodePublicKey(createPublicKey(privateKey)) };
+}
@@ -3,10 +3,167 @@
  *
  * Uses Octokit v5 with automatic rate limiting and retry handling.
  * Requires GITHUB_TOKEN environment variable for authentication.
+ * Talks to api.github.com by default; set GITHUB_API_URL or GH_HOST for
+ * GitHub Enterprise Server.
+ *
+ * Implements ShareBackend so it can be used through the backend registry.
  */
 
 import { Octokit } from 'octokit';
-import type { GistResponse } from './types.js';
+import type { GistResponse, GistSummary } from './types.js';
+import type { ShareBackend, StoredShare, ShareSummary } from '../backends/types.js';
+
+/**
+ * Default GitHub REST API endpoint
+ */
+export const DEFAULT_GITHUB_API_URL = 'https://api.github.com';
+
+/**
+ * GitHub instance the client talks to
+ */
+export interface GitHubHost {
+  /** REST API base URL (https://api.github.com or https://ghe.example.com/api/v3) */
+  apiUrl: string;
+  /** Web hostname gists belong to (github.com or ghe.example.com) */
+  hostname: string;
+  /** Web origin (https://github.com or https://ghe.example.com) */
+  webUrl: string;
+}
+
+/**
+ * Resolve the GitHub instance from the environment
+ *
+ * GITHUB_API_URL takes precedence (as in GitHub Actions), then GH_HOST (as in
+ * the gh CLI, API at https://{GH_HOST}/api/v3), then public GitHub.
+ *
+ * @example
+ * resolveGitHubHost({ GH_HOST: 'ghe.example.com' })
+ * // Returns: { apiUrl: 'https://ghe.example.com/api/v3', hostname: 'ghe.example.com', webUrl: 'https://ghe.example.com' }
+ */
+export function resolveGitHubHost(env: NodeJS.ProcessEnv = process.env): GitHubHost {
+  const apiUrl = env.GITHUB_API_URL?.trim().replace(/\/+$/, '');
+  const ghHost = env.GH_HOST?.trim().replace(/^https?:\/\//i, '').replace(/\/+$/, '').toLowerCase();
+
+  if (apiUrl) {
+    let parsed: URL;
+    try {
+      parsed = new URL(apiUrl);
+    } catch {
+      throw new GistApiError(`GITHUB_API_URL is not a valid URL: ${apiUrl}`);
+    }
+    const hostname = parsed.hostname.toLowerCase() === 'api.github.com' ? 'github.com' : parsed.host.toLowerCase();
+    return { apiUrl, hostname, webUrl: hostname === 'github.com' ? 'https://github.com' : parsed.origin };
+  }
+
+  if (ghHost && ghHost !== 'github.com') {
+    return { apiUrl: `https://${ghHost}/api/v3`, hostname: ghHost, webUrl: `https://${ghHost}` };
+  }
+
+  return { apiUrl: DEFAULT_GITHUB_API_URL, hostname: 'github.com', webUrl: 'https://github.com' };
+}
+
+/**
+ * Gist web pages that may follow the gist ID in a URL
+ */
+const GIST_SUBPAGES = new Set(['revisions', 'stargazers', 'forks', 'raw', 'edit']);
+
+/**
+ * Full commit SHA identifying a gist revision
+ */
+const GIST_REVISION_PATTERN = /^[0-9a-f]{40}$/i;
+
+/**
+ * Parse a gist URL on github.com or GitHub Enterprise Server
+ *
+ * Recognized formats:
+ * - https://gist.github.com/user/id and https://api.github.com/gists/id
+ * - https://ghe.example.com/gist/user/id and https://ghe.example.com/api/v3/gists/id
+ * - https://gist.ghe.example.com/user/id (GHES with subdomain isolation)
+ *
+ * Any of these may end in a revision SHA (https://gist.github.com/user/id/<sha>,
+ * https://api.github.com/gists/id/<sha>) pinning one revision of the gist.
+ *
+ * @returns The web hostname the gist belongs to, the gist ID and the revision if pinned,
+ *   or null if not a gist URL
+ *
+ * @example
+ * parseGistUrl('https://ghe.example.com/gist/user/abc123')
+ * // Returns: { hostname: 'ghe.example.com', gistId: 'abc123' }
+ */
+export function parseGistUrl(url: string): { hostname: string; gistId: string; revision?: string } | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim());
+  } catch {
+    return null;
+  }
+  if (!/^https?:$/.test(parsed.protocol)) {
+    return null;
+  }
+
+  const urlHost = parsed.host.toLowerCase();
+  const segments = parsed.pathname.split('/').filter(Boolean);
+
+  // API URLs: /gists/{id}[/{sha}]
+  if (urlHost === 'api.github.com' && segments[0] === 'gists' && segments[1]) {
+    return withRevision({ hostname: 'github.com', gistId: segments[1] }, segments[2]);
+  }
+  if (segments[0] === 'api' && segments[1] === 'v3' && segments[2] === 'gists' && segments[3]) {
+    return withRevision({ hostname: urlHost, gistId: segments[3] }, segments[4]);
+  }
+
+  // Web URLs: [{user}/]{id}[/...]
+  let rest: string[];
+  let hostname: string;
+  if (urlHost.startsWith('gist.')) {
+    hostname = urlHost.slice('gist.'.length);
+    rest = segments;
+  } else if (segments[0] === 'gist') {
+    hostname = urlHost;
+    rest = segments.slice(1);
+  } else {
+    return null;
+  }
+
+  if (rest.length === 0) {
+    return null;
+  }
+  // {id}/{sha}: usernames are at most 39 characters, so a 40-character SHA cannot be a user
+  if (rest.length >= 2 && GIST_REVISION_PATTERN.test(rest[1])) {
+    return { hostname, gistId: rest[0], revision: rest[1] };
+  }
+  if (rest.length >= 2 && !GIST_SUBPAGES.has(rest[1])) {
+    return withRevision({ hostname, gistId: rest[1] }, rest[2]);
+  }
+  return { hostname, gistId: rest[0] };
+}
+
+/**
+ * Attach the URL segment following the gist ID as revision when it is a SHA
+ */
+function withRevision(
+  ref: { hostname: string; gistId: string },
+  segment: string | undefined
+): { hostname: string; gistId: string; revision?: string } {
+  return segment && GIST_REVISION_PATTERN.test(segment) ? { ...ref, revision: segment } : ref;
+}
+
+/**
+ * Check whether a share reference looks like a GitHub gist URL or gist ID
+ *
+ * @example
+ * isGistReference('https://gist.github.com/user/abc123') // true
+ * isGistReference('https://ghe.example.com/gist/user/abc123') // true
+ * isGistReference('aa5a315d61ae9438b18d') // true (bare hex gist ID)
+ * isGistReference('file:///mnt/shares/abc') // false
+ */
+export function isGistReference(ref: string): boolean {
+  const trimmed = ref.trim();
+  if (/^[0-9a-f]{20,32}$/i.test(trimmed)) {
+    return true;
+  }
+  return parseGistUrl(trimmed) !== null;
+}
 
 /**
  * Error thrown when GITHUB_TOKEN is missing or invalid
@@ -36,22 +193,29 @@ export class GistApiError extends Error {
  *
  * Handles authentication, rate limiting, and error handling for GitHub Gist operations.
  */
-export class GistClient {
+export class GistClient implements ShareBackend {
+  readonly name = 'gist';
   private octokit: Octokit;
+  private host: GitHubHost;
+  private token: string;
 
   constructor() {
     const token = process.env.GITHUB_TOKEN;
+    this.host = resolveGitHubHost();
 
     if (!token) {
       throw new GistAuthError(
         'GITHUB_TOKEN environment variable is required. ' +
-        'Create a personal access token at https://github.com/settings/tokens with "gist" scope.'
+        `Create a personal access token at ${this.host.webUrl}/settings/tokens with "gist" scope.`
       );
     }
 
+    this.token = token;
+
     // Initialize Octokit with authentication and throttling
     this.octokit = new Octokit({
       auth: token,
+      baseUrl: this.host.apiUrl,
       throttle: {
         onRateLimit: (retryAfter: number, options: any, octokit: Octokit, retryCount: number) => {
           // Retry up to 3 times on primary rate limits
@@ -84,75 +248,119 @@ export class GistClient {
   /**
    * Extract gist ID from a GitHub gist URL or return the ID if already in ID format
    *
-   * @param gistIdOrUrl - Either a full gist URL (https://gist.github.com/username/abc123) or just the gist ID
+   * @param gistIdOrUrl - Either a full gist URL (https://gist.github.com/username/abc123,
+   *   https://ghe.example.com/gist/username/abc123) or just the gist ID
    * @returns The extracted gist ID
+   * @throws {GistApiError} If the URL belongs to a different GitHub instance than the configured one
    *
    * @example
    * extractGistId('https://gist.github.com/user/abc123def456') // Returns 'abc123def456'
    * extractGistId('abc123def456') // Returns 'abc123def456'
    */
   private extractGistId(gistIdOrUrl: string): string {
+    return this.resolveGistRef(gistIdOrUrl).gistId;
+  }
+
+  /**
+   * Extract the gist ID and, for revision URLs, the pinned revision SHA
+   *
+   * @throws {GistApiError} If the URL belongs to a different GitHub instance than the configured one
+   */
+  private resolveGistRef(gistIdOrUrl: string): { gistId: string; revision?: string } {
+    const parsed = parseGistUrl(gistIdOrUrl);
+    if (parsed) {
+      if (parsed.hostname !== this.host.hostname) {
+        throw new GistApiError(
+          `Gist ${gistIdOrUrl} is hosted on ${parsed.hostname}, but the client is configured for ${this.host.hostname}. ` +
+          'Set GITHUB_API_URL or GH_HOST (and a GITHUB_TOKEN for that instance) to access it.'
+        );
+      }
+      return parsed.revision ? { gistId: parsed.gistId, revision: parsed.revision } : { gistId: parsed.gistId };
+    }
+
     // Remove trailing slash if present
     const normalized = gistIdOrUrl.replace(/\/$/, '');
 
     // If it's already just an ID (no slashes), return it
     if (!normalized.includes('/')) {
-      return normalized;
+      return { gistId: normalized };
     }
 
-    // Extract ID from URL format: https://gist.github.com/username/abc123def456
-    // The ID is the last segment after the username
+    // Fall back to the last segment for other user/id shapes
     const segments = normalized.split('/');
-    const lastSegment = segments[segments.length - 1];
-
-    // Return the last segment (which should be the gist ID)
-    return lastSegment;
+    return { gistId: segments[segments.length - 1] };
   }
 
   /**
    * Fetch a gist by ID or URL
    *
+   * Fetches the latest revision unless a revision is pinned, either by the URL
+   * (https://gist.github.com/user/abc123/<sha>) or by the `revision` argument,
+   * which takes precedence. Files the API truncated are downloaded in full.
+   *
    * @param gistIdOrUrl - Either a full gist URL or just the gist ID
+   * @param revision - Optional revision SHA (as listed on the gist's revisions page)
    * @returns Promise resolving to GistResponse with gist content
    * @throws {GistAuthError} If token is invalid (401)
-   * @throws {GistApiError} If gist not found (404), private/deleted (403), or other errors
+   * @throws {GistApiError} If gist or revision not found (404), private/deleted (403), a truncated
+   *   file cannot be downloaded in full, or other errors
    *
    * @example
    * const gist = await client.fetchGist('https://gist.github.com/user/abc123');
    * const gist = await client.fetchGist('abc123');
+   * const gist = await client.fetchGist('abc123', '3f6c0b5e0d4f6a1e2b7c9d8e5f4a3b2c1d0e9f8a');
    */
-  async fetchGist(gistIdOrUrl: string): Promise<GistResponse> {
-    const gistId = this.extractGistId(gistIdOrUrl);
+  async fetchGist(gistIdOrUrl: string, revision?: string): Promise<GistResponse> {
+    const gist = await this.getGist(gistIdOrUrl, revision);
+    await this.loadTruncatedFiles(gist);
+    return gist;
+  }
+
+  /**
+   * Fetch a gist (or pinned revision) as the API returns it, truncated files included
+   */
+  private async getGist(gistIdOrUrl: string, revision?: string): Promise<GistResponse> {
+    const ref = this.resolveGistRef(gistIdOrUrl);
+    const gistId = ref.gistId;
+    const sha = revision?.trim() || ref.revision;
+
+    if (sha !== undefined && !GIST_REVISION_PATTERN.test(sha)) {
+      throw new GistApiError(`Invalid gist revision "${sha}". Expected a 40-character commit SHA.`);
+    }
 
+    let gist: GistResponse;
     try {
-      const response = await this.octokit.rest.gists.get({
-        gist_id: gistId,
-      });
+      const response = sha
+        ? await this.octokit.rest.gists.getRevision({ gist_id: gistId, sha })
+        : await this.octokit.rest.gists.get({ gist_id: gistId });
 
-      // Map response to our GistResponse type
-      return {
+      // Map response to our GistResponse type; a pinned revision keeps its SHA in the web URL
+      gist = {
         id: response.data.id!,
         url: response.data.url!,
-        html_url: response.data.html_url!,
+        html_url: sha ? `${response.data.html_url}/${sha}` : response.data.html_url!,
         files: response.data.files as Record<string, any>,
         public: response.data.public!,
         created_at: response.data.created_at!,
         updated_at: response.data.updated_at!,
         description: response.data.description || '',
+        ...(sha && { revision: sha }),
       };
     } catch (error: any) {
       // Handle authentication errors
       if (error.status === 401) {
         throw new GistAuthError(
           'Invalid GITHUB_TOKEN. Please check that your token is valid and has the "gist" scope. ' +
-          'Create a new token at https://github.com/settings/tokens'
+          `Create a new token at ${this.host.webUrl}/settings/tokens`
         );
       }
 
       // Handle not found errors
       if (error.status === 404) {
         throw new GistApiError(
-          `Gist not found: ${gistId}. The gist may not exist or you may not have access to it.`,
+          sha
+            ? `Revision ${sha} of gist ${gistId} not found. The gist or revision may not exist or you may not have access to it.`
+            : `Gist not found: ${gistId}. The gist may not exist or you may not have access to it.`,
           404
         );
       }
@@ -178,6 +386,8 @@ export class GistClient {
         error.status
       );
     }
+
+    return gist;
   }
 
   /**
@@ -223,7 +433,7 @@ export class GistClient {
       if (error.status === 401) {
         throw new GistAuthError(
           'Invalid GITHUB_TOKEN. Please check that your token is valid and has the "gist" scope. ' +
-          'Create a new token at https://github.com/settings/tokens'
+          `Create a new token at ${this.host.webUrl}/settings/tokens`
         );
       }
 
@@ -257,4 +467,266 @@ export class GistClient {
       );
     }
   }
+
+  /**
+   * Update the files (and optionally description) of an existing gist
+   *
+   * Creates a new revision of the gist; files not listed are left unchanged.
+   *
+   * @param gistIdOrUrl - Either a full gist URL or just the gist ID
+   * @param files - Object mapping filenames to new file content (null deletes the file)
+   * @param description - Optional new description
+   * @returns Promise resolving to the updated GistResponse
+   * @throws {GistAuthError} If token is invalid (401)
+   * @throws {GistApiError} If gist not found (404), not owned (403), or other errors
+   */
+  async updateGist(
+    gistIdOrUrl: string,
+    files: Record<string, string | null>,
+    description?: string
+  ): Promise<GistResponse> {
+    const gistId = this.extractGistId(gistIdOrUrl);
+
+    try {
+      // The API deletes files whose entry is null (not reflected in Octokit's types)
+      const gistFiles: Record<string, { content: string } | null> = {};
+      for (const [filename, content] of Object.entries(files)) {
+        gistFiles[filename] = content === null ? null : { content };
+      }
+
+      const response = await this.octokit.rest.gists.update({
+        gist_id: gistId,
+        files: gistFiles as Record<string, { content: string }>,
+        ...(description !== undefined ? { description } : {}),
+      });
+
+      return this.toGistResponse(response.data);
+    } catch (error: any) {
+      throw this.toGistError(error, 'update', gistId);
+    }
+  }
+
+  /**
+   * Delete a gist
+   *
+   * @param gistIdOrUrl - Either a full gist URL or just the gist ID
+   * @throws {GistAuthError} If token is invalid (401)
+   * @throws {GistApiError} If gist not found (404), not owned (403), or other errors
+   */
+  async deleteGist(gistIdOrUrl: string): Promise<void> {
+    const gistId = this.extractGistId(gistIdOrUrl);
+
+    try {
+      await this.octokit.rest.gists.delete({ gist_id: gistId });
+    } catch (error: any) {
+      throw this.toGistError(error, 'delete', gistId);
+    }
+  }
+
+  /**
+   * List all gists of the authenticated user, following pagination
+   *
+   * @returns Promise resolving to gist summaries (file contents not included)
+   * @throws {GistAuthError} If token is invalid (401)
+   * @throws {GistApiError} If the API request fails
+   */
+  async listGists(): Promise<GistSummary[]> {
+    try {
+      const gists = await this.octokit.paginate(this.octokit.rest.gists.list, {
+        per_page: 100,
+      });
+
+      return gists.map((gist: any) => ({
+        id: gist.id,
+        html_url: gist.html_url,
+        description: gist.description || '',
+        filenames: Object.keys(gist.files ?? {}),
+        public: gist.public,
+        created_at: gist.created_at,
+        updated_at: gist.updated_at,
+      }));
+    } catch (error: any) {
+      throw this.toGistError(error, 'list');
+    }
+  }
+
+  // ShareBackend implementation
+
+  async create(description: string, files: Record<string, string>): Promise<StoredShare> {
+    return this.toStoredShare(await this.createGist(description, files));
+  }
+
+  async fetch(ref: string): Promise<StoredShare> {
+    return this.toStoredShare(await this.fetchGist(ref));
+  }
+
+  async fetchRevision(ref: string, revision: string): Promise<StoredShare> {
+    return this.toStoredShare(await this.fetchGist(ref, revision));
+  }
+
+  async fetchFile(ref: string, filename: string): Promise<string | null> {
+    const gist = await this.getGist(ref);
+    if (!gist.files?.[filename]) {
+      return null;
+    }
+    await this.loadTruncatedFiles(gist, [filename]);
+    return gist.files[filename].content ?? '';
+  }
+
+  async update(ref: string, files: Record<string, string>, description?: string): Promise<StoredShare> {
+    const current = await this.fetchGist(ref);
+    const changes: Record<string, string | null> = { ...files };
+    for (const filename of Object.keys(current.files)) {
+      if (!(filename in files)) {
+        changes[filename] = null;
+      }
+    }
+    return this.toStoredShare(await this.updateGist(ref, changes, description));
+  }
+
+  async delete(ref: string): Promise<void> {
+    await this.deleteGist(ref);
+  }
+
+  async list(): Promise<ShareSummary[]> {
+    const gists = await this.listGists();
+    return gists.map((gist) => ({
+      id: gist.id,
+      url: gist.html_url,
+      description: gist.description,
+      filenames: gist.filenames,
+      createdAt: gist.created_at,
+      updatedAt: gist.updated_at,
+    }));
+  }
+
+  /**
+   * Replace the content of truncated files with the full file from raw_url
+   *
+   * The API cuts file content off at about 1 MB and flags the file as truncated;
+   * raw_url serves files up to 10 MB. A download whose size differs from the size
+   * the API reports is rejected rather than imported partially.
+   *
+   * @param only - Load just these files (default: every truncated file)
+   */
+  private async loadTruncatedFiles(gist: GistResponse, only?: string[]): Promise<void> {
+    for (const [filename, file] of Object.entries(gist.files ?? {})) {
+      if (!file?.truncated || (only && !only.includes(filename))) {
+        continue;
+      }
+
+      // Raw files on a GitHub Enterprise host need the token; gist.githubusercontent.com does not
+      const rawUrl = new URL(file.raw_url);
+      const headers: Record<string, string> = rawUrl.host.toLowerCase() === this.host.hostname
+        ? { Authorization: `token ${this.token}` }
+        : {};
+
+      let response: Response;
+      try {
+        response = await fetch(rawUrl, { headers });
+      } catch (error: any) {
+        throw new GistApiError(`Failed to download truncated file ${filename}: ${error?.message || String(error)}`);
+      }
+      if (!response.ok) {
+        throw new GistApiError(
+          `Failed to download truncated file ${filename} (HTTP ${response.status}).`,
+          response.status
+        );
+      }
+
+      const content = await response.text();
+      const size = Buffer.byteLength(content, 'utf-8');
+      if (typeof file.size === 'number' && size !== file.size) {
+        throw new GistApiError(
+          `Downloaded ${filename} is ${size} bytes but the gist reports ${file.size}. ` +
+          'The file is incomplete, possibly because it exceeds the 10 MB raw file limit.'
+        );
+      }
+
+      gist.files[filename] = { ...file, content, truncated: false };
+    }
+  }
+
+  /**
+   * Map an Octokit gist payload to our GistResponse type
+   */
+  private toGistResponse(data: any): GistResponse {
+    return {
+      id: data.id,
+      url: data.url,
+      html_url: data.html_url,
+      files: data.files as Record<string, any>,
+      public: data.public,
+      created_at: data.created_at,
+      updated_at: data.updated_at,
+      description: data.description || '',
+    };
+  }
+
+  /**
+   * Map a GistResponse to the backend-neutral StoredShare shape
+   */
+  private toStoredShare(gist: GistResponse): StoredShare {
+    const files: Record<string, string> = {};
+    for (const [filename, file] of Object.entries(gist.files ?? {})) {
+      files[filename] = file?.content ?? '';
+    }
+
+    return {
+      id: gist.id,
+      url: gist.html_url,
+      description: gist.description,
+      files,
+      createdAt: gist.created_at,
+      updatedAt: gist.updated_at,
+      ...(gist.revision && { revision: gist.revision }),
+    };
+  }
+
+  /**
+   * Translate an Octokit error into GistAuthError / GistApiError
+   */
+  private toGistError(error: any, action: string, gistId?: string): Error {
+    const target = gistId ? `gist ${gistId}` : 'gists';
+
+    if (error.status === 401) {
+      return new GistAuthError(
+        'Invalid GITHUB_TOKEN. Please check that your token is valid and has the "gist" scope. ' +
+        `Create a new token at ${this.host.webUrl}/settings/tokens`
+      );
+    }
+
+    if (error.status === 404) {
+      return new GistApiError(
+        `Gist not found: ${gistId}. The gist may not exist or you may not have access to it.`,
+        404
+      );
+    }
+
+    if (error.status === 403) {
+      const message = error.message || 'Forbidden';
+      if (message.toLowerCase().includes('rate limit')) {
+        return new GistApiError(
+          'GitHub API rate limit exceeded. Please wait and try again later.',
+          403
+        );
+      }
+      return new GistApiError(
+        `Access denied to ${target}. Ensure your GITHUB_TOKEN has the "gist" scope and owns the gist.`,
+        403
+      );
+    }
+
+    if (error.status === 422) {
+      return new GistApiError(
+        `Invalid gist data: ${error.message || 'Validation failed'}`,
+        422
+      );
+    }
+
+    return new GistApiError(
+      `Failed to ${action} ${target}: ${error.message || 'Unknown error'}`,
+      error.status
+    );
+  }
 }
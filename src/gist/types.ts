@@ -30,6 +30,21 @@ export interface GistResponse {
   created_at: string;
   updated_at: string;
   description: string;
+  /** Revision SHA when a past revision was fetched */
+  revision?: string;
+}
+
+/**
+ * Gist entry from a listing (file contents are not included)
+ */
+export interface GistSummary {
+  id: string;
+  html_url: string;
+  description: string;
+  filenames: string[];
+  public: boolean;
+  created_at: string;
+  updated_at: string;
 }
 
 /**
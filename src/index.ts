@@ -7,8 +7,15 @@ import {
   ListPromptsRequestSchema,
   GetPromptRequestSchema,
 } from "@modelcontextprotocol/sdk/types.js";
-import { uploadSession } from "./services/session-uploader.js";
-import { importSession } from "./services/session-importer.js";
+import { uploadSession, updateSharedSession, type SharePreview } from "./services/session-uploader.js";
+import { importSession, type ImportConflictMode, type ImportOptions, type ImportPreview } from "./services/session-importer.js";
+import { revokeShare, ShareNotOwnedError, type RevokeTarget } from "./services/share-revoker.js";
+import { listShares } from "./services/share-lister.js";
+import { cleanupExpiredShares, type ExpiredShare } from "./services/share-cleanup.js";
+import { readLedger, getLedgerPath, type LedgerAction } from "./shares/ledger.js";
+import { ShareExpiredError } from "./shares/expiry.js";
+import { DecryptionError, type EncryptionOptions } from "./encryption/envelope.js";
+import { loadOrCreateIdentity, getIdentityPath } from "./encryption/identity.js";
 import { findSessionFiles } from "./session/finder.js";
 import { parseSessionFile } from "./session/reader.js";
 import { homedir } from 'os';
@@ -82,6 +89,120 @@ async function findMostRecentSession(): Promise<string | null> {
   }
 }
 
+/**
+ * Format a dry-run share preview as human-readable text
+ */
+function formatSharePreview(sessionPath: string, preview: SharePreview): string {
+  const { report } = preview;
+  const lines: string[] = [
+    `Share preview for ${sessionPath}`,
+    '',
+    `Description: ${preview.description}`,
+    `Messages: ${preview.messageCount}`,
+    `Agent transcripts: ${preview.agentFiles.length > 0 ? preview.agentFiles.join(', ') : 'none'}`,
+    `Base path: ${preview.basePath || '(unknown)'}`,
+    '',
+  ];
+
+  const ruleCounts = Object.entries(report.redactionCounts);
+  if (ruleCounts.length === 0) {
+    lines.push('Redactions: none');
+  } else {
+    lines.push(`Redactions: ${report.redactions.length}`);
+    for (const [rule, count] of ruleCounts) {
+      lines.push(`  ${rule}: ${count}`);
+    }
+    lines.push('', 'Redacted locations:');
+    for (const finding of report.redactions) {
+      const block = finding.blockIndex === null ? '' : ` block ${finding.blockIndex}`;
+      lines.push(`  message ${finding.messageUuid}${block} [${finding.rule}] ${finding.excerpt}`);
+    }
+  }
+
+  lines.push('', `Relativized paths: ${report.relativizedPaths.length}`);
+  for (const { original, relative } of report.relativizedPaths) {
+    lines.push(`  ${original} -> ${relative}`);
+  }
+
+  lines.push('', `Paths left absolute (outside base path): ${report.externalPaths.length}`);
+  for (const externalPath of report.externalPaths) {
+    lines.push(`  ${externalPath}`);
+  }
+
+  if (preview.residualFindings.length > 0) {
+    lines.push(
+      '',
+      `WARNING: ${preview.residualFindings.length} likely secret(s) remain after sanitization. share_session will refuse to upload:`
+    );
+    for (const finding of preview.residualFindings) {
+      const where = (finding.file ? `${finding.file} ` : '') +
+        (finding.messageUuid ? `message ${finding.messageUuid}` : `line ${finding.line}`);
+      lines.push(`  ${where} ${finding.path} [${finding.detector}] ${finding.excerpt}`);
+    }
+  }
+
+  lines.push('', 'Nothing was uploaded. Use share_session to share.');
+  return lines.join('\n');
+}
+
+/**
+ * What import_session would do with an earlier import of the share, per onConflict mode
+ */
+const IMPORT_CONFLICT_ACTIONS: Record<ImportConflictMode, string> = {
+  skip: "With onConflict 'skip' (default), import_session keeps the earlier import and writes nothing. Use 'overwrite' to update it, or 'copy' to import a new session.",
+  overwrite: "With onConflict 'overwrite', import_session replaces the earlier import and keeps its session ID.",
+  copy: "With onConflict 'copy', import_session imports a separate new session next to the earlier import.",
+};
+
+/**
+ * Format a dry-run import preview as human-readable text
+ */
+function formatImportPreview(preview: ImportPreview): string {
+  const previous = preview.previousImport;
+  const tools = Object.entries(preview.toolUses).sort(([, a], [, b]) => b - a);
+  const prompt = preview.firstUserPrompt && preview.firstUserPrompt.length > 500
+    ? `${preview.firstUserPrompt.slice(0, 500)}…`
+    : preview.firstUserPrompt;
+
+  const lines: string[] = [
+    `Import preview for ${preview.url}`,
+    '',
+    `Title: ${preview.title || '(none)'}`,
+    `Encrypted: ${preview.encrypted ? 'yes' : 'no'}`,
+    `Expires: ${preview.expiresAt ?? 'never'}`,
+    `Messages: ${preview.messageCount}`,
+    `Date range: ${preview.firstTimestamp ?? 'unknown'} – ${preview.lastTimestamp ?? 'unknown'}`,
+    `Models: ${preview.models.length > 0 ? preview.models.join(', ') : 'unknown'}`,
+    `Tools: ${tools.length > 0 ? tools.map(([name, count]) => `${name} (${count})`).join(', ') : 'none'}`,
+    `Parse errors: ${preview.parseErrors}`,
+    `Agent transcripts: ${preview.agentFiles.length > 0 ? preview.agentFiles.join(', ') : 'none'}`,
+    `Dangling references: ${preview.danglingReferences.length > 0
+      ? preview.danglingReferences.slice(0, 5).map((ref) => `${ref.field} ${ref.value}`).join(', ') +
+        (preview.danglingReferences.length > 5 ? `, and ${preview.danglingReferences.length - 5} more` : '')
+      : 'none'}`,
+    '',
+    'First user prompt:',
+    prompt ? prompt.split('\n').map((line) => `  ${line}`).join('\n') : '  (none)',
+    '',
+    ...(previous
+      ? [
+        `Already imported: ${previous.sessionPath} (session ${previous.sessionId}, ${previous.importedAt})`,
+        previous.shareChanged ? 'The share changed since it was imported.' : 'Nothing changed since the import.',
+        IMPORT_CONFLICT_ACTIONS[previous.onConflict],
+        '',
+      ]
+      : []),
+    // A skipped import writes no file
+    ...(previous?.onConflict === 'skip'
+      ? []
+      : preview.targetPath
+        ? [`Target file: ${preview.targetPath}`, '']
+        : [`Target directory: ${preview.targetDirectory}`, 'The session file is named after the new session ID assigned on import.', '']),
+    'Nothing was written. Use import_session to import.',
+  ];
+  return lines.join('\n');
+}
+
 /**
  * List available tools
  */
@@ -98,27 +219,222 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
               type: "string",
               description: "Optional path to session file. If not provided, shares the most recent session.",
             },
+            allowResidualFindings: {
+              type: "boolean",
+              description: "Share even if likely secrets remain after sanitization. Only set after reviewing the findings.",
+            },
+            passphrase: {
+              type: "string",
+              description: "Optional passphrase to encrypt the share end-to-end. Recipients need it to import.",
+            },
+            recipients: {
+              type: "array",
+              items: { type: "string" },
+              description: "Optional recipient public keys (css-x25519:...) to encrypt the share for. See get_share_public_key.",
+            },
+            ttl: {
+              type: "string",
+              description: "Optional time until the share expires, e.g. \"12h\", \"7d\" or \"2w\". Expired shares cannot be imported and are deleted by cleanup_expired_shares.",
+            },
+          },
+        },
+      },
+      {
+        name: "update_share",
+        description: "Update a previously shared session in place. Re-sanitizes the current session and pushes it as a new revision of the same share, so existing links keep working.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            sessionPath: {
+              type: "string",
+              description: "Optional path to session file. If not provided, updates the share of the most recent session.",
+            },
+            allowResidualFindings: {
+              type: "boolean",
+              description: "Update even if likely secrets remain after sanitization. Only set after reviewing the findings.",
+            },
+            passphrase: {
+              type: "string",
+              description: "Passphrase to encrypt the new revision. Required (or recipients) if the share was encrypted.",
+            },
+            recipients: {
+              type: "array",
+              items: { type: "string" },
+              description: "Recipient public keys (css-x25519:...) to encrypt the new revision for.",
+            },
+            ttl: {
+              type: "string",
+              description: "Optional new expiry counted from now, e.g. \"7d\". The previous expiry is kept if omitted.",
+            },
+          },
+        },
+      },
+      {
+        name: "preview_share",
+        description: "Preview what share_session would upload without uploading. Runs the full sanitization pipeline and reports redactions per rule, redacted locations, relativized paths, and paths left absolute.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            sessionPath: {
+              type: "string",
+              description: "Optional path to session file. If not provided, previews the most recent session.",
+            },
           },
         },
       },
       {
         name: "import_session",
-        description: "Import a shared Claude Code session from GitHub Gist URL or ID. Creates local resumable session in ~/.claude/projects/",
+        description: "Import a shared Claude Code session from a GitHub Gist URL or ID, a local share:// / file:// share, an S3 share link, or a GitLab snippet. Creates local resumable session in ~/.claude/projects/",
         inputSchema: {
           type: "object",
           properties: {
             gistUrl: {
               type: "string",
-              description: "GitHub Gist URL (https://gist.github.com/user/id) or bare gist ID",
+              description: "GitHub Gist URL (https://gist.github.com/user/id), bare gist ID, local share URL (share://id, file:///path/to/share), S3 presigned/s3:// URL, or GitLab snippet URL",
             },
             projectPath: {
               type: "string",
               description: "Local project directory path where session will be imported (e.g., /Users/name/project)",
             },
+            passphrase: {
+              type: "string",
+              description: "Passphrase for encrypted shares. Shares encrypted to your public key are decrypted with your local identity automatically.",
+            },
+            revision: {
+              type: "string",
+              description: "Gist revision SHA to import instead of the latest version (a revision in the URL, https://gist.github.com/user/id/<sha>, works too)",
+            },
+            onConflict: {
+              type: "string",
+              enum: ["skip", "overwrite", "copy"],
+              description: "What to do if this share was already imported into the project: skip (default, keep the earlier import), overwrite (replace it, keeping its session ID) or copy (import as a new session)",
+            },
+            uuids: {
+              type: "string",
+              enum: ["random", "deterministic"],
+              description: "How new message and session IDs are chosen: random (default) or deterministic (derived from the share, so every import of it gets the same IDs)",
+            },
+            pathMappings: {
+              type: "object",
+              additionalProperties: { type: "string" },
+              description: "Relative path prefixes to move when the project layout differs, e.g. {\"packages/api\": \"services/api\"}. Applied before shared paths are made absolute under projectPath.",
+            },
+          },
+          required: ["gistUrl", "projectPath"],
+        },
+      },
+      {
+        name: "preview_import",
+        description: "Preview what import_session would import without writing anything: title, message count, date range, models, tools used, first user prompt, parse errors, target directory and any earlier import of the share. Use it to inspect an untrusted link.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            gistUrl: {
+              type: "string",
+              description: "Share URL or ID, as accepted by import_session",
+            },
+            projectPath: {
+              type: "string",
+              description: "Local project directory path the session would be imported into",
+            },
+            passphrase: {
+              type: "string",
+              description: "Passphrase for encrypted shares",
+            },
+            revision: {
+              type: "string",
+              description: "Gist revision SHA to preview instead of the latest version",
+            },
+            onConflict: {
+              type: "string",
+              enum: ["skip", "overwrite", "copy"],
+              description: "onConflict mode of the import to preview; if the share was already imported into the project, the preview says what this mode would do (default skip)",
+            },
+            uuids: {
+              type: "string",
+              enum: ["random", "deterministic"],
+              description: "UUID mode of the import to preview; deterministic previews report the exact target file",
+            },
           },
           required: ["gistUrl", "projectPath"],
         },
       },
+      {
+        name: "list_shares",
+        description: "List the sessions you have shared (all pages of your gists, or the configured backend), with title, project, message count, created/updated time and URL.",
+        inputSchema: {
+          type: "object",
+          properties: {},
+        },
+      },
+      {
+        name: "share_history",
+        description: "Show the local audit ledger of shares, updates, imports and revokes (session path, share, content hash, redaction counts, expiry, time). Does not contact the share backend.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            sessionPath: {
+              type: "string",
+              description: "Only show activity for this session file",
+            },
+            shareUrl: {
+              type: "string",
+              description: "Only show activity for this share (URL or ID)",
+            },
+            action: {
+              type: "string",
+              enum: ["share", "update", "import", "revoke", "expire"],
+              description: "Only show this kind of activity",
+            },
+            limit: {
+              type: "number",
+              description: "Maximum number of entries to show, newest first (default 50)",
+            },
+          },
+        },
+      },
+      {
+        name: "cleanup_expired_shares",
+        description: "Delete shares whose ttl has passed. Finds them via metadata.json on the share backend and the local ledger (for encrypted shares).",
+        inputSchema: {
+          type: "object",
+          properties: {
+            dryRun: {
+              type: "boolean",
+              description: "Only list expired shares without deleting them",
+            },
+          },
+        },
+      },
+      {
+        name: "revoke_share",
+        description: "Delete a shared session so its link stops working. Without confirm, only shows what would be deleted.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            shareUrl: {
+              type: "string",
+              description: "Share to delete: gist URL or ID, or any other share URL returned by share_session",
+            },
+            sessionPath: {
+              type: "string",
+              description: "Alternatively, the path of a session shared from this machine; its recorded share is deleted",
+            },
+            confirm: {
+              type: "boolean",
+              description: "Set to true to actually delete the share. Ask the user before setting it.",
+            },
+          },
+        },
+      },
+      {
+        name: "get_share_public_key",
+        description: "Show your public key for receiving encrypted shares (creates a local key pair on first use). Give it to teammates to pass as a share_session recipient.",
+        inputSchema: {
+          type: "object",
+          properties: {},
+        },
+      },
     ],
   };
 });
@@ -234,14 +550,30 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         };
       }
 
-      // Upload session and get gist URL
-      const gistUrl = await uploadSession(pathToShare);
+      const allowResidualFindings = request.params.arguments?.allowResidualFindings === true;
+      const passphrase = request.params.arguments?.passphrase as string | undefined;
+      const recipients = request.params.arguments?.recipients as string[] | undefined;
+      const encryption: EncryptionOptions | undefined = passphrase || recipients?.length
+        ? { passphrase: passphrase || undefined, recipients }
+        : undefined;
+
+      const ttl = request.params.arguments?.ttl as string | undefined;
+
+      // Upload session and get share URL
+      const shareUrl = await uploadSession(pathToShare, { allowResidualFindings, encryption, ttl });
+
+      const access = encryption
+        ? "The share is encrypted. Recipients need the passphrase or their private key to import it."
+        : "You can share this URL with others to give them access to this conversation.";
+      const expiry = ttl
+        ? `\n\nThe share expires in ${ttl}. Run cleanup_expired_shares to delete expired shares.`
+        : "";
 
       return {
         content: [
           {
             type: "text",
-            text: `Successfully shared session!\n\nGist URL: ${gistUrl}\n\nYou can share this URL with others to give them access to this conversation.`,
+            text: `Successfully shared session!\n\nShare URL: ${shareUrl}\n\n${access}${expiry}`,
           },
         ],
       };
@@ -259,6 +591,101 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
     }
   }
 
+  if (request.params.name === "update_share") {
+    try {
+      const sessionPath = request.params.arguments?.sessionPath as string | undefined;
+
+      // If no sessionPath provided, find most recent session
+      const pathToUpdate = sessionPath || await findMostRecentSession();
+
+      if (!pathToUpdate) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: "Error: No session files found. Please provide a session path or ensure you have Claude Code sessions in ~/.claude/projects/",
+            },
+          ],
+          isError: true,
+        };
+      }
+
+      const allowResidualFindings = request.params.arguments?.allowResidualFindings === true;
+      const passphrase = request.params.arguments?.passphrase as string | undefined;
+      const recipients = request.params.arguments?.recipients as string[] | undefined;
+      const encryption: EncryptionOptions | undefined = passphrase || recipients?.length
+        ? { passphrase: passphrase || undefined, recipients }
+        : undefined;
+
+      const ttl = request.params.arguments?.ttl as string | undefined;
+
+      const shareUrl = await updateSharedSession(pathToUpdate, { allowResidualFindings, encryption, ttl });
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Successfully updated shared session!\n\nShare URL: ${shareUrl}\n\nExisting links now show the latest revision of this conversation.`,
+          },
+        ],
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Failed to update share: ${errorMessage}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+
+  if (request.params.name === "preview_share") {
+    try {
+      const sessionPath = request.params.arguments?.sessionPath as string | undefined;
+
+      // If no sessionPath provided, find most recent session
+      const pathToPreview = sessionPath || await findMostRecentSession();
+
+      if (!pathToPreview) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: "Error: No session files found. Please provide a session path or ensure you have Claude Code sessions in ~/.claude/projects/",
+            },
+          ],
+          isError: true,
+        };
+      }
+
+      const preview = await uploadSession(pathToPreview, { dryRun: true });
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: formatSharePreview(pathToPreview, preview),
+          },
+        ],
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Failed to preview share: ${errorMessage}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+
   if (request.params.name === "import_session") {
     try {
       const gistUrl = request.params.arguments?.gistUrl as string | undefined;
@@ -289,14 +716,358 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         };
       }
 
+      const passphrase = request.params.arguments?.passphrase as string | undefined;
+      const revision = request.params.arguments?.revision as string | undefined;
+      const onConflict = request.params.arguments?.onConflict as ImportConflictMode | undefined;
+      const uuids = request.params.arguments?.uuids as ImportOptions['uuids'];
+      const pathMappings = request.params.arguments?.pathMappings as Record<string, string> | undefined;
+
       // Import session
-      const result = await importSession(gistUrl, projectPath);
+      const result = await importSession(gistUrl, projectPath, { passphrase, revision, onConflict, uuids, pathMappings });
+
+      if (result.status === 'skipped') {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Already imported into this project.\n\nSession ID: ${result.sessionId}\nLocation: ${result.sessionPath}\n\n` +
+                (result.shareChanged
+                  ? "The share changed since it was imported. Use onConflict 'overwrite' to update the imported session, or 'copy' to import it as a new session."
+                  : "Nothing changed since the import. Use onConflict 'copy' to import it again as a new session."),
+            },
+          ],
+        };
+      }
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Session ${result.status === 'overwritten' ? 're-imported (earlier import overwritten)' : 'imported successfully'}!\n\nSession ID: ${result.sessionId}\nMessages: ${result.messageCount}\nLocation: ${result.sessionPath}\n` +
+              (result.agentSessionPaths.length > 0 ? `Agent transcripts: ${result.agentSessionPaths.length}\n` : '') +
+              (result.danglingReferences.length > 0
+                ? `Dangling references: ${result.danglingReferences.length} (parent, summary or tool references that point outside the shared files)\n`
+                : '') +
+              `\nUse 'claude --resume' to see imported session.`,
+          },
+        ],
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      const prefix = error instanceof DecryptionError
+        ? "Import failed (cannot decrypt)"
+        : error instanceof ShareExpiredError
+          ? "Import refused (share expired)"
+          : "Import failed";
+      return {
+        content: [
+          {
+            type: "text",
+            text: `${prefix}: ${errorMessage}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+
+  if (request.params.name === "preview_import") {
+    try {
+      const gistUrl = request.params.arguments?.gistUrl as string | undefined;
+      const projectPath = request.params.arguments?.projectPath as string | undefined;
+
+      if (!gistUrl || typeof gistUrl !== 'string' || gistUrl.trim() === '') {
+        return {
+          content: [
+            {
+              type: "text",
+              text: "Error: gistUrl is required and must be a non-empty string",
+            },
+          ],
+          isError: true,
+        };
+      }
+
+      if (!projectPath || typeof projectPath !== 'string' || projectPath.trim() === '') {
+        return {
+          content: [
+            {
+              type: "text",
+              text: "Error: projectPath is required and must be a non-empty string",
+            },
+          ],
+          isError: true,
+        };
+      }
+
+      const passphrase = request.params.arguments?.passphrase as string | undefined;
+      const revision = request.params.arguments?.revision as string | undefined;
+      const onConflict = request.params.arguments?.onConflict as ImportConflictMode | undefined;
+      const uuids = request.params.arguments?.uuids as ImportOptions['uuids'];
+
+      const preview = await importSession(gistUrl, projectPath, { passphrase, revision, onConflict, uuids, dryRun: true });
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: formatImportPreview(preview),
+          },
+        ],
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      const prefix = error instanceof DecryptionError
+        ? "Preview failed (cannot decrypt)"
+        : error instanceof ShareExpiredError
+          ? "Preview refused (share expired)"
+          : "Failed to preview import";
+      return {
+        content: [
+          {
+            type: "text",
+            text: `${prefix}: ${errorMessage}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+
+  if (request.params.name === "list_shares") {
+    try {
+      const shares = await listShares();
+
+      if (shares.length === 0) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: "No shared sessions found.",
+            },
+          ],
+        };
+      }
+
+      const entries = shares.map((share) => {
+        const details = [
+          `Project: ${share.projectName ?? "unknown"}`,
+          `Messages: ${share.encrypted ? "encrypted" : share.messageCount ?? "unknown"}`,
+          `Created: ${share.createdAt}`,
+          `Updated: ${share.updatedAt}`,
+          `URL: ${share.url}`,
+        ];
+        if (share.expiresAt) {
+          details.push(`Expires: ${share.expiresAt}`);
+        }
+        if (share.sessionPaths.length > 0) {
+          details.push(`Shared from: ${share.sessionPaths.join(", ")}`);
+        }
+        return `${share.title}\n  ${details.join("\n  ")}`;
+      });
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Found ${shares.length} shared session(s):\n\n${entries.join("\n\n")}`,
+          },
+        ],
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Failed to list shares: ${errorMessage}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+
+  if (request.params.name === "share_history") {
+    try {
+      const limit = request.params.arguments?.limit as number | undefined;
+      const entries = await readLedger({
+        sessionPath: request.params.arguments?.sessionPath as string | undefined,
+        share: request.params.arguments?.shareUrl as string | undefined,
+        action: request.params.arguments?.action as LedgerAction | undefined,
+        limit: limit ?? 50,
+      });
+
+      if (entries.length === 0) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `No matching share activity in ${getLedgerPath()}.`,
+            },
+          ],
+        };
+      }
+
+      const lines = entries.reverse().map((entry) => {
+        const details = [`${entry.url} (${entry.backend})`];
+        if (entry.sessionPath) {
+          details.push(`session: ${entry.sessionPath}`);
+        }
+        if (entry.contentHash) {
+          details.push(`content: ${entry.contentHash}`);
+        }
+        if (entry.redactionCounts && Object.keys(entry.redactionCounts).length > 0) {
+          const counts = Object.entries(entry.redactionCounts).map(([rule, count]) => `${rule}=${count}`);
+          details.push(`redactions: ${counts.join(", ")}`);
+        }
+        if (entry.encrypted) {
+          details.push("encrypted");
+        }
+        if (entry.expiresAt) {
+          details.push(`expires: ${entry.expiresAt}`);
+        }
+        return `${entry.timestamp} ${entry.action.toUpperCase()}\n  ${details.join("\n  ")}`;
+      });
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Share history (${entries.length} entries, newest first):\n\n${lines.join("\n\n")}`,
+          },
+        ],
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Failed to read share history: ${errorMessage}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+
+  if (request.params.name === "cleanup_expired_shares") {
+    try {
+      const dryRun = request.params.arguments?.dryRun === true;
+      const result = await cleanupExpiredShares({ dryRun });
+
+      if (result.expired.length === 0) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: "No expired shares found.",
+            },
+          ],
+        };
+      }
+
+      const describe = (share: ExpiredShare) => `- ${share.url} (${share.backend}, expired ${share.expiresAt})`;
+      const sections = dryRun
+        ? [`${result.expired.length} expired share(s) would be deleted:\n${result.expired.map(describe).join("\n")}`]
+        : [`Deleted ${result.deleted.length} expired share(s):\n${result.deleted.map(describe).join("\n") || "(none)"}`];
+      if (result.failed.length > 0) {
+        sections.push(
+          `Failed to delete ${result.failed.length} share(s):\n` +
+          result.failed.map((share) => `${describe(share)}: ${share.error}`).join("\n")
+        );
+      }
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: sections.join("\n\n"),
+          },
+        ],
+        ...(result.failed.length > 0 ? { isError: true } : {}),
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Failed to clean up expired shares: ${errorMessage}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+
+  if (request.params.name === "revoke_share") {
+    try {
+      const shareUrl = request.params.arguments?.shareUrl as string | undefined;
+      const sessionPath = request.params.arguments?.sessionPath as string | undefined;
+      const confirm = request.params.arguments?.confirm === true;
+
+      if (!shareUrl && !sessionPath) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: "Error: Provide the shareUrl to delete, or the sessionPath of a session shared from this machine.",
+            },
+          ],
+          isError: true,
+        };
+      }
+
+      const target: RevokeTarget = shareUrl ? { shareUrl } : { sessionPath: sessionPath! };
+      const result = await revokeShare(target, { confirm });
+
+      const lines = [
+        `Share: ${result.url} (${result.backend})`,
+        `Description: ${result.description || "(none)"}`,
+        `Files: ${result.filenames.join(", ") || "(none)"}`,
+      ];
+      if (result.sessionPaths.length > 0) {
+        lines.push(`Shared from: ${result.sessionPaths.join(", ")}`);
+      }
+
+      const text = result.revoked
+        ? `Share deleted. The link no longer works.\n\n${lines.join("\n")}\n\nAnyone who already imported or downloaded the session keeps their copy.`
+        : `This share would be deleted:\n\n${lines.join("\n")}\n\nCall revoke_share again with confirm: true to delete it.`;
+
+      return {
+        content: [
+          {
+            type: "text",
+            text,
+          },
+        ],
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      const prefix = error instanceof ShareNotOwnedError ? "Revoke failed (not your share)" : "Revoke failed";
+      return {
+        content: [
+          {
+            type: "text",
+            text: `${prefix}: ${errorMessage}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+
+  if (request.params.name === "get_share_public_key") {
+    try {
+      const identity = await loadOrCreateIdentity();
 
       return {
         content: [
           {
             type: "text",
-            text: `Session imported successfully!\n\nSession ID: ${result.sessionId}\nMessages: ${result.messageCount}\nLocation: ${result.sessionPath}\n\nUse 'claude --resume' to see imported session.`,
+            text: `Your public key for encrypted shares:\n\n${identity.publicKey}\n\nGive this to teammates to use as a share_session recipient. Your private key is stored at ${getIdentityPath()}; keep it secret.`,
           },
         ],
       };
@@ -306,7 +1077,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         content: [
           {
             type: "text",
-            text: `Import failed: ${errorMessage}`,
+            text: `Failed to load share key: ${errorMessage}`,
           },
         ],
         isError: true,
@@ -5,37 +5,52 @@
  * - Maps over all messages in session
  * - Applies appropriate sanitization based on message type
  * - Preserves message order and structure
+ * - Re-scans the serialized result for secrets that survived redaction
  */
 
 import type { SessionMessage, UserMessage } from '../session/types.js';
+import type { RedactionPolicy } from './policy.js';
+import { maskExcerpt, type SanitizationReporter } from './report.js';
+import { isAllowlisted } from './redactor.js';
+import { detectSecrets } from './scanner.js';
+import { LINE_ID_FIELDS } from '../session/references.js';
 import {
   sanitizeAssistantMessage,
   sanitizeUserMessage,
   sanitizeFileHistorySnapshot,
+  sanitizeGenericMessage,
 } from './sanitizer.js';
 
 /**
  * Sanitize entire session by processing all messages
  *
- * Uses discriminated union type guards to apply correct sanitization
+ * Uses discriminated union type guards to apply correct sanitization; lines
+ * of any other type still have every string sanitized
  * Returns new array (immutable transformation)
+ *
+ * @param messages - Parsed session messages
+ * @param basePath - Project root used to relativize absolute paths
+ * @param policy - Optional redaction policy (see loadRedactionPolicy)
+ * @param reporter - Optional reporter collecting redactions and path rewrites
  */
 export function sanitizeSession(
   messages: SessionMessage[],
-  basePath: string
+  basePath: string,
+  policy?: RedactionPolicy,
+  reporter?: SanitizationReporter
 ): SessionMessage[] {
   return messages.map((msg) => {
+    const recorder = reporter?.forMessage(msg.uuid);
     switch (msg.type) {
       case 'assistant':
-        return sanitizeAssistantMessage(msg, basePath);
+        return sanitizeAssistantMessage(msg, basePath, policy, recorder);
       case 'user':
-        return sanitizeUserMessage(msg, basePath);
+        return sanitizeUserMessage(msg, basePath, policy, recorder);
       case 'file-history-snapshot':
-        return sanitizeFileHistorySnapshot(msg, basePath);
+        return sanitizeFileHistorySnapshot(msg, basePath, recorder);
       default:
-        // Exhaustiveness check - TypeScript ensures all cases covered
-        const _exhaustive: never = msg;
-        return _exhaustive;
+        // Line types the session types do not model (system, summary, progress, ...)
+        return sanitizeGenericMessage(msg as SessionMessage, basePath, policy, recorder);
     }
   });
 }
@@ -57,3 +72,134 @@ export function inferBasePath(messages: SessionMessage[]): string {
   }
   return '';
 }
+
+/**
+ * A likely secret found in the sanitized session output
+ */
+export interface ResidualFinding {
+  /** Bundle file the finding is in (agent-<id>.jsonl); absent for the main session */
+  file?: string;
+  /** 1-based line number in the serialized JSONL */
+  line: number;
+  /** UUID of the message on that line, if it parsed */
+  messageUuid: string | null;
+  /** JSON path of the offending value within the message (e.g. message.content[1].input.command) */
+  path: string;
+  /** Detector that matched */
+  detector: string;
+  /** Masked excerpt of the match */
+  excerpt: string;
+}
+
+/**
+ * Error thrown when likely secrets remain after sanitization
+ *
+ * Carries the structured findings so callers can show or act on each location.
+ */
+export class ResidualSecretsError extends Error {
+  constructor(public readonly findings: ResidualFinding[]) {
+    const shown = findings.slice(0, 10).map(
+      (f) => `  ${f.file ? `${f.file} ` : ''}line ${f.line}${f.messageUuid ? ` (message ${f.messageUuid})` : ''} ${f.path}: ${f.detector} ${f.excerpt}`
+    );
+    const more = findings.length > shown.length ? [`  ...and ${findings.length - shown.length} more`] : [];
+    super(
+      `Refusing to share: ${findings.length} likely secret(s) remain after sanitization.\n` +
+      [...shown, ...more].join('\n') +
+      '\nAdd redaction rules to your policy, or pass allowResidualFindings to share anyway.'
+    );
+    this.name = 'ResidualSecretsError';
+  }
+}
+
+/**
+ * Identifier fields that are high-entropy by design, exempt from the
+ * high-entropy detector: top-level line identifiers, the API message id and
+ * content block ids. Provider patterns are still checked there, and the same
+ * keys inside tool input or output (arbitrary JSON) get no exemption.
+ */
+const CONTENT_ID_PATH = /^message\.(?:id|content\[\d+\]\.(?:id|tool_use_id|signature))$/;
+
+/**
+ * Check whether a JSON path is one of the identifier fields above
+ */
+function isIdentifierPath(path: string): boolean {
+  return LINE_ID_FIELDS.has(path) || CONTENT_ID_PATH.test(path);
+}
+
+/**
+ * Scan serialized session JSONL for secrets that survived sanitization
+ *
+ * Every string value of every line is checked with the residual detectors
+ * (provider prefixes, high entropy). Identifier fields are only checked for
+ * provider prefixes, and image blocks are skipped. Lines that are not valid
+ * JSON are scanned as plain text.
+ *
+ * @param sessionJsonl - Sanitized session serialized as JSONL
+ * @param policy - Optional redaction policy; allowlisted literals are not reported
+ * @returns Findings in line order (empty if nothing suspicious remains)
+ */
+export function scanSanitizedSession(
+  sessionJsonl: string,
+  policy?: RedactionPolicy
+): ResidualFinding[] {
+  const findings: ResidualFinding[] = [];
+  const isAllowed = (match: string) => isAllowlisted(match, policy);
+
+  for (const [index, line] of sessionJsonl.split('\n').entries()) {
+    if (!line.trim()) {
+      continue;
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(line);
+    } catch {
+      for (const { detector, match } of detectSecrets(line, isAllowed)) {
+        findings.push({ line: index + 1, messageUuid: null, path: '', detector, excerpt: maskExcerpt(match) });
+      }
+      continue;
+    }
+
+    const messageUuid =
+      parsed && typeof parsed === 'object' && typeof (parsed as { uuid?: unknown }).uuid === 'string'
+        ? (parsed as { uuid: string }).uuid
+        : null;
+
+    walkStrings(parsed, '', (value, path) => {
+      for (const { detector, match } of detectSecrets(value, isAllowed, !isIdentifierPath(path))) {
+        findings.push({ line: index + 1, messageUuid, path, detector, excerpt: maskExcerpt(match) });
+      }
+    });
+  }
+
+  return findings;
+}
+
+/**
+ * Visit every string in a JSON value with its path, skipping images
+ */
+function walkStrings(
+  value: unknown,
+  path: string,
+  visit: (value: string, path: string) => void
+): void {
+  if (typeof value === 'string') {
+    visit(value, path);
+    return;
+  }
+
+  if (Array.isArray(value)) {
+    value.forEach((item, i) => walkStrings(item, `${path}[${i}]`, visit));
+    return;
+  }
+
+  if (value && typeof value === 'object') {
+    const obj = value as Record<string, unknown>;
+    if (obj.type === 'image') {
+      return;
+    }
+    for (const [key, child] of Object.entries(obj)) {
+      walkStrings(child, path ? `${path}.${key}` : key, visit);
+    }
+  }
+}
@@ -7,63 +7,179 @@
  * - GitHub tokens
  * - AWS credentials
  * - Long base64/hex strings
+ *
+ * Each built-in pattern is a named rule so a redaction policy can disable it,
+ * add custom rules alongside it, or allowlist literals it must never touch.
  */
 
+import type { RedactionPolicy } from './policy.js';
+
 /**
- * Pattern-based secret detection and redaction
+ * A named redaction rule
  *
- * Philosophy: Better to redact too much (false positive) than leak secrets (false negative)
+ * `replace` receives the same arguments as a String.prototype.replace callback
+ * (full match followed by capture groups) and returns the redacted text.
+ * `secretGroup` is the capture group holding the secret value (the whole match
+ * if absent); the policy allowlist is compared with it.
  */
-export function redactSecrets(content: string): string {
-  if (!content) {
-    return content;
-  }
-
-  let redacted = content;
+export interface RedactionRule {
+  name: string;
+  pattern: RegExp;
+  replace: (match: string, ...groups: string[]) => string;
+  secretGroup?: number;
+}
 
+/**
+ * Built-in redaction rules, applied in order
+ */
+export const BUILTIN_RULES: readonly RedactionRule[] = [
   // Pattern 1: API keys in JSON/object notation
   // Matches: "api_key": "value", "apiKey": "value", "API_KEY": "value"
-  redacted = redacted.replace(
-    /(["']?(?:api[_-]?key|apikey|access[_-]?key|secret[_-]?key|token|access[_-]?token|auth[_-]?token|bearer[_-]?token)["']?\s*[=:]\s*)["']([^"'\s]{8,})["']/gi,
-    '$1"[REDACTED]"'
-  );
+  {
+    name: 'api-key-assignment',
+    pattern:
+      /(["']?(?:api[_-]?key|apikey|access[_-]?key|secret[_-]?key|token|access[_-]?token|auth[_-]?token|bearer[_-]?token)["']?\s*[=:]\s*)["']([^"'\s]{8,})["']/gi,
+    replace: (_match, prefix) => `${prefix}"[REDACTED]"`,
+    secretGroup: 2,
+  },
 
   // Pattern 2: Environment variable format (KEY=value)
   // Matches: API_KEY=abc123, SECRET_TOKEN=xyz789
-  redacted = redacted.replace(
-    /\b([A-Z_]+(?:KEY|TOKEN|SECRET|PASSWORD|AUTH)[A-Z_]*)\s*=\s*([^\s"']{8,})/g,
-    '$1=[REDACTED]'
-  );
+  {
+    name: 'env-variable',
+    pattern: /\b([A-Z_]+(?:KEY|TOKEN|SECRET|PASSWORD|AUTH)[A-Z_]*)\s*=\s*([^\s"']{8,})/g,
+    replace: (_match, key) => `${key}=[REDACTED]`,
+    secretGroup: 2,
+  },
 
   // Pattern 3: GitHub tokens
   // Matches: ghp_, ghs_, github_pat_
-  redacted = redacted.replace(/\b(ghp_|ghs_|github_pat_)[a-zA-Z0-9]{30,}/g, '[REDACTED]');
+  {
+    name: 'github-token',
+    pattern: /\b(ghp_|ghs_|github_pat_)[a-zA-Z0-9]{30,}/g,
+    replace: () => '[REDACTED]',
+  },
 
   // Pattern 4: AWS access keys
   // Matches: AKIA..., aws_secret_access_key with long value
-  redacted = redacted.replace(/\bAKIA[A-Z0-9]{16}\b/g, '[REDACTED]');
-  redacted = redacted.replace(
-    /(aws[_-]?secret[_-]?access[_-]?key\s*[=:]\s*)["']?([^\s"']{20,})["']?/gi,
-    '$1[REDACTED]'
-  );
+  {
+    name: 'aws-access-key',
+    pattern: /\bAKIA[A-Z0-9]{16}\b/g,
+    replace: () => '[REDACTED]',
+  },
+  {
+    name: 'aws-secret-key',
+    pattern: /(aws[_-]?secret[_-]?access[_-]?key\s*[=:]\s*)["']?([^\s"']{20,})["']?/gi,
+    replace: (_match, prefix) => `${prefix}[REDACTED]`,
+    secretGroup: 2,
+  },
 
   // Pattern 5: Generic long strings that look like secrets
   // Base64-like strings (alphanumeric + / + =, 32+ chars)
   // Hex strings (32+ hex chars)
   // Only in value positions (after = or :)
-  redacted = redacted.replace(/([=:]\s*)["']?([A-Za-z0-9+/]{32,}={0,2})["']?/g, (match, prefix, value) => {
-    // Avoid redacting things that look like file paths or normal text
-    if (value.includes('/') && value.split('/').length > 2) {
-      return match; // Likely a file path
-    }
-    return prefix + '[REDACTED]';
-  });
+  {
+    name: 'generic-secret',
+    pattern: /([=:]\s*)["']?([A-Za-z0-9+/]{32,}={0,2})["']?/g,
+    replace: (match, prefix, value) => {
+      // Avoid redacting things that look like file paths or normal text
+      if (value.includes('/') && value.split('/').length > 2) {
+        return match; // Likely a file path
+      }
+      return prefix + '[REDACTED]';
+    },
+    secretGroup: 2,
+  },
 
   // Pattern 6: Private keys (BEGIN PRIVATE KEY)
-  redacted = redacted.replace(
-    /-----BEGIN (?:RSA |EC |OPENSSH )?PRIVATE KEY-----[\s\S]*?-----END (?:RSA |EC |OPENSSH )?PRIVATE KEY-----/g,
-    '[REDACTED PRIVATE KEY]'
-  );
+  {
+    name: 'private-key',
+    pattern:
+      /-----BEGIN (?:RSA |EC |OPENSSH )?PRIVATE KEY-----[\s\S]*?-----END (?:RSA |EC |OPENSSH )?PRIVATE KEY-----/g,
+    replace: () => '[REDACTED PRIVATE KEY]',
+  },
+];
+
+/**
+ * Name of the structural rule that redacts values under secret-looking keys
+ * (see isSensitiveKey). Applied by the sanitizer, not by redactSecrets.
+ */
+export const SENSITIVE_KEY_RULE = 'sensitive-key';
+
+/**
+ * All built-in rule names a policy may refer to
+ */
+export const BUILTIN_RULE_NAMES: readonly string[] = [
+  ...BUILTIN_RULES.map((rule) => rule.name),
+  SENSITIVE_KEY_RULE,
+];
+
+/**
+ * Check whether a secret value is a literal the policy says must never be redacted
+ *
+ * Exact match only: an allowlisted literal inside a longer value, or a key
+ * name next to the value, does not exempt it.
+ */
+export function isAllowlisted(value: string, policy?: RedactionPolicy): boolean {
+  return !!policy && policy.allowlist.includes(value);
+}
+
+/**
+ * Check whether a rule is enabled under the given policy
+ */
+export function isRuleEnabled(name: string, policy?: RedactionPolicy): boolean {
+  return !policy || !policy.disabledRules.includes(name);
+}
+
+/**
+ * Pattern-based secret detection and redaction
+ *
+ * Philosophy: Better to redact too much (false positive) than leak secrets (false negative)
+ *
+ * @param content - Text to redact
+ * @param policy - Optional redaction policy (custom rules, disabled rules, allowlist)
+ * @param onRedact - Optional callback invoked with the rule name and matched text for each redaction
+ */
+export function redactSecrets(
+  content: string,
+  policy?: RedactionPolicy,
+  onRedact?: (rule: string, match: string) => void
+): string {
+  if (!content) {
+    return content;
+  }
+
+  const rules = [
+    ...BUILTIN_RULES.filter((rule) => isRuleEnabled(rule.name, policy)),
+    ...(policy?.customRules ?? []),
+  ];
+
+  let redacted = content;
+
+  for (const rule of rules) {
+    redacted = redacted.replace(rule.pattern, (match: string, ...args: unknown[]) => {
+      const secret = rule.secretGroup ? (args[rule.secretGroup - 1] as string) : match;
+      if (isAllowlisted(secret, policy)) {
+        return match;
+      }
+      const replacement = rule.replace(match, ...(args as string[]));
+      if (onRedact && replacement !== match) {
+        onRedact(rule.name, match);
+      }
+      return replacement;
+    });
+  }
 
   return redacted;
 }
+
+/**
+ * Check whether an object key names a secret value
+ *
+ * Used when walking structured data (tool inputs, JSON payloads) where the
+ * key and value are separate and the string patterns above cannot see both.
+ * Matches: apiKey, api_key, password, client_secret, AUTH_TOKEN, etc.
+ */
+export function isSensitiveKey(key: string): boolean {
+  return /(?:api[_-]?key|access[_-]?key|secret|token(?!s)|password|passwd|credential|private[_-]?key)/i.test(key);
+}
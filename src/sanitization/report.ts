@@ -0,0 +1,131 @@
+/**
+ * Sanitization report collection
+ *
+ * Records what the sanitization pipeline changed so users can review a share
+ * before uploading it:
+ * - Each redaction (message uuid, block index, rule name, masked excerpt)
+ * - Redaction counts per rule
+ * - Absolute paths that were relativized
+ * - Absolute paths left as-is because they were outside basePath
+ */
+
+/**
+ * A single redaction performed during sanitization
+ */
+export interface RedactionFinding {
+  /** UUID of the message containing the redacted text */
+  messageUuid: string;
+  /** Index of the content block (or snapshot entry) within the message, null for message-level fields */
+  blockIndex: number | null;
+  /** Name of the rule that matched */
+  rule: string;
+  /** Masked excerpt of the redacted text (never the full secret) */
+  excerpt: string;
+}
+
+/**
+ * An absolute path rewritten relative to basePath
+ */
+export interface RelativizedPath {
+  original: string;
+  relative: string;
+}
+
+/**
+ * Summary of everything sanitization changed (or deliberately left alone)
+ */
+export interface SanitizationReport {
+  /** Number of redactions per rule name */
+  redactionCounts: Record<string, number>;
+  /** Every redaction, in session order */
+  redactions: RedactionFinding[];
+  /** Unique absolute paths that were relativized */
+  relativizedPaths: RelativizedPath[];
+  /** Unique absolute paths that stayed absolute because they were outside basePath */
+  externalPaths: string[];
+}
+
+/**
+ * Location-scoped sink the sanitizer reports into
+ */
+export interface SanitizationRecorder {
+  /** Record a redaction of `match` by `rule` */
+  redaction(rule: string, match: string): void;
+  /** Record an absolute path rewritten to a relative one */
+  relativizedPath(original: string, relative: string): void;
+  /** Record an absolute path left unchanged because it is outside basePath */
+  externalPath(path: string): void;
+  /** Get a recorder scoped to a content block within the current message */
+  atBlock(index: number): SanitizationRecorder;
+}
+
+/**
+ * Mask a secret for display, keeping only a short prefix
+ *
+ * @example
+ * maskExcerpt('ghp_abcdefghijklmnop') // Returns 'ghp_********'
+ * maskExcerpt('short') // Returns '*****'
+ */
+export function maskExcerpt(text: string): string {
+  const singleLine = text.replace(/\s+/g, ' ');
+  if (singleLine.length <= 8) {
+    return '*'.repeat(singleLine.length);
+  }
+  return singleLine.slice(0, 4) + '*'.repeat(Math.min(singleLine.length - 4, 8));
+}
+
+/**
+ * Collects findings from a full sanitization run
+ *
+ * @example
+ * const reporter = new SanitizationReporter();
+ * const sanitized = sanitizeSession(messages, basePath, policy, reporter);
+ * const report = reporter.toReport();
+ */
+export class SanitizationReporter {
+  private redactions: RedactionFinding[] = [];
+  private relativized = new Map<string, string>();
+  private external = new Set<string>();
+
+  /**
+   * Get a recorder for a message (message-level fields have a null block index)
+   */
+  forMessage(messageUuid: string): SanitizationRecorder {
+    return this.createRecorder(messageUuid, null);
+  }
+
+  /**
+   * Build the report from everything recorded so far
+   */
+  toReport(): SanitizationReport {
+    const redactionCounts: Record<string, number> = {};
+    for (const finding of this.redactions) {
+      redactionCounts[finding.rule] = (redactionCounts[finding.rule] ?? 0) + 1;
+    }
+
+    return {
+      redactionCounts,
+      redactions: [...this.redactions],
+      relativizedPaths: [...this.relativized.entries()].map(([original, relative]) => ({
+        original,
+        relative,
+      })),
+      externalPaths: [...this.external],
+    };
+  }
+
+  private createRecorder(messageUuid: string, blockIndex: number | null): SanitizationRecorder {
+    return {
+      redaction: (rule, match) => {
+        this.redactions.push({ messageUuid, blockIndex, rule, excerpt: maskExcerpt(match) });
+      },
+      relativizedPath: (original, relative) => {
+        this.relativized.set(original, relative);
+      },
+      externalPath: (path) => {
+        this.external.add(path);
+      },
+      atBlock: (index) => this.createRecorder(messageUuid, index),
+    };
+  }
+}
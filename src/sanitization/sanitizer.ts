@@ -4,12 +4,41 @@
  * Removes sensitive data before sharing:
  * - Strips thinking blocks from assistant messages
  * - Sanitizes absolute paths to relative paths
+ * - Redacts secrets in text, tool inputs and tool results
+ * - Sanitizes every string of line types without a dedicated sanitizer
  * - Immutable transformations (returns new objects)
+ *
+ * Every function accepts an optional SanitizationRecorder that is told about
+ * each redaction and path rewrite (used for dry-run share previews).
  */
 
 import * as path from 'node:path';
-import type { AssistantMessage, UserMessage, FileHistorySnapshot } from '../session/types.js';
-import { redactSecrets } from './redactor.js';
+import type {
+  AssistantMessage,
+  UserMessage,
+  FileHistorySnapshot,
+  ContentBlock,
+  SessionMessage,
+} from '../session/types.js';
+import {
+  redactSecrets,
+  isSensitiveKey,
+  isAllowlisted,
+  isRuleEnabled,
+  SENSITIVE_KEY_RULE,
+} from './redactor.js';
+import type { RedactionPolicy } from './policy.js';
+import type { SanitizationRecorder } from './report.js';
+import { LINE_ID_FIELDS } from '../session/references.js';
+
+/**
+ * Settings shared by every helper while sanitizing one message
+ */
+interface SanitizeContext {
+  basePath: string;
+  policy?: RedactionPolicy;
+  recorder?: SanitizationRecorder;
+}
 
 /**
  * Sanitize assistant message by stripping thinking and sanitizing paths in tool results
@@ -17,17 +46,22 @@ import { redactSecrets } from './redactor.js';
  */
 export function sanitizeAssistantMessage(
   msg: AssistantMessage,
-  basePath: string
+  basePath: string,
+  policy?: RedactionPolicy,
+  recorder?: SanitizationRecorder
 ): AssistantMessage {
+  const ctx: SanitizeContext = { basePath, policy, recorder };
+  msg = sanitizeLineCwd(msg, ctx);
+
   // Old format (v1.x): snapshot.messages
   if (msg.snapshot) {
     return {
       ...msg,
       snapshot: {
         thinking: null, // Strip thinking block
-        messages: msg.snapshot.messages.map((m) => ({
+        messages: msg.snapshot.messages.map((m, index) => ({
           ...m,
-          content: redactSecrets(sanitizePathsInContent(m.content, basePath)),
+          content: sanitizeText(m.content, atBlock(ctx, index)),
         })),
       },
     };
@@ -42,17 +76,8 @@ export function sanitizeAssistantMessage(
         content: msg.message.content
           // Filter out thinking blocks entirely
           .filter((block) => block.type !== 'thinking')
-          // Sanitize text in remaining blocks
-          .map((block) => {
-            if (block.type === 'text' && block.text) {
-              return {
-                ...block,
-                text: redactSecrets(sanitizePathsInContent(block.text, basePath)),
-              };
-            }
-            // Preserve tool_use, tool_result, and other block types as-is
-            return block;
-          }),
+          // Sanitize text, tool inputs and tool results in remaining blocks
+          .map((block, index) => sanitizeContentBlock(block, atBlock(ctx, index))),
       },
     };
   }
@@ -62,13 +87,39 @@ export function sanitizeAssistantMessage(
 }
 
 /**
- * Sanitize user message by converting absolute cwd to relative path
+ * Sanitize user message by converting absolute cwd to relative path and
+ * sanitizing prompt text, tool_result blocks and structured tool output
  */
-export function sanitizeUserMessage(msg: UserMessage, basePath: string): UserMessage {
-  return {
+export function sanitizeUserMessage(
+  msg: UserMessage,
+  basePath: string,
+  policy?: RedactionPolicy,
+  recorder?: SanitizationRecorder
+): UserMessage {
+  const ctx: SanitizeContext = { basePath, policy, recorder };
+
+  const sanitized: UserMessage = {
     ...msg,
-    cwd: sanitizePath(msg.cwd, basePath),
+    cwd: sanitizePath(msg.cwd, ctx),
   };
+
+  if (msg.message) {
+    const content = msg.message.content;
+    sanitized.message = {
+      ...msg.message,
+      content: typeof content === 'string'
+        ? sanitizeText(content, ctx)
+        : Array.isArray(content)
+          ? content.map((block, index) => sanitizeContentBlock(block, atBlock(ctx, index)))
+          : content,
+    };
+  }
+
+  if (msg.toolUseResult !== undefined) {
+    sanitized.toolUseResult = sanitizeStructuredValue(msg.toolUseResult, ctx);
+  }
+
+  return sanitized;
 }
 
 /**
@@ -76,24 +127,239 @@ export function sanitizeUserMessage(msg: UserMessage, basePath: string): UserMes
  */
 export function sanitizeFileHistorySnapshot(
   msg: FileHistorySnapshot,
-  basePath: string
+  basePath: string,
+  recorder?: SanitizationRecorder
 ): FileHistorySnapshot {
+  const ctx: SanitizeContext = { basePath, recorder };
+
   return {
-    ...msg,
+    ...sanitizeLineCwd(msg, ctx),
     snapshot: {
       ...msg.snapshot,
-      files: msg.snapshot.files.map((file) => ({
+      files: msg.snapshot.files.map((file, index) => ({
         ...file,
-        path: sanitizePath(file.path, basePath),
+        path: sanitizePath(file.path, atBlock(ctx, index)),
       })),
     },
   };
 }
 
+/**
+ * Sanitize a line of a type without a dedicated sanitizer (system, summary,
+ * progress, ...)
+ *
+ * cwd is relativized and every other string (system content, hook output,
+ * ...) is sanitized like structured tool output. Identifier fields are kept.
+ */
+export function sanitizeGenericMessage<T extends SessionMessage>(
+  msg: T,
+  basePath: string,
+  policy?: RedactionPolicy,
+  recorder?: SanitizationRecorder
+): T {
+  const ctx: SanitizeContext = { basePath, policy, recorder };
+
+  const result: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(sanitizeLineCwd(msg, ctx))) {
+    result[key] = key === 'cwd' || LINE_ID_FIELDS.has(key) ? value : sanitizeStructuredValue(value, ctx);
+  }
+  return result as T;
+}
+
+/**
+ * Relativize the cwd of any line type (Claude Code records it on user,
+ * assistant and system lines alike)
+ */
+function sanitizeLineCwd<T extends object>(msg: T, ctx: SanitizeContext): T {
+  const cwd = (msg as { cwd?: unknown }).cwd;
+  return typeof cwd === 'string' ? { ...msg, cwd: sanitizePath(cwd, ctx) } : msg;
+}
+
+/**
+ * Scope a context's recorder to a content block index
+ */
+function atBlock(ctx: SanitizeContext, index: number): SanitizeContext {
+  return ctx.recorder ? { ...ctx, recorder: ctx.recorder.atBlock(index) } : ctx;
+}
+
+/**
+ * Sanitize a single content block
+ *
+ * - text: paths relativized and secrets redacted
+ * - tool_use: every string inside `input` sanitized (Bash commands, file paths,
+ *   Edit/Write contents, Grep patterns, ...)
+ * - tool_result: `content` sanitized whether it is a string, an array of
+ *   blocks, or a JSON payload
+ * - other block types (image, etc.) preserved as-is
+ */
+function sanitizeContentBlock(block: ContentBlock, ctx: SanitizeContext): ContentBlock {
+  if (block.type === 'text' && block.text) {
+    return {
+      ...block,
+      text: sanitizeText(block.text, ctx),
+    };
+  }
+
+  if (block.type === 'tool_use' && block.input !== undefined) {
+    return {
+      ...block,
+      input: sanitizeStructuredValue(block.input, ctx),
+    };
+  }
+
+  if (block.type === 'tool_result' && block.content !== undefined) {
+    return {
+      ...block,
+      content: sanitizeStructuredValue(block.content, ctx),
+    };
+  }
+
+  return block;
+}
+
+/**
+ * Recursively sanitize an arbitrary JSON value
+ *
+ * Strings are path-sanitized and redacted (JSON encoded strings are searched
+ * for key/value secrets, see sanitizeStringValue), arrays and objects are
+ * walked, and string values under secret-looking keys are redacted outright.
+ * Image blocks are skipped so base64 payloads are not mangled.
+ */
+function sanitizeStructuredValue(value: unknown, ctx: SanitizeContext): unknown {
+  if (typeof value === 'string') {
+    return sanitizeStringValue(value, ctx);
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item) => sanitizeStructuredValue(item, ctx));
+  }
+
+  if (value && typeof value === 'object') {
+    const obj = value as Record<string, unknown>;
+    if (obj.type === 'image') {
+      return obj;
+    }
+
+    const result: Record<string, unknown> = {};
+    for (const [key, child] of Object.entries(obj)) {
+      if (isSensitiveValue(key, child, ctx.policy)) {
+        ctx.recorder?.redaction(SENSITIVE_KEY_RULE, child);
+        result[key] = '[REDACTED]';
+      } else {
+        result[key] = sanitizeStructuredValue(child, ctx);
+      }
+    }
+    return result;
+  }
+
+  // Numbers, booleans, null
+  return value;
+}
+
+/**
+ * Sanitize a string value that may hold JSON
+ *
+ * The string is never re-serialized: tool inputs such as Edit old_string or a
+ * Write of a JSON file must stay byte-identical unless something is redacted.
+ * JSON is parsed only to find values under secret-looking keys; those values
+ * are then replaced in the original text before the usual text sanitization.
+ */
+function sanitizeStringValue(value: string, ctx: SanitizeContext): string {
+  let result = value;
+  for (const literal of findSensitiveJsonLiterals(value, ctx.policy)) {
+    if (result.includes(literal.encoded)) {
+      ctx.recorder?.redaction(SENSITIVE_KEY_RULE, literal.value);
+      result = result.split(literal.encoded).join(literal.redacted);
+    }
+  }
+
+  return sanitizeText(result, ctx);
+}
+
+/**
+ * Find the values under secret-looking keys in text holding JSON, as they
+ * appear in that text (JSON string literals, escaped again for JSON nested
+ * inside string values)
+ */
+function findSensitiveJsonLiterals(
+  text: string,
+  policy?: RedactionPolicy,
+  encode: (literal: string) => string = (literal) => literal
+): Array<{ value: string; encoded: string; redacted: string }> {
+  const trimmed = text.trim();
+  if (!trimmed.startsWith('{') && !trimmed.startsWith('[')) {
+    return [];
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(trimmed);
+  } catch {
+    return [];
+  }
+
+  const literals: Array<{ value: string; encoded: string; redacted: string }> = [];
+  const nestedEncode = (literal: string) => encode(JSON.stringify(literal).slice(1, -1));
+  const walk = (node: unknown) => {
+    if (typeof node === 'string') {
+      literals.push(...findSensitiveJsonLiterals(node, policy, nestedEncode));
+    } else if (Array.isArray(node)) {
+      node.forEach(walk);
+    } else if (node && typeof node === 'object') {
+      const obj = node as Record<string, unknown>;
+      if (obj.type === 'image') {
+        return;
+      }
+      for (const [key, child] of Object.entries(obj)) {
+        if (isSensitiveValue(key, child, policy)) {
+          literals.push({
+            value: child,
+            encoded: encode(JSON.stringify(child)),
+            redacted: encode(JSON.stringify('[REDACTED]')),
+          });
+        } else {
+          walk(child);
+        }
+      }
+    }
+  };
+  walk(parsed);
+
+  return literals;
+}
+
+/**
+ * Sanitize plain text: relativize paths, then redact secrets
+ */
+function sanitizeText(content: string, ctx: SanitizeContext): string {
+  const recorder = ctx.recorder;
+  return redactSecrets(
+    sanitizePathsInContent(content, ctx),
+    ctx.policy,
+    recorder ? (rule, match) => recorder.redaction(rule, match) : undefined
+  );
+}
+
+/**
+ * Check whether a structured value sits under a secret-looking key and should
+ * be redacted outright (subject to the policy's disabled rules and allowlist)
+ */
+function isSensitiveValue(key: string, value: unknown, policy?: RedactionPolicy): value is string {
+  return (
+    typeof value === 'string' &&
+    value.length >= 8 &&
+    isSensitiveKey(key) &&
+    isRuleEnabled(SENSITIVE_KEY_RULE, policy) &&
+    !isAllowlisted(value, policy)
+  );
+}
+
 /**
  * Sanitize a single path: convert absolute to relative if within basePath
  */
-function sanitizePath(absolutePath: string, basePath: string): string {
+function sanitizePath(absolutePath: string, ctx: SanitizeContext): string {
+  const { basePath, recorder } = ctx;
+
   if (!basePath || !absolutePath) {
     return absolutePath;
   }
@@ -105,18 +371,26 @@ function sanitizePath(absolutePath: string, basePath: string): string {
   // Check if path is within basePath
   if (normalizedPath.startsWith(normalizedBase)) {
     const relativePath = path.relative(normalizedBase, normalizedPath);
+    if (recorder && path.isAbsolute(absolutePath)) {
+      recorder.relativizedPath(absolutePath, relativePath || '.');
+    }
     // Avoid returning empty string for basePath itself
     return relativePath || '.';
   }
 
   // External path - return as-is
+  if (recorder && path.isAbsolute(absolutePath)) {
+    recorder.externalPath(absolutePath);
+  }
   return absolutePath;
 }
 
 /**
  * Sanitize paths found in text content (tool results, etc.)
  */
-function sanitizePathsInContent(content: string, basePath: string): string {
+function sanitizePathsInContent(content: string, ctx: SanitizeContext): string {
+  const { basePath, recorder } = ctx;
+
   if (!basePath || !content) {
     return content;
   }
@@ -132,7 +406,22 @@ function sanitizePathsInContent(content: string, basePath: string): string {
   // Match absolute paths starting with base (both forward and backslashes)
   const pathRegex = new RegExp(escapedBase.replace(/\\/g, '[\\\\/]') + '[\\\\/][^\\s"\'<>|]*', 'g');
 
-  return content.replace(pathRegex, (match) => {
-    return sanitizePath(match, basePath);
+  const sanitized = content.replace(pathRegex, (match) => {
+    return sanitizePath(match, ctx);
   });
+
+  // Report absolute paths that survived because they are outside basePath
+  if (recorder) {
+    for (const match of sanitized.matchAll(EXTERNAL_PATH_PATTERN)) {
+      recorder.externalPath(match[0]);
+    }
+  }
+
+  return sanitized;
 }
+
+/**
+ * Absolute POSIX-style paths with at least two segments, not part of a URL
+ * (used only for reporting paths left absolute)
+ */
+const EXTERNAL_PATH_PATTERN = /(?<![\w.:/~-])(?:\/[\w.@+-]+){2,}/g;
@@ -0,0 +1,176 @@
+/**
+ * Residual secret detection for sanitized sessions
+ *
+ * A second line of defense after redactSecrets: scans string values with a
+ * broader detector set than the redaction rules so secrets that slipped
+ * through can block the share instead of being uploaded.
+ * - Known provider prefixes (Anthropic, OpenAI, Slack, Google, GitHub, GitLab,
+ *   AWS, Stripe, npm, Hugging Face)
+ * - JWTs, private key headers, credentials embedded in URLs
+ * - High-entropy tokens
+ */
+
+/**
+ * A pattern-based residual secret detector
+ */
+export interface SecretDetector {
+  name: string;
+  pattern: RegExp;
+}
+
+/**
+ * Detectors for well-known credential formats
+ */
+export const PROVIDER_DETECTORS: readonly SecretDetector[] = [
+  { name: 'anthropic-api-key', pattern: /\bsk-ant-[A-Za-z0-9_-]{20,}/g },
+  { name: 'openai-api-key', pattern: /\bsk-(?!ant-)(?:proj-)?[A-Za-z0-9_-]{20,}/g },
+  { name: 'slack-token', pattern: /\bxox[abposr]-[A-Za-z0-9-]{10,}/g },
+  { name: 'google-api-key', pattern: /\bAIza[0-9A-Za-z_-]{35}\b/g },
+  { name: 'github-token', pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})/g },
+  { name: 'gitlab-token', pattern: /\bglpat-[A-Za-z0-9_-]{20,}/g },
+  { name: 'aws-access-key', pattern: /\b(?:AKIA|ASIA)[A-Z0-9]{16}\b/g },
+  { name: 'stripe-key', pattern: /\b[rs]k_(?:live|test)_[A-Za-z0-9]{16,}/g },
+  { name: 'npm-token', pattern: /\bnpm_[A-Za-z0-9]{36}\b/g },
+  { name: 'huggingface-token', pattern: /\bhf_[A-Za-z0-9]{30,}/g },
+  { name: 'jwt', pattern: /\beyJ[A-Za-z0-9_-]{10,}\.eyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}/g },
+  { name: 'private-key', pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----/g },
+  { name: 'url-credentials', pattern: /\b[a-z][a-z0-9+.-]*:\/\/[^\s:/@"']+:[^\s/@"']{3,}@/gi },
+];
+
+/**
+ * Name reported for high-entropy token findings
+ */
+export const HIGH_ENTROPY_DETECTOR = 'high-entropy';
+
+/**
+ * Candidate tokens for entropy analysis: long runs of base64/base62-ish characters
+ */
+const ENTROPY_CANDIDATE = /[A-Za-z0-9+/_-]{32,}={0,2}/g;
+
+/**
+ * Minimum Shannon entropy (bits per character) for a candidate to count as a secret
+ */
+const ENTROPY_THRESHOLD = 4.2;
+
+/**
+ * High-entropy tokens that are identifiers by shape: API message and tool call
+ * ids (toolu_..., msg_...) and Subresource Integrity hashes in lockfiles (sha512-...)
+ */
+const IDENTIFIER_TOKEN_PATTERNS: readonly RegExp[] = [
+  /^(?:toolu|srvtoolu|msg|req)_[A-Za-z0-9]+$/,
+  /^sha(?:256|384|512)-[A-Za-z0-9+/]+={0,2}$/,
+];
+
+/**
+ * Segments of camelCase, PascalCase and snake_case names: words, acronyms and
+ * short numbers (versions, years)
+ */
+const IDENTIFIER_SEGMENT = /[A-Z]?[a-z]{2,}|[A-Z]{2,}(?![a-z])|[0-9]{1,4}|[_-]/g;
+
+/**
+ * A secret-like match found in text
+ */
+export interface SecretMatch {
+  detector: string;
+  match: string;
+}
+
+/**
+ * Calculate Shannon entropy of a string in bits per character
+ */
+export function shannonEntropy(value: string): number {
+  if (!value) {
+    return 0;
+  }
+
+  const counts = new Map<string, number>();
+  for (const char of value) {
+    counts.set(char, (counts.get(char) ?? 0) + 1);
+  }
+
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const p = count / value.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+}
+
+/**
+ * Check whether a token looks like a random secret rather than an identifier or path
+ */
+function isHighEntropyToken(token: string): boolean {
+  // Paths like src/components/foo are not secrets
+  if (token.split('/').length > 2) {
+    return false;
+  }
+  // Require mixed character classes: random keys have upper, lower and digits
+  if (!/[a-z]/.test(token) || !/[A-Z]/.test(token) || !/[0-9]/.test(token)) {
+    return false;
+  }
+  if (IDENTIFIER_TOKEN_PATTERNS.some((pattern) => pattern.test(token)) || isWordRun(token)) {
+    return false;
+  }
+  return shannonEntropy(token) >= ENTROPY_THRESHOLD;
+}
+
+/**
+ * Check whether a token is made entirely of words, acronyms and short numbers,
+ * like useQueryClientProviderWithDefaults2024Config
+ */
+function isWordRun(token: string): boolean {
+  return token.replace(IDENTIFIER_SEGMENT, '') === '';
+}
+
+/**
+ * Detect secret-like substrings in text
+ *
+ * @param text - Text to scan
+ * @param isAllowed - Optional predicate for matches that must not be reported (e.g. policy allowlist)
+ * @param highEntropy - Whether to run the high-entropy detector (off for values that are
+ *   random identifiers by design); provider patterns always run
+ * @returns Every provider-pattern and high-entropy match, in detector order
+ *
+ * @example
+ * detectSecrets('key: sk-ant-REDACTED')
+ * // Returns: [{ detector: 'anthropic-api-key', match: 'sk-ant-REDACTED' }]
+ */
+export function detectSecrets(
+  text: string,
+  isAllowed?: (match: string) => boolean,
+  highEntropy = true
+): SecretMatch[] {
+  if (!text) {
+    return [];
+  }
+
+  const matches: SecretMatch[] = [];
+  const seen = new Set<string>();
+
+  const add = (detector: string, match: string) => {
+    if (seen.has(match) || isAllowed?.(match)) {
+      return;
+    }
+    seen.add(match);
+    matches.push({ detector, match });
+  };
+
+  for (const detector of PROVIDER_DETECTORS) {
+    for (const found of text.matchAll(detector.pattern)) {
+      add(detector.name, found[0]);
+    }
+  }
+
+  for (const found of highEntropy ? text.matchAll(ENTROPY_CANDIDATE) : []) {
+    const token = found[0];
+    // Skip tokens already reported by a provider detector
+    if ([...seen].some((match) => match.includes(token) || token.includes(match))) {
+      continue;
+    }
+    if (isHighEntropyToken(token)) {
+      add(HIGH_ENTROPY_DETECTOR, token);
+    }
+  }
+
+  return matches;
+}
@@ -1,66 +1,182 @@
 /**
  * Session import service
  *
- * Orchestrates the complete workflow of importing a Claude Code session from GitHub Gist:
- * 1. Fetch gist content
- * 2. Extract session JSONL
+ * Orchestrates the complete workflow of importing a shared Claude Code session
+ * (GitHub Gist by default; the backend is picked from the URL, see backends/registry):
+ * 1. Fetch share content (decrypting encrypted shares, verifying declared content hashes,
+ *    reassembling chunked files)
+ * 2. Extract session JSONL and agent sidechain files
  * 3. Parse messages with error recovery
- * 4. Remap UUIDs to avoid conflicts
- * 5. Write to local storage
+ * 4. Remap UUIDs to avoid conflicts (consistently across the session and its agent files)
+ *    and rebase sanitized paths onto the target project (see session/path-rebase)
+ * 5. Write to local storage (skipping or overwriting an earlier import of the same share)
+ *    and record the import in the import index and the ledger
  */
 
+import { access, rm } from 'fs/promises';
 import { join } from 'path';
-import { GistClient } from '../gist/client.js';
+import { resolveShareBackend } from '../backends/registry.js';
 import { UUIDMapper } from '../utils/uuid-mapper.js';
-import { writeSessionToLocal } from '../session/writer.js';
-import type { SessionMessage, UserMessage } from '../session/types.js';
+import { findDanglingReferences, type DanglingReference } from '../session/references.js';
+import { writeSessionToLocal, writeAgentSessionToLocal } from '../session/writer.js';
+import { decryptBundle, isEncryptedBundle, DecryptionError } from '../encryption/envelope.js';
+import { loadIdentity } from '../encryption/identity.js';
+import { appendLedgerEntry, hashContent } from '../shares/ledger.js';
+import { isExpired, ShareExpiredError } from '../shares/expiry.js';
+import { reassembleChunks } from '../shares/chunking.js';
+import { findImports, recordImport, type ImportRecord } from '../shares/imports.js';
+import { getSessionDirectory } from '../utils/path-encoding.js';
+import { normalizePathMappings, rebaseSessionPaths } from '../session/path-rebase.js';
+import type { StoredShare } from '../backends/types.js';
+import type { SessionMessage } from '../session/types.js';
+import type { SessionMetadata } from '../session/metadata.js';
 
 /**
- * Restore absolute cwd path for user messages
+ * Read a bundle's metadata.json
  *
- * During export, cwd paths are sanitized to relative paths for privacy.
- * During import, we need to restore them to absolute paths so Claude Code
- * can properly associate the session with the project.
+ * Missing or unreadable metadata yields an empty object: such shares never
+ * expire and are not hash-checked.
+ */
+function readBundleMetadata(files: Record<string, string>): Partial<SessionMetadata> {
+  try {
+    const metadata = JSON.parse(files['metadata.json'] ?? '{}');
+    return metadata && typeof metadata === 'object' ? metadata : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Check bundle files against the content hashes the uploader declared in metadata.json
+ *
+ * Catches files that were truncated or altered between upload and import.
  *
- * @param message - Session message to process
- * @param projectPath - Absolute project path to use as base
- * @returns Message with restored cwd (if applicable)
+ * @throws Error naming the first missing or mismatching file
  */
-function restoreAbsoluteCwd<T extends SessionMessage>(
-  message: T,
-  projectPath: string
-): T {
-  if (message.type !== 'user') {
-    return message;
+function verifyContentHashes(files: Record<string, string>, metadata: Partial<SessionMetadata>): void {
+  const hashes = metadata.contentHashes;
+  if (!hashes || typeof hashes !== 'object') {
+    return;
   }
 
-  const userMsg = message as UserMessage;
+  for (const [filename, expected] of Object.entries(hashes)) {
+    if (!(filename in files)) {
+      throw new Error(`${filename} is listed in metadata.json but missing from the share.`);
+    }
+    const actual = hashContent(files[filename]);
+    if (actual !== expected) {
+      throw new Error(
+        `${filename} does not match the content hash in metadata.json (expected ${expected}, got ${actual}). ` +
+        'The share is incomplete or was modified after upload.'
+      );
+    }
+  }
+}
 
-  // Handle missing or undefined cwd
-  if (!userMsg.cwd) {
-    return {
-      ...message,
-      cwd: projectPath,
-    } as T;
+/**
+ * Agent sidechain files in a bundle: agent-<agentId>.jsonl
+ */
+const AGENT_FILE_PATTERN = /^agent-([\w-]+)\.jsonl$/;
+
+/**
+ * Parse JSONL messages, skipping (and logging) lines that are not valid JSON
+ *
+ * @param content - JSONL text
+ * @param label - File name for log messages (omitted for the main session)
+ */
+function parseJsonlMessages(
+  content: string,
+  label?: string
+): { messages: SessionMessage[]; parseErrors: number } {
+  const messages: SessionMessage[] = [];
+  const lines = content.split('\n').filter((line) => line.trim());
+  let parseErrors = 0;
+
+  for (const [index, line] of lines.entries()) {
+    try {
+      messages.push(JSON.parse(line) as SessionMessage);
+    } catch (error) {
+      // Log error but continue parsing remaining lines
+      parseErrors++;
+      console.warn(
+        `Failed to parse message at line ${index + 1}${label ? ` of ${label}` : ''}: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
   }
 
-  let absoluteCwd: string;
-
-  if (userMsg.cwd === '.') {
-    // Root of project
-    absoluteCwd = projectPath;
-  } else if (userMsg.cwd.startsWith('/')) {
-    // Already absolute (external path), leave unchanged
-    absoluteCwd = userMsg.cwd;
-  } else {
-    // Relative path - combine with project path
-    absoluteCwd = join(projectPath, userMsg.cwd);
+  return { messages, parseErrors };
+}
+
+/**
+ * Find the latest earlier import of a share (revision) into a project whose session file still exists
+ */
+async function findPreviousImport(
+  backend: string,
+  shareId: string,
+  projectPath: string,
+  revision?: string
+): Promise<{ sessionPath: string; record: ImportRecord } | null> {
+  for (const entry of await findImports(backend, shareId, projectPath, revision)) {
+    try {
+      await access(entry.sessionPath);
+      return entry;
+    } catch {
+      // Deleted since; import as if it never happened
+    }
+  }
+  return null;
+}
+
+/**
+ * Collect what a dry-run import reports about the session content
+ */
+function summarizeMessages(
+  messages: SessionMessage[]
+): Pick<ImportPreview, 'messageCount' | 'firstTimestamp' | 'lastTimestamp' | 'models' | 'toolUses' | 'firstUserPrompt'> {
+  const timestamps = messages
+    .map((msg) => msg.timestamp)
+    .filter((timestamp) => typeof timestamp === 'string' && !Number.isNaN(Date.parse(timestamp)))
+    .sort((a, b) => Date.parse(a) - Date.parse(b));
+  const models = new Set<string>();
+  const toolUses: Record<string, number> = {};
+  let firstUserPrompt: string | null = null;
+
+  for (const msg of messages) {
+    if (msg.type === 'assistant' && msg.message) {
+      if (msg.message.model) {
+        models.add(msg.message.model);
+      }
+      for (const block of Array.isArray(msg.message.content) ? msg.message.content : []) {
+        if (block.type === 'tool_use' && typeof block.name === 'string') {
+          toolUses[block.name] = (toolUses[block.name] ?? 0) + 1;
+        }
+      }
+    }
+
+    if (firstUserPrompt === null && msg.type === 'user' && !msg.isMeta) {
+      // Tool results are recorded as user messages too; only typed prompts count
+      const content = msg.message?.content;
+      const text = typeof content === 'string'
+        ? content
+        : Array.isArray(content) && !content.some((block) => block.type === 'tool_result')
+          ? content.find((block) => block.type === 'text' && typeof block.text === 'string')?.text
+          : undefined;
+      if (text?.trim()) {
+        firstUserPrompt = text;
+      }
+    }
   }
 
   return {
-    ...message,
-    cwd: absoluteCwd,
-  } as T;
+    messageCount: messages.length,
+    firstTimestamp: timestamps[0] ?? null,
+    lastTimestamp: timestamps[timestamps.length - 1] ?? null,
+    models: [...models],
+    toolUses,
+    firstUserPrompt,
+  };
 }
 
 /**
@@ -75,39 +191,184 @@ export interface ImportResult {
   messageCount: number;
   /** Project path where session was imported */
   projectPath: string;
+  /** Agent sidechain files written next to the session */
+  agentSessionPaths: string[];
+  /** Whether a new session was created, an earlier import overwritten, or the import skipped */
+  status: 'created' | 'overwritten' | 'skipped';
+  /** For skipped imports: whether the share changed since it was imported */
+  shareChanged?: boolean;
+  /** References in the share (session and agent files) that do not resolve */
+  danglingReferences: DanglingReference[];
+}
+
+/**
+ * What to do when the share was already imported into the project
+ * - skip: keep the earlier import and return it
+ * - overwrite: replace the earlier import, keeping its session ID
+ * - copy: import again as an independent session
+ */
+export type ImportConflictMode = 'skip' | 'overwrite' | 'copy';
+
+/**
+ * Result of a dry-run import: what the share contains and where it would go
+ */
+export interface ImportPreview {
+  /** Share description */
+  title: string;
+  /** Share URL */
+  url: string;
+  /** Whether the share was end-to-end encrypted */
+  encrypted: boolean;
+  /** Declared expiry (ISO timestamp), or null if the share never expires */
+  expiresAt: string | null;
+  /** Number of messages that would be imported */
+  messageCount: number;
+  /** Earliest message timestamp (null if no message has one) */
+  firstTimestamp: string | null;
+  /** Latest message timestamp (null if no message has one) */
+  lastTimestamp: string | null;
+  /** Models that produced the assistant messages */
+  models: string[];
+  /** Tool invocations per tool name */
+  toolUses: Record<string, number>;
+  /** Text of the first user prompt (null if there is none) */
+  firstUserPrompt: string | null;
+  /** Lines that could not be parsed, in the session and its agent files */
+  parseErrors: number;
+  /** Agent sidechain files that would be written next to the session */
+  agentFiles: string[];
+  /** References in the share (session and agent files) that do not resolve */
+  danglingReferences: DanglingReference[];
+  /** Directory the session would be written to (the file is named after the new session ID) */
+  targetDirectory: string;
+  /** Exact session file that would be written (deterministic UUIDs, or overwriting an earlier import) */
+  targetPath?: string;
+  /** Earlier import of this share (revision) into the project whose session file still exists, or null */
+  previousImport: PreviousImport | null;
+}
+
+/**
+ * Earlier import found by a dry run, and what the import would do about it
+ */
+export interface PreviousImport {
+  /** Session file of the earlier import */
+  sessionPath: string;
+  /** Session ID assigned by the earlier import */
+  sessionId: string;
+  /** ISO timestamp of the earlier import */
+  importedAt: string;
+  /** Whether the share changed since it was imported */
+  shareChanged: boolean;
+  /** The onConflict mode the import would apply: skip it, overwrite it or import a copy */
+  onConflict: ImportConflictMode;
 }
 
 /**
- * Import a session from GitHub Gist
+ * Options for importing a session
+ */
+export interface ImportOptions {
+  /** Fetch, decrypt and parse the share, and return an ImportPreview instead of writing it */
+  dryRun?: boolean;
+  /** Passphrase for shares encrypted with one */
+  passphrase?: string;
+  /** Identity file holding the private key (defaults to ~/.claude-session-share/identity.pem) */
+  identityPath?: string;
+  /** Revision to import instead of the latest one (gist revision SHA); overrides a revision in the URL */
+  revision?: string;
+  /** What to do if this share was already imported into the project (default 'skip') */
+  onConflict?: ImportConflictMode;
+  /**
+   * How new UUIDs are chosen (default 'random'). 'deterministic' derives them
+   * from the share and the original UUIDs, so every import of a share gets the same IDs
+   */
+  uuids?: 'random' | 'deterministic';
+  /**
+   * Namespace name for deterministic UUIDs (implies deterministic; defaults to
+   * "<backend>:<share ID>", plus "@<revision>" when a revision is pinned)
+   */
+  uuidNamespace?: string;
+  /** Relative prefix mappings applied to shared paths before rebasing them, e.g. { 'packages/api': 'services/api' } */
+  pathMappings?: Record<string, string>;
+}
+
+/**
+ * Import a shared session
  *
- * Fetches a shared session gist, remaps UUIDs, and writes to local storage.
+ * Fetches a shared session (gist by default), remaps UUIDs, and writes to local storage.
  * Includes error recovery for malformed messages (logs and continues).
+ * With `dryRun`, runs the same checks but returns an ImportPreview without writing.
  *
- * @param gistIdOrUrl - GitHub Gist URL or bare gist ID
+ * @param gistIdOrUrl - Share URL (e.g. GitHub Gist URL) or bare identifier
  * @param projectPath - Local project directory path (e.g., "/Users/name/project")
- * @returns Promise resolving to import result with session path and metadata
- * @throws Error if gist not found, no JSONL file, or write fails
+ * @param options - Decryption keys for encrypted shares, revision to import, onConflict, UUID mode, path mappings, dryRun
+ * @returns Promise resolving to import result with session path and metadata, or an ImportPreview for dry runs
+ * @throws {DecryptionError} If the share is encrypted and no key, or the wrong key, is available
+ * @throws {ShareExpiredError} If the share declares an expiry that has passed
+ * @throws Error if share not found, files do not match their declared hashes, no JSONL file, or write fails
  *
  * @example
  * const result = await importSession('https://gist.github.com/user/abc123', '/Users/name/project');
  * console.log(`Imported ${result.messageCount} messages to ${result.sessionPath}`);
+ *
+ * const preview = await importSession(url, '/Users/name/project', { dryRun: true });
+ * console.log(preview.firstUserPrompt, preview.toolUses);
  */
+export async function importSession(gistIdOrUrl: string, projectPath: string, options?: ImportOptions & { dryRun?: false }): Promise<ImportResult>;
+export async function importSession(gistIdOrUrl: string, projectPath: string, options: ImportOptions & { dryRun: true }): Promise<ImportPreview>;
+export async function importSession(gistIdOrUrl: string, projectPath: string, options?: ImportOptions): Promise<ImportResult | ImportPreview>;
 export async function importSession(
   gistIdOrUrl: string,
-  projectPath: string
-): Promise<ImportResult> {
+  projectPath: string,
+  options: ImportOptions = {}
+): Promise<ImportResult | ImportPreview> {
   try {
-    // Step 1: Initialize GistClient (validates GITHUB_TOKEN)
-    const gistClient = new GistClient();
+    const deterministic = options.uuids === 'deterministic' || options.uuidNamespace !== undefined;
+    if (deterministic && options.onConflict === 'copy') {
+      throw new Error("onConflict 'copy' cannot be used with deterministic UUIDs: the copy would get the session ID of the earlier import.");
+    }
 
-    // Step 2: Fetch gist content
-    const gist = await gistClient.fetchGist(gistIdOrUrl);
+    const pathMappings = options.pathMappings ? normalizePathMappings(options.pathMappings) : undefined;
 
-    // Step 3: Extract session JSONL file
-    // Look for file with .jsonl extension
-    const jsonlFileName = Object.keys(gist.files).find((name) =>
-      name.endsWith('.jsonl')
-    );
+    // Step 1: Pick the backend for this URL (validates credentials, e.g. GITHUB_TOKEN)
+    const backend = resolveShareBackend(gistIdOrUrl);
+
+    // Step 2: Fetch share content (a specific revision if requested)
+    let share: StoredShare;
+    if (options.revision) {
+      if (!backend.fetchRevision) {
+        throw new Error(`The ${backend.name} share backend does not keep revisions; omit revision to import the current share.`);
+      }
+      share = await backend.fetchRevision(gistIdOrUrl, options.revision);
+    } else {
+      share = await backend.fetch(gistIdOrUrl);
+    }
+    let files = share.files;
+
+    // Encrypted shares hold only an envelope; decrypt with passphrase or local identity
+    const encrypted = isEncryptedBundle(files);
+    if (encrypted) {
+      const identity = await loadIdentity(options.identityPath);
+      files = await decryptBundle(files, {
+        passphrase: options.passphrase,
+        privateKey: identity?.privateKey,
+      });
+    }
+
+    // Refuse shares past their declared expiry (metadata.json is inside the envelope for encrypted shares)
+    const metadata = readBundleMetadata(files);
+    const expiresAt = typeof metadata.expiresAt === 'string' ? metadata.expiresAt : undefined;
+    if (expiresAt && isExpired(expiresAt)) {
+      throw new ShareExpiredError(`Share expired on ${expiresAt} and can no longer be imported.`, expiresAt);
+    }
+
+    // Refuse partial or altered files rather than importing a broken session
+    verifyContentHashes(files, metadata);
+    files = await reassembleChunks(files, metadata.chunks);
+
+    // Step 3: Extract session JSONL file (agent-<id>.jsonl files are sidechains of it)
+    const jsonlFileName = 'session.jsonl' in files
+      ? 'session.jsonl'
+      : Object.keys(files).find((name) => name.endsWith('.jsonl') && !AGENT_FILE_PATTERN.test(name));
 
     if (!jsonlFileName) {
       throw new Error(
@@ -115,34 +376,15 @@ export async function importSession(
       );
     }
 
-    const jsonlFile = gist.files[jsonlFileName];
-    if (!jsonlFile || !jsonlFile.content) {
+    const jsonlContent = files[jsonlFileName];
+    if (!jsonlContent) {
       throw new Error(
         `JSONL file "${jsonlFileName}" has no content. The gist may be malformed.`
       );
     }
 
-    const jsonlContent = jsonlFile.content;
-
     // Step 4: Parse messages with per-line error recovery
-    const messages: SessionMessage[] = [];
-    const lines = jsonlContent.split('\n').filter((line) => line.trim());
-    let parseErrors = 0;
-
-    for (const [index, line] of lines.entries()) {
-      try {
-        const message = JSON.parse(line) as SessionMessage;
-        messages.push(message);
-      } catch (error) {
-        // Log error but continue parsing remaining lines
-        parseErrors++;
-        console.warn(
-          `Failed to parse message at line ${index + 1}: ${
-            error instanceof Error ? error.message : String(error)
-          }`
-        );
-      }
-    }
+    const { messages, parseErrors } = parseJsonlMessages(jsonlContent);
 
     if (messages.length === 0) {
       throw new Error(
@@ -157,28 +399,182 @@ export async function importSession(
       );
     }
 
-    // Step 5: Remap UUIDs to avoid conflicts
-    const mapper = new UUIDMapper();
+    const agentSessions: Array<{ agentId: string; messages: SessionMessage[] }> = [];
+    let agentParseErrors = 0;
+    for (const [filename, content] of Object.entries(files)) {
+      const agentId = filename.match(AGENT_FILE_PATTERN)?.[1];
+      if (!agentId) {
+        continue;
+      }
+      const agent = parseJsonlMessages(content, filename);
+      agentParseErrors += agent.parseErrors;
+      if (agent.messages.length === 0) {
+        console.warn(`Skipping agent file ${filename}: no valid messages`);
+        continue;
+      }
+      agentSessions.push({ agentId, messages: agent.messages });
+    }
+
+    // Validate cross-references (parentUuid, leafUuid, tool_use ids, ...) across all files
+    const danglingReferences = findDanglingReferences([
+      ...messages,
+      ...agentSessions.flatMap((agent) => agent.messages),
+    ]);
+
+    // Summary lines come first in continued sessions and carry no sessionId
+    const sourceSessionId = messages.find((msg) => typeof msg.sessionId === 'string')?.sessionId;
+    if (!sourceSessionId) {
+      throw new Error('No message in the JSONL file has a sessionId. The share is not a Claude Code session.');
+    }
+
+    // One mapper for the main and agent files, so sidechains keep pointing at the remapped session
+    // Each pinned revision gets its own namespace, so it does not collide with the latest version
+    const defaultNamespace = `${backend.name}:${share.id}${share.revision ? `@${share.revision}` : ''}`;
+    const mapper = new UUIDMapper(
+      deterministic ? { namespace: options.uuidNamespace ?? defaultNamespace } : {}
+    );
+
+    // Step 5: Look for an earlier import of this share into the same project
+    // (copies ignore it, but dry runs still report it)
+    const contentHash = hashContent(jsonlContent);
+    const onConflict = options.onConflict ?? 'skip';
+    const previous = onConflict === 'copy' && !options.dryRun
+      ? null
+      : await findPreviousImport(backend.name, share.id, projectPath, share.revision);
+
+    // Dry run: describe what would be imported without writing anything
+    if (options.dryRun) {
+      // An overwrite keeps the file of the earlier import; new files are named after the new session ID
+      const targetPath = previous && onConflict === 'overwrite'
+        ? previous.sessionPath
+        : mapper.deterministic
+          ? join(getSessionDirectory(projectPath), `${mapper.remap(sourceSessionId)}.jsonl`)
+          : undefined;
+      return {
+        ...summarizeMessages(messages),
+        title: share.description,
+        url: share.url,
+        encrypted,
+        expiresAt: expiresAt ?? null,
+        parseErrors: parseErrors + agentParseErrors,
+        agentFiles: agentSessions.map((agent) => `agent-${agent.agentId}.jsonl`),
+        danglingReferences,
+        targetDirectory: getSessionDirectory(projectPath),
+        ...(targetPath ? { targetPath } : {}),
+        previousImport: previous
+          ? {
+            sessionPath: previous.sessionPath,
+            sessionId: previous.record.sessionId,
+            importedAt: previous.record.importedAt,
+            shareChanged: previous.record.contentHash !== contentHash,
+            onConflict,
+          }
+          : null,
+      };
+    }
+
+    if (previous && onConflict === 'skip') {
+      return {
+        sessionPath: previous.sessionPath,
+        sessionId: previous.record.sessionId,
+        messageCount: previous.record.messageCount,
+        projectPath,
+        agentSessionPaths: previous.record.agentSessionPaths,
+        status: 'skipped',
+        shareChanged: previous.record.contentHash !== contentHash,
+        danglingReferences,
+      };
+    }
+
+    // Step 6: Remap UUIDs to avoid conflicts
+    // An overwrite keeps the session ID (and so the file) of the earlier import
+    if (previous) {
+      mapper.assign(sourceSessionId, previous.record.sessionId);
+    }
     const remappedMessages = messages.map((msg) => mapper.remapMessage(msg));
+    if (danglingReferences.length > 0) {
+      console.warn(
+        `Session has ${danglingReferences.length} dangling reference(s): ` +
+        danglingReferences.slice(0, 5).map((ref) => `${ref.field} ${ref.value}`).join(', ') +
+        (danglingReferences.length > 5 ? ', ...' : '')
+      );
+    }
 
-    // Step 6: Restore absolute cwd paths
+    // Step 7: Rebase paths onto the project
     // Sanitization converts absolute paths to relative for privacy.
-    // We need to restore them so Claude Code can find the session.
-    const restoredMessages = remappedMessages.map((msg) =>
-      restoreAbsoluteCwd(msg, projectPath)
-    );
+    // We need to make them absolute again so Claude Code can find the session and its files.
+    const rebaseOptions = { projectPath, relativePaths: metadata.relativePaths, pathMappings };
+    const restoredMessages = rebaseSessionPaths(remappedMessages, rebaseOptions);
 
-    // Step 7: Write to local storage
+    // Step 8: Write to local storage
     const result = await writeSessionToLocal(restoredMessages, projectPath);
 
-    // Step 8: Return import result
+    const agentSessionPaths: string[] = [];
+    for (const agent of agentSessions) {
+      const agentMessages = rebaseSessionPaths(
+        agent.messages.map((msg) => mapper.remapMessage(msg)),
+        rebaseOptions
+      );
+      agentSessionPaths.push(
+        await writeAgentSessionToLocal(agentMessages, projectPath, mapper.remapAgentId(agent.agentId))
+      );
+    }
+
+    // Agent files of the earlier import that the new version no longer has
+    for (const stalePath of previous?.record.agentSessionPaths ?? []) {
+      if (!agentSessionPaths.includes(stalePath)) {
+        await rm(stalePath, { force: true });
+      }
+    }
+
+    // Remember the source so the next import of this share is detected; only warn on failure
+    try {
+      await recordImport(result.filePath, {
+        backend: backend.name,
+        shareId: share.id,
+        url: share.url,
+        ...(share.revision && { revision: share.revision }),
+        contentHash,
+        projectPath,
+        sessionId: result.sessionId,
+        messageCount: restoredMessages.length,
+        agentSessionPaths,
+      });
+    } catch (error: any) {
+      console.warn(`Could not record import of ${share.url}: ${error?.message || String(error)}`);
+    }
+
+    // Log the import to the local ledger; the session is already written, so only warn on failure
+    try {
+      await appendLedgerEntry({
+        action: 'import',
+        sessionPath: result.filePath,
+        backend: backend.name,
+        shareId: share.id,
+        url: share.url,
+        contentHash,
+        encrypted,
+      });
+    } catch (error: any) {
+      console.warn(`Could not write share ledger entry for ${result.filePath}: ${error?.message || String(error)}`);
+    }
+
+    // Step 9: Return import result
     return {
       sessionPath: result.filePath,
       sessionId: result.sessionId,
       messageCount: restoredMessages.length,
       projectPath,
+      agentSessionPaths,
+      status: previous ? 'overwritten' : 'created',
+      danglingReferences,
     };
   } catch (error) {
+    // Keep the error type so callers can tell a wrong key or expired share from other failures
+    if (error instanceof DecryptionError || error instanceof ShareExpiredError) {
+      throw error;
+    }
+
     // Add context to errors for better debugging
     if (error instanceof Error) {
       throw new Error(`Failed to import session: ${error.message}`);
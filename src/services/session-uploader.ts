@@ -1,74 +1,402 @@
 /**
- * Session-to-Gist upload service
+ * Session upload service
  *
- * Orchestrates the complete workflow of uploading a Claude Code session to GitHub Gist:
- * 1. Read session messages
- * 2. Sanitize for privacy
- * 3. Convert to JSONL format
- * 4. Extract metadata
- * 5. Upload to Gist
+ * Orchestrates the complete workflow of uploading a Claude Code session to a share
+ * backend (GitHub Gist by default, see backends/registry):
+ * 1. Read session messages and the session's agent sidechain files
+ * 2. Load redaction policy and sanitize for privacy
+ * 3. Convert to JSONL format and re-scan for residual secrets
+ * 4. Extract metadata (large sessions are compressed and split into parts, see shares/chunking)
+ * 5. Optionally encrypt the bundle client-side (passphrase or recipient keys)
+ * 6. Upload to the configured backend (skipped for dry runs, which return a redaction report instead)
+ * 7. Remember which share the session went to (for in-place updates) and log it to the ledger
  */
 
+import { basename } from 'path';
 import { parseSessionFile } from '../session/reader.js';
+import { findAgentSessionFiles } from '../session/finder.js';
 import { extractMetadata } from '../session/metadata.js';
-import { sanitizeSession, inferBasePath } from '../sanitization/pipeline.js';
-import { GistClient } from '../gist/client.js';
+import {
+  sanitizeSession,
+  inferBasePath,
+  scanSanitizedSession,
+  ResidualSecretsError,
+  type ResidualFinding,
+} from '../sanitization/pipeline.js';
+import { loadRedactionPolicy } from '../sanitization/policy.js';
+import { SanitizationReporter, type SanitizationReport } from '../sanitization/report.js';
+import { getShareBackend } from '../backends/registry.js';
+import type { ShareBackend, StoredShare } from '../backends/types.js';
+import { encryptBundle, type EncryptionOptions } from '../encryption/envelope.js';
+import { getShareMapping, recordShareMapping } from '../shares/mapping.js';
+import { appendLedgerEntry, hashContent } from '../shares/ledger.js';
+import { expiryFromTtl } from '../shares/expiry.js';
+import { chunkLargeFiles } from '../shares/chunking.js';
+import type { SessionMessage } from '../session/types.js';
 
 /**
- * Upload a session file to GitHub Gist
+ * Prefix of every share description; marks shares created by this project
+ */
+export const SHARE_DESCRIPTION_PREFIX = 'Claude Code Session';
+
+/**
+ * Description used for encrypted shares (the real one would leak the project name)
+ */
+export const ENCRYPTED_SHARE_DESCRIPTION = `${SHARE_DESCRIPTION_PREFIX} (encrypted)`;
+
+/**
+ * Options for uploading a session
+ */
+export interface UploadOptions {
+  /** Run the full pipeline and return a preview instead of uploading */
+  dryRun?: boolean;
+  /** Upload even if the residual secret scan still finds likely secrets */
+  allowResidualFindings?: boolean;
+  /** Encrypt the bundle so the backend stores only ciphertext */
+  encryption?: EncryptionOptions;
+  /** Declare an expiry such as "7d" (see shares/expiry) */
+  ttl?: string;
+}
+
+/**
+ * Options for updating a previously shared session
+ */
+export interface UpdateShareOptions {
+  /** Upload even if the residual secret scan still finds likely secrets */
+  allowResidualFindings?: boolean;
+  /** Encrypt the new revision (required if the share was encrypted before) */
+  encryption?: EncryptionOptions;
+  /** New expiry such as "7d", counted from now (the previous expiry is kept otherwise) */
+  ttl?: string;
+}
+
+/**
+ * Result of a dry-run upload: what would be shared and what was changed
+ */
+export interface SharePreview {
+  /** Share description that would be used */
+  description: string;
+  /** Number of messages that would be shared */
+  messageCount: number;
+  /** Agent sidechain files (agent-<id>.jsonl) bundled with the session */
+  agentFiles: string[];
+  /** Project root paths were relativized against (empty if unknown) */
+  basePath: string;
+  /** Redactions and path rewrites performed by sanitization */
+  report: SanitizationReport;
+  /** Likely secrets still present after sanitization (a real share would be refused) */
+  residualFindings: ResidualFinding[];
+}
+
+/**
+ * Sanitized, upload-ready form of a session
+ */
+interface PreparedShare {
+  preview: SharePreview;
+  files: Record<string, string>;
+  /** Sanitized session JSONL (large sessions are stored chunked in `files`) */
+  sessionJsonl: string;
+  /** Declared expiry written to metadata.json */
+  expiresAt?: string;
+}
+
+/**
+ * Upload a session file to the configured share backend
  *
- * Performs full sanitization pipeline and uploads to secret (unlisted) Gist.
+ * Performs full sanitization pipeline and uploads (to a secret, unlisted Gist by default).
+ * With `dryRun`, runs the same pipeline but returns a SharePreview without uploading.
+ * Refuses to upload if the residual secret scan finds anything, unless
+ * `allowResidualFindings` is set. With `encryption`, the bundle is encrypted
+ * locally and only the envelope is uploaded (see encryption/envelope). With `ttl`,
+ * the expiry is declared in metadata.json (see shares/expiry).
+ * The new share is recorded locally (see shares/mapping) for updateSharedSession.
  *
  * @param sessionPath - Absolute path to session JSONL file
- * @returns Promise resolving to Gist URL
- * @throws Error if any step fails (reading, sanitizing, uploading)
+ * @param options - Upload options (dryRun, allowResidualFindings, encryption, ttl)
+ * @returns Promise resolving to the share URL, or a SharePreview for dry runs
+ * @throws {ResidualSecretsError} If likely secrets survive sanitization and no override is given
+ * @throws Error if any other step fails (reading, invalid redaction policy, sanitizing, uploading)
  *
  * @example
  * const url = await uploadSession('/Users/name/.claude/projects/abc/session.jsonl');
  * console.log(`Shared at: ${url}`);
+ *
+ * const preview = await uploadSession(sessionPath, { dryRun: true });
+ * console.log(preview.report.redactionCounts);
  */
-export async function uploadSession(sessionPath: string): Promise<string> {
+export async function uploadSession(sessionPath: string, options?: UploadOptions & { dryRun?: false }): Promise<string>;
+export async function uploadSession(sessionPath: string, options: UploadOptions & { dryRun: true }): Promise<SharePreview>;
+export async function uploadSession(sessionPath: string, options?: UploadOptions): Promise<string | SharePreview>;
+export async function uploadSession(
+  sessionPath: string,
+  options: UploadOptions = {}
+): Promise<string | SharePreview> {
   try {
-    // Step 1: Read session messages
-    const messages = await parseSessionFile(sessionPath);
+    // Steps 1-4: Read, sanitize, re-scan and extract metadata
+    const expiresAt = options.ttl ? expiryFromTtl(options.ttl) : undefined;
+    const prepared = await prepareShare(sessionPath, expiresAt);
 
-    if (messages.length === 0) {
-      throw new Error('Session file is empty or contains no valid messages');
+    // Dry run: report what would be shared without touching the network
+    if (options.dryRun) {
+      return prepared.preview;
     }
 
-    // Step 2: Sanitize session for privacy
-    const basePath = inferBasePath(messages);
-    const sanitizedMessages = sanitizeSession(messages, basePath);
+    // Step 5: Enforce the residual scan and encrypt if requested
+    const { description, files } = await sealShare(prepared, options);
+
+    // Step 6: Upload to the configured backend
+    const backend = getShareBackend();
 
-    // Step 3: Convert sanitized messages to JSONL string
-    const sessionJsonl = sanitizedMessages.map(msg => JSON.stringify(msg)).join('\n');
+    const share = await backend.create(description, files);
 
-    // Step 4: Extract metadata for gist description and metadata file
-    const metadata = extractMetadata(sanitizedMessages);
+    // Step 7: Remember the share for later updates and audits
+    await rememberShare('share', sessionPath, backend, share, prepared, Boolean(options.encryption));
 
-    if (!metadata) {
-      throw new Error('Failed to extract session metadata');
+    return share.url;
+  } catch (error) {
+    // Keep structured findings intact for callers
+    if (error instanceof ResidualSecretsError) {
+      throw error;
     }
 
-    // Step 5: Upload to Gist
-    const gistClient = new GistClient();
+    // Add context to errors for better debugging
+    if (error instanceof Error) {
+      throw new Error(`Failed to upload session: ${error.message}`);
+    }
+    throw new Error(`Failed to upload session: ${String(error)}`);
+  }
+}
+
+/**
+ * Re-share a session as a new revision of the share it was last uploaded to
+ *
+ * Runs the same sanitization pipeline as uploadSession, then replaces the files of
+ * the share recorded for this session, so the share URL stays the same.
+ * A share that was encrypted is never updated with plaintext. The share keeps its
+ * expiry unless a new `ttl` is given.
+ *
+ * @param sessionPath - Absolute path to session JSONL file
+ * @param options - Update options (allowResidualFindings, encryption, ttl)
+ * @returns Promise resolving to the (unchanged) share URL
+ * @throws {ResidualSecretsError} If likely secrets survive sanitization and no override is given
+ * @throws Error if the session was never shared, or any other step fails
+ *
+ * @example
+ * await uploadSession(sessionPath);       // https://gist.github.com/user/abc123
+ * await updateSharedSession(sessionPath); // same URL, new revision
+ */
+export async function updateSharedSession(
+  sessionPath: string,
+  options: UpdateShareOptions = {}
+): Promise<string> {
+  try {
+    const mapping = await getShareMapping(sessionPath);
+    if (!mapping) {
+      throw new Error(
+        `Session has not been shared from this machine yet: ${sessionPath}. Share it first.`
+      );
+    }
+    if (mapping.encrypted && !options.encryption) {
+      throw new Error(
+        `Share ${mapping.url} is encrypted; provide a passphrase or recipients to update it.`
+      );
+    }
 
-    // Use metadata title if available, fallback to timestamp-based title
-    const description = metadata.projectPath && metadata.projectPath !== 'unknown'
-      ? `Claude Code Session - ${metadata.projectPath.split('/').pop()}`
-      : `Claude Code Session - ${new Date(metadata.firstTimestamp).toISOString()}`;
+    const expiresAt = options.ttl ? expiryFromTtl(options.ttl) : mapping.expiresAt;
+    const prepared = await prepareShare(sessionPath, expiresAt);
+    const { description, files } = await sealShare(prepared, options);
 
-    const response = await gistClient.createGist(description, {
-      'session.jsonl': sessionJsonl,
-      'metadata.json': JSON.stringify(metadata, null, 2),
-    });
+    const backend = getShareBackend(mapping.backend);
+    const share = await backend.update(mapping.shareId, files, description);
+
+    await rememberShare('update', sessionPath, backend, share, prepared, Boolean(options.encryption));
 
-    return response.html_url;
+    return share.url;
   } catch (error) {
-    // Add context to errors for better debugging
+    if (error instanceof ResidualSecretsError) {
+      throw error;
+    }
+
     if (error instanceof Error) {
-      throw new Error(`Failed to upload session: ${error.message}`);
+      throw new Error(`Failed to update share: ${error.message}`);
     }
-    throw new Error(`Failed to upload session: ${String(error)}`);
+    throw new Error(`Failed to update share: ${String(error)}`);
+  }
+}
+
+/**
+ * Read, sanitize and re-scan a session, producing the plaintext bundle
+ */
+async function prepareShare(sessionPath: string, expiresAt?: string): Promise<PreparedShare> {
+  // Step 1: Read session messages
+  const messages = await parseSessionFile(sessionPath);
+
+  if (messages.length === 0) {
+    throw new Error('Session file is empty or contains no valid messages');
+  }
+
+  // Agent sidechain transcripts (Task/subagent runs) of this session travel with it
+  const agentSessions = await readAgentSessions(sessionPath, messages[0].sessionId);
+
+  // Step 2: Sanitize session for privacy
+  // Policy is loaded once per upload; an invalid policy aborts the share
+  const basePath = inferBasePath(messages);
+  const policy = await loadRedactionPolicy(basePath || undefined);
+  const reporter = new SanitizationReporter();
+  const sanitizedMessages = sanitizeSession(messages, basePath, policy, reporter);
+
+  // Step 3: Convert sanitized messages to JSONL string
+  const sessionJsonl = sanitizedMessages.map(msg => JSON.stringify(msg)).join('\n');
+
+  // Re-scan the exact bytes that would be uploaded with the broader detector set
+  const residualFindings = scanSanitizedSession(sessionJsonl, policy);
+
+  // Agent files go through the same sanitization and re-scan, sharing the base path and report
+  const agentFiles: Record<string, string> = {};
+  for (const { filename, messages: agentMessages } of agentSessions) {
+    const agentJsonl = sanitizeSession(agentMessages, basePath, policy, reporter)
+      .map(msg => JSON.stringify(msg))
+      .join('\n');
+    agentFiles[filename] = agentJsonl;
+    for (const finding of scanSanitizedSession(agentJsonl, policy)) {
+      residualFindings.push({ ...finding, file: filename });
+    }
+  }
+
+  // Step 4: Extract metadata for gist description and metadata file
+  const metadata = extractMetadata(sanitizedMessages);
+
+  if (!metadata) {
+    throw new Error('Failed to extract session metadata');
+  }
+
+  // Name the share after the project directory, fallback to timestamp-based title
+  // (sanitized paths are relative, so the name comes from the base path)
+  const projectName = basename(basePath || (metadata.projectPath !== 'unknown' ? metadata.projectPath : ''));
+  const description = projectName && projectName !== '.'
+    ? `${SHARE_DESCRIPTION_PREFIX} - ${projectName}`
+    : `${SHARE_DESCRIPTION_PREFIX} - ${new Date(metadata.firstTimestamp).toISOString()}`;
+
+  // Large sessions are gzipped and split into parts that fit backend file limits
+  const { files: contentFiles, chunks } = await chunkLargeFiles({ 'session.jsonl': sessionJsonl, ...agentFiles });
+  const contentHashes: Record<string, string> = {};
+  for (const [filename, content] of Object.entries(contentFiles)) {
+    contentHashes[filename] = hashContent(content);
+  }
+
+  // The relative paths the sanitizer produced, so import can make them absolute again in text
+  const report = reporter.toReport();
+  const relativePaths = [...new Set(report.relativizedPaths.map((p) => p.relative))]
+    .filter((p) => p !== '.')
+    .sort();
+
+  return {
+    preview: {
+      description,
+      messageCount: sanitizedMessages.length,
+      agentFiles: Object.keys(agentFiles),
+      basePath,
+      report,
+      residualFindings,
+    },
+    files: {
+      ...contentFiles,
+      'metadata.json': JSON.stringify({
+        ...metadata,
+        hasAgentConversations: metadata.hasAgentConversations || agentSessions.length > 0,
+        ...(expiresAt ? { expiresAt } : {}),
+        ...(Object.keys(chunks).length > 0 ? { chunks } : {}),
+        ...(relativePaths.length > 0 ? { relativePaths } : {}),
+        contentHashes,
+      }, null, 2),
+    },
+    sessionJsonl,
+    expiresAt,
+  };
+}
+
+/**
+ * Read the agent files next to a session that belong to it (same sessionId)
+ *
+ * Agent files are optional extras: one that cannot be read is skipped with a warning.
+ */
+async function readAgentSessions(
+  sessionPath: string,
+  sessionId: string
+): Promise<Array<{ filename: string; messages: SessionMessage[] }>> {
+  const agentSessions: Array<{ filename: string; messages: SessionMessage[] }> = [];
+  for (const file of await findAgentSessionFiles(sessionPath)) {
+    try {
+      const messages = await parseSessionFile(file.path);
+      if (messages.length > 0 && messages.some(msg => msg.sessionId === sessionId)) {
+        agentSessions.push({ filename: basename(file.path), messages });
+      }
+    } catch (error: any) {
+      console.warn(`Skipping agent file ${file.path}: ${error?.message || String(error)}`);
+    }
+  }
+  return agentSessions.sort((a, b) => a.filename.localeCompare(b.filename));
+}
+
+/**
+ * Refuse residual findings (unless overridden) and encrypt client-side if requested,
+ * so the backend never sees plaintext
+ */
+async function sealShare(
+  prepared: PreparedShare,
+  options: UpdateShareOptions
+): Promise<{ description: string; files: Record<string, string> }> {
+  if (prepared.preview.residualFindings.length > 0 && !options.allowResidualFindings) {
+    throw new ResidualSecretsError(prepared.preview.residualFindings);
+  }
+
+  if (options.encryption) {
+    return {
+      description: ENCRYPTED_SHARE_DESCRIPTION,
+      files: await encryptBundle(prepared.files, options.encryption),
+    };
+  }
+  return { description: prepared.preview.description, files: prepared.files };
+}
+
+/**
+ * Record the session-to-share mapping and a ledger entry
+ *
+ * The share already exists at this point, so a failure to record it is only a warning.
+ */
+async function rememberShare(
+  action: 'share' | 'update',
+  sessionPath: string,
+  backend: ShareBackend,
+  share: StoredShare,
+  prepared: PreparedShare,
+  encrypted: boolean
+): Promise<void> {
+  try {
+    await recordShareMapping(sessionPath, {
+      backend: backend.name,
+      shareId: share.id,
+      url: share.url,
+      encrypted,
+      expiresAt: prepared.expiresAt,
+    });
+  } catch (error: any) {
+    console.warn(`Could not record share mapping for ${sessionPath}: ${error?.message || String(error)}`);
+  }
+
+  try {
+    await appendLedgerEntry({
+      action,
+      sessionPath,
+      backend: backend.name,
+      shareId: share.id,
+      url: share.url,
+      contentHash: hashContent(prepared.sessionJsonl),
+      redactionCounts: prepared.preview.report.redactionCounts,
+      encrypted,
+      ...(prepared.expiresAt ? { expiresAt: prepared.expiresAt } : {}),
+    });
+  } catch (error: any) {
+    console.warn(`Could not write share ledger entry for ${sessionPath}: ${error?.message || String(error)}`);
   }
 }
@@ -0,0 +1,157 @@
+/**
+ * Expired share cleanup service
+ *
+ * Deletes shares whose declared expiry (see shares/expiry) has passed:
+ * 1. Find expired shares on the configured backend via their metadata.json
+ * 2. Add expired shares recorded in the local ledger (encrypted shares, other backends)
+ * 3. Delete each one, forget it in the share mapping and log it to the ledger
+ */
+
+import { getShareBackend } from '../backends/registry.js';
+import { isExpired } from '../shares/expiry.js';
+import { appendLedgerEntry, readLedger, type LedgerEntry } from '../shares/ledger.js';
+import { removeShareMappings } from '../shares/mapping.js';
+import { listShares } from './share-lister.js';
+
+/**
+ * A share past its declared expiry
+ */
+export interface ExpiredShare {
+  /** Registry name of the backend */
+  backend: string;
+  /** Backend identifier of the share */
+  shareId: string;
+  /** Share URL */
+  url: string;
+  /** Declared expiry (ISO timestamp) */
+  expiresAt: string;
+}
+
+/**
+ * Options for cleaning up expired shares
+ */
+export interface CleanupOptions {
+  /** Only report expired shares, without deleting them */
+  dryRun?: boolean;
+  /** Reference time (defaults to now) */
+  now?: Date;
+}
+
+/**
+ * Outcome of a cleanup run
+ */
+export interface CleanupResult {
+  /** Every expired share found */
+  expired: ExpiredShare[];
+  /** Shares deleted (or found already gone); empty for dry runs */
+  deleted: ExpiredShare[];
+  /** Shares that could not be deleted */
+  failed: Array<ExpiredShare & { error: string }>;
+}
+
+/**
+ * Delete every share whose declared expiry has passed
+ *
+ * Expiry is read from metadata.json on the configured backend. Encrypted shares
+ * (whose metadata is inside the envelope) and shares on other backends are found
+ * through the local ledger. A failure to delete one share does not stop the others.
+ *
+ * @param options - Cleanup options (dryRun, now)
+ * @returns Expired, deleted and failed shares
+ * @throws Error if the configured backend cannot be listed or the ledger cannot be read
+ *
+ * @example
+ * const { deleted, failed } = await cleanupExpiredShares();
+ * console.log(`Deleted ${deleted.length}, failed ${failed.length}`);
+ */
+export async function cleanupExpiredShares(options: CleanupOptions = {}): Promise<CleanupResult> {
+  try {
+    const now = options.now ?? new Date();
+    const candidates = new Map<string, ExpiredShare>();
+    // Shares whose current metadata.json was readable: it overrides older ledger entries
+    const decidedByMetadata = new Set<string>();
+
+    // Step 1: Expiry declared in metadata.json on the configured backend
+    for (const share of await listShares()) {
+      const key = shareKey(share.backend, share.shareId);
+      if (!share.encrypted) {
+        decidedByMetadata.add(key);
+      }
+      if (share.expiresAt && isExpired(share.expiresAt, now)) {
+        candidates.set(key, {
+          backend: share.backend,
+          shareId: share.shareId,
+          url: share.url,
+          expiresAt: share.expiresAt,
+        });
+      }
+    }
+
+    // Step 2: Expiry recorded in the ledger; the latest entry per share wins
+    const latest = new Map<string, LedgerEntry>();
+    for (const entry of await readLedger()) {
+      if (entry.action !== 'import') {
+        latest.set(shareKey(entry.backend, entry.shareId), entry);
+      }
+    }
+    for (const [key, entry] of latest) {
+      const active = entry.action === 'share' || entry.action === 'update';
+      if (active && !decidedByMetadata.has(key) && entry.expiresAt && isExpired(entry.expiresAt, now)) {
+        candidates.set(key, {
+          backend: entry.backend,
+          shareId: entry.shareId,
+          url: entry.url,
+          expiresAt: entry.expiresAt,
+        });
+      }
+    }
+
+    const result: CleanupResult = { expired: [...candidates.values()], deleted: [], failed: [] };
+    if (options.dryRun) {
+      return result;
+    }
+
+    // Step 3: Delete, forget and log each expired share
+    for (const share of result.expired) {
+      try {
+        await deleteShare(share);
+      } catch (error: any) {
+        result.failed.push({ ...share, error: error?.message || String(error) });
+        continue;
+      }
+
+      await removeShareMappings(share.backend, share.shareId);
+      try {
+        await appendLedgerEntry({ action: 'expire', ...share });
+      } catch (error: any) {
+        console.warn(`Could not write share ledger entry for ${share.url}: ${error?.message || String(error)}`);
+      }
+      result.deleted.push(share);
+    }
+
+    return result;
+  } catch (error) {
+    if (error instanceof Error) {
+      throw new Error(`Failed to clean up expired shares: ${error.message}`);
+    }
+    throw new Error(`Failed to clean up expired shares: ${String(error)}`);
+  }
+}
+
+/**
+ * Delete a share, treating one that is already gone as deleted
+ */
+async function deleteShare(share: ExpiredShare): Promise<void> {
+  try {
+    await getShareBackend(share.backend).delete(share.shareId);
+  } catch (error: any) {
+    if (error?.statusCode === 404 || error?.code === 'ENOENT') {
+      return;
+    }
+    throw error;
+  }
+}
+
+function shareKey(backend: string, shareId: string): string {
+  return `${backend}\u0000${shareId}`;
+}
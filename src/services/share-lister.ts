@@ -0,0 +1,174 @@
+/**
+ * Shared session listing service
+ *
+ * Finds the sessions shared by the current user, without relying on local state:
+ * 1. List every share visible to the configured backend (following pagination)
+ * 2. Keep the ones created by this project (description marker or bundle files)
+ * 3. Read metadata.json of each plaintext share for message counts and expiry
+ *    (only that file: session files can be megabytes each)
+ * 4. Annotate shares with the local sessions they were shared from, if known
+ */
+
+import { getShareBackend } from '../backends/registry.js';
+import type { ShareBackend, ShareSummary } from '../backends/types.js';
+import { ENCRYPTED_BUNDLE_FILENAME } from '../encryption/envelope.js';
+import type { SessionMetadata } from '../session/metadata.js';
+import { loadShareMap, type ShareMapping } from '../shares/mapping.js';
+import { isChunkPartFilename } from '../shares/chunking.js';
+import { SHARE_DESCRIPTION_PREFIX } from './session-uploader.js';
+
+/**
+ * A session share found on the backend
+ */
+export interface SharedSessionSummary {
+  /** Share description (e.g. "Claude Code Session - my-app") */
+  title: string;
+  /** Project directory name, if known */
+  projectName: string | null;
+  /** Number of shared messages (null for encrypted or unreadable shares) */
+  messageCount: number | null;
+  /** Declared expiry (null if none, or unknown because the share is encrypted) */
+  expiresAt: string | null;
+  /** Whether the share holds an encrypted envelope */
+  encrypted: boolean;
+  /** ISO timestamp of creation */
+  createdAt: string;
+  /** ISO timestamp of last update */
+  updatedAt: string;
+  /** Backend identifier of the share */
+  shareId: string;
+  /** Share URL */
+  url: string;
+  /** Registry name of the backend */
+  backend: string;
+  /** Local sessions recorded as shared to it (empty if shared elsewhere or the mapping was lost) */
+  sessionPaths: string[];
+}
+
+/**
+ * Check whether a listed share was created by this project
+ *
+ * Recognized by the description marker, or by the bundle files for shares whose
+ * description was edited.
+ *
+ * @param share - Share summary from ShareBackend.list()
+ */
+export function isSessionShare(share: ShareSummary): boolean {
+  if (share.description.startsWith(SHARE_DESCRIPTION_PREFIX)) {
+    return true;
+  }
+  return (
+    share.filenames.includes(ENCRYPTED_BUNDLE_FILENAME) ||
+    (share.filenames.includes('metadata.json') &&
+      share.filenames.some((name) => name.endsWith('.jsonl') || isChunkPartFilename(name)))
+  );
+}
+
+/**
+ * Check whether parsed JSON has the shape of this project's metadata.json
+ */
+export function isSessionMetadata(value: unknown): value is SessionMetadata {
+  const candidate = value as Partial<SessionMetadata> | null;
+  return (
+    typeof candidate === 'object' &&
+    candidate !== null &&
+    typeof candidate.sessionId === 'string' &&
+    typeof candidate.messageCount === 'number' &&
+    typeof candidate.firstTimestamp === 'string'
+  );
+}
+
+/**
+ * List the sessions shared to the configured backend, newest first
+ *
+ * @returns Summaries of every recognized session share
+ * @throws Error if the backend cannot be listed
+ *
+ * @example
+ * for (const share of await listShares()) {
+ *   console.log(`${share.title} (${share.messageCount} messages): ${share.url}`);
+ * }
+ */
+export async function listShares(): Promise<SharedSessionSummary[]> {
+  try {
+    const backend = getShareBackend();
+
+    // Steps 1-2: List everything (backends follow pagination), keep session shares
+    const candidates = (await backend.list()).filter(isSessionShare);
+
+    // Step 4 needs the mapping; a missing or corrupt one only loses the annotation
+    const mapping = await loadShareMap().catch((): Record<string, ShareMapping> => ({}));
+
+    const summaries: SharedSessionSummary[] = [];
+    for (const share of candidates) {
+      const encrypted = share.filenames.includes(ENCRYPTED_BUNDLE_FILENAME);
+
+      // Step 3: Message counts live in metadata.json (absent for encrypted shares)
+      let metadata: SessionMetadata | null = null;
+      if (!encrypted && share.filenames.includes('metadata.json')) {
+        metadata = await readMetadata(backend, share);
+        // Without the description marker, only a valid metadata.json proves it is a session share
+        if (!metadata && !share.description.startsWith(SHARE_DESCRIPTION_PREFIX)) {
+          continue;
+        }
+      }
+
+      summaries.push({
+        title: share.description,
+        projectName: projectNameFromDescription(share.description),
+        messageCount: metadata?.messageCount ?? null,
+        expiresAt: metadata?.expiresAt ?? null,
+        encrypted,
+        createdAt: share.createdAt,
+        updatedAt: share.updatedAt,
+        shareId: share.id,
+        url: share.url,
+        backend: backend.name,
+        sessionPaths: Object.keys(mapping).filter((sessionPath) =>
+          mapping[sessionPath].backend === backend.name && mapping[sessionPath].shareId === share.id
+        ),
+      });
+    }
+
+    return summaries.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  } catch (error) {
+    if (error instanceof Error) {
+      throw new Error(`Failed to list shares: ${error.message}`);
+    }
+    throw new Error(`Failed to list shares: ${String(error)}`);
+  }
+}
+
+/**
+ * Load and validate metadata.json; unreadable metadata is reported as null
+ *
+ * Uses the content the listing already returned, else fetches just that file
+ * where the backend can; only other backends fetch the whole bundle.
+ */
+async function readMetadata(backend: ShareBackend, share: ShareSummary): Promise<SessionMetadata | null> {
+  try {
+    const content = share.metadata ?? (backend.fetchFile
+      ? await backend.fetchFile(share.id, 'metadata.json')
+      : (await backend.fetch(share.id)).files['metadata.json']);
+    const parsed = content ? JSON.parse(content) : null;
+    return isSessionMetadata(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Project name from a "Claude Code Session - <project>" description
+ * (timestamp-titled and encrypted shares have none)
+ */
+function projectNameFromDescription(description: string): string | null {
+  const prefix = `${SHARE_DESCRIPTION_PREFIX} - `;
+  if (!description.startsWith(prefix)) {
+    return null;
+  }
+  const name = description.slice(prefix.length).trim();
+  if (!name || name === '.' || /^\d{4}-\d{2}-\d{2}T/.test(name)) {
+    return null;
+  }
+  return name;
+}
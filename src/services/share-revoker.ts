@@ -0,0 +1,161 @@
+/**
+ * Share revocation service
+ *
+ * Deletes a previously created share so a leaked session can be taken down:
+ * 1. Resolve the target (share URL/ID, or a local session path via the share mapping)
+ * 2. Fetch the share to confirm it exists and show what would be deleted
+ * 3. With confirmation, delete it from the backend
+ * 4. Forget the share in the local session-to-share mapping and log it to the ledger
+ */
+
+import { getShareBackend, resolveShareBackend } from '../backends/registry.js';
+import type { ShareBackend } from '../backends/types.js';
+import { findSessionsForShare, getShareMapping, removeShareMappings } from '../shares/mapping.js';
+import { appendLedgerEntry } from '../shares/ledger.js';
+
+/**
+ * Share to revoke: a share URL/ID, or a session shared from this machine
+ */
+export type RevokeTarget = { shareUrl: string } | { sessionPath: string };
+
+/**
+ * Options for revoking a share
+ */
+export interface RevokeOptions {
+  /** Actually delete the share; without it only the target is reported */
+  confirm?: boolean;
+}
+
+/**
+ * What was (or would be) revoked
+ */
+export interface RevokeResult {
+  /** True once the share is deleted; false when confirmation is still needed */
+  revoked: boolean;
+  /** Registry name of the backend holding the share */
+  backend: string;
+  /** Backend identifier of the share */
+  shareId: string;
+  /** Share URL */
+  url: string;
+  /** Share description */
+  description: string;
+  /** Files in the share */
+  filenames: string[];
+  /** Local sessions recorded as shared to it */
+  sessionPaths: string[];
+}
+
+/**
+ * Error thrown when a share exists but the configured credentials cannot delete it
+ */
+export class ShareNotOwnedError extends Error {
+  constructor(
+    message: string,
+    public readonly url: string
+  ) {
+    super(message);
+    this.name = 'ShareNotOwnedError';
+  }
+}
+
+/**
+ * Revoke (delete) a share
+ *
+ * Without `confirm`, nothing is deleted: the share is fetched and described so the
+ * caller can check it is the right one.
+ *
+ * @param target - Share URL or ID, or the path of a session shared from this machine
+ * @param options - Revoke options (confirm)
+ * @returns What was (or would be) deleted
+ * @throws {ShareNotOwnedError} If the share exists but belongs to someone else
+ * @throws Error if the target cannot be resolved, fetched or deleted
+ *
+ * @example
+ * const target = { shareUrl: 'https://gist.github.com/user/abc123' };
+ * const pending = await revokeShare(target);
+ * console.log(pending.filenames); // check, then:
+ * await revokeShare(target, { confirm: true });
+ */
+export async function revokeShare(target: RevokeTarget, options: RevokeOptions = {}): Promise<RevokeResult> {
+  try {
+    // Step 1: Resolve the backend and reference
+    const { backend, ref } = await resolveTarget(target);
+
+    // Step 2: Confirm the share exists
+    const share = await backend.fetch(ref);
+    const result: RevokeResult = {
+      revoked: false,
+      backend: backend.name,
+      shareId: share.id,
+      url: share.url,
+      description: share.description,
+      filenames: Object.keys(share.files),
+      sessionPaths: await findSessionsForShare(backend.name, share.id),
+    };
+
+    if (!options.confirm) {
+      return result;
+    }
+
+    // Step 3: Delete it
+    try {
+      await backend.delete(ref);
+    } catch (error: any) {
+      // The share could be read, so a refusal here means another account owns it
+      // (GitHub answers 404 rather than 403 when deleting someone else's gist)
+      const status = error?.statusCode ?? error?.code;
+      if ([403, 404, 'EACCES', 'EPERM'].includes(status)) {
+        throw new ShareNotOwnedError(
+          `Share ${share.url} exists but cannot be deleted with your credentials. ` +
+          'Only the account that created it can revoke it; ask its owner to run revoke_share.',
+          share.url
+        );
+      }
+      throw error;
+    }
+
+    // Step 4: Forget it locally and keep an audit record
+    await removeShareMappings(backend.name, share.id);
+    try {
+      await appendLedgerEntry({
+        action: 'revoke',
+        sessionPath: 'sessionPath' in target ? target.sessionPath : result.sessionPaths[0],
+        backend: backend.name,
+        shareId: share.id,
+        url: share.url,
+      });
+    } catch (error: any) {
+      console.warn(`Could not write share ledger entry for ${share.url}: ${error?.message || String(error)}`);
+    }
+
+    return { ...result, revoked: true };
+  } catch (error) {
+    if (error instanceof ShareNotOwnedError) {
+      throw error;
+    }
+
+    if (error instanceof Error) {
+      throw new Error(`Failed to revoke share: ${error.message}`);
+    }
+    throw new Error(`Failed to revoke share: ${String(error)}`);
+  }
+}
+
+/**
+ * Resolve a revoke target to a backend and share reference
+ */
+async function resolveTarget(target: RevokeTarget): Promise<{ backend: ShareBackend; ref: string }> {
+  if ('sessionPath' in target) {
+    const mapping = await getShareMapping(target.sessionPath);
+    if (!mapping) {
+      throw new Error(
+        `No share recorded for session ${target.sessionPath}. Pass the share URL instead.`
+      );
+    }
+    return { backend: getShareBackend(mapping.backend), ref: mapping.shareId };
+  }
+
+  const ref = target.shareUrl.trim();
+  return { backend: resolveShareBackend(ref), ref };
+}
@@ -6,7 +6,7 @@
  */
 
 import { readdir } from 'fs/promises';
-import { join } from 'path';
+import { basename, dirname, join } from 'path';
 import { getSessionDirectory } from '../utils/path-encoding.js';
 import type { SessionFile } from './types.js';
 
@@ -40,27 +40,7 @@ export async function findSessionFiles(projectPath: string): Promise<SessionFile
   const sessionDir = getSessionDirectory(projectPath);
 
   try {
-    // List all files in the session directory
-    const files = await readdir(sessionDir);
-
-    // Filter and map to SessionFile objects
-    return files
-      .filter(filename => filename.endsWith('.jsonl'))
-      .map(filename => {
-        // Detect agent sessions by filename prefix
-        const isAgent = filename.startsWith('agent-');
-
-        // Extract session ID: remove 'agent-' prefix if present, then remove '.jsonl' extension
-        const sessionId = isAgent
-          ? filename.replace('agent-', '').replace('.jsonl', '')
-          : filename.replace('.jsonl', '');
-
-        return {
-          path: join(sessionDir, filename),
-          sessionId,
-          isAgent,
-        };
-      });
+    return await listSessionFiles(sessionDir);
   } catch (error) {
     // Handle missing directory gracefully - not an error if project has no sessions yet
     if (error && typeof error === 'object' && 'code' in error && error.code === 'ENOENT') {
@@ -71,3 +51,55 @@ export async function findSessionFiles(projectPath: string): Promise<SessionFile
     throw error;
   }
 }
+
+/**
+ * Finds the agent (sidechain) session files stored next to a main session file
+ *
+ * Agent files of every session in the directory are returned; callers match them
+ * to a session by the sessionId inside.
+ *
+ * @param sessionPath - Path to the main session file
+ * @returns Agent session files in the same directory (sessionId is the agent ID)
+ *
+ * @example
+ * const agents = await findAgentSessionFiles('/Users/name/.claude/projects/Users-name-project/abc-123.jsonl');
+ * // Returns: [{ path: '.../agent-def-456.jsonl', sessionId: 'def-456', isAgent: true }]
+ */
+export async function findAgentSessionFiles(sessionPath: string): Promise<SessionFile[]> {
+  try {
+    const files = await listSessionFiles(dirname(sessionPath));
+    return files.filter(file => file.isAgent && basename(file.path) !== basename(sessionPath));
+  } catch (error) {
+    if (error && typeof error === 'object' && 'code' in error && error.code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+}
+
+/**
+ * List the session JSONL files in a session directory
+ */
+async function listSessionFiles(sessionDir: string): Promise<SessionFile[]> {
+  // List all files in the session directory
+  const files = await readdir(sessionDir);
+
+  // Filter and map to SessionFile objects
+  return files
+    .filter(filename => filename.endsWith('.jsonl'))
+    .map(filename => {
+      // Detect agent sessions by filename prefix
+      const isAgent = filename.startsWith('agent-');
+
+      // Extract session ID: remove 'agent-' prefix if present, then remove '.jsonl' extension
+      const sessionId = isAgent
+        ? filename.replace('agent-', '').replace('.jsonl', '')
+        : filename.replace('.jsonl', '');
+
+      return {
+        path: join(sessionDir, filename),
+        sessionId,
+        isAgent,
+      };
+    });
+}
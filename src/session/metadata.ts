@@ -6,6 +6,7 @@
  */
 
 import type { SessionMessage, UserMessage } from './types.js';
+import type { ChunkManifest } from '../shares/chunking.js';
 
 /**
  * Session metadata extracted from messages
@@ -31,6 +32,18 @@ export interface SessionMetadata {
 
   /** Claude Code version that created the session */
   version: string;
+
+  /** When the share expires (ISO timestamp); set by the uploader for shares with a ttl */
+  expiresAt?: string;
+
+  /** Hashes of the other bundle files keyed by filename (see hashContent); set by the uploader, checked on import */
+  contentHashes?: Record<string, string>;
+
+  /** Files stored as compressed parts, keyed by original filename (see shares/chunking) */
+  chunks?: Record<string, ChunkManifest>;
+
+  /** Relative paths the sanitizer produced from absolute project paths; lets import rebase them in text (see session/path-rebase) */
+  relativePaths?: string[];
 }
 
 /**
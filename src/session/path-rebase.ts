@@ -0,0 +1,264 @@
+/**
+ * Rebase sanitized paths onto the project a session is imported into
+ *
+ * Sharing rewrites absolute paths under the project root to relative ones
+ * (see sanitization/sanitizer). On import they are made absolute again under
+ * the importer's project path, optionally moving subtrees first with prefix
+ * mappings (e.g. packages/api -> services/api):
+ * - cwd of every line type
+ * - path fields of tool inputs and structured tool output (file_path, path, ...)
+ * - file-history-snapshot entries
+ * - every field of line types without a dedicated sanitizer (system, progress, ...)
+ * - paths inside text (prompts, assistant text, tool results, Bash commands),
+ *   when the share lists the relative paths the sanitizer produced
+ */
+
+import { isAbsolute, join, normalize } from 'path';
+import { LINE_ID_FIELDS } from './references.js';
+import type { SessionMessage } from './types.js';
+
+/**
+ * Keys of tool inputs and tool output whose string value is a single path
+ */
+const PATH_KEYS = new Set(['cwd', 'file_path', 'filePath', 'notebook_path', 'path']);
+
+/**
+ * Line types the sanitizer handles field by field; all others have every field sanitized
+ */
+const MODELED_LINE_TYPES = new Set(['user', 'assistant', 'file-history-snapshot']);
+
+/**
+ * Where and how to rebase paths
+ */
+export interface PathRebaseOptions {
+  /** Absolute project path the session is imported into */
+  projectPath: string;
+  /**
+   * Relative paths the sanitizer produced (metadata.json relativePaths); only
+   * these are rewritten inside text. Without them text is left unchanged.
+   */
+  relativePaths?: string[];
+  /** Relative prefix mappings applied before rebasing, e.g. { 'packages/api': 'services/api' } */
+  pathMappings?: Record<string, string>;
+}
+
+/**
+ * Error thrown for an unusable prefix mapping
+ */
+export class PathMappingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PathMappingError';
+  }
+}
+
+/**
+ * Check prefix mappings and normalize them (no "./", no trailing slash)
+ *
+ * @param mappings - Relative source prefixes mapped to relative target prefixes
+ * @returns Normalized mappings
+ * @throws {PathMappingError} If a prefix is empty, absolute, or leaves the project (..)
+ */
+export function normalizePathMappings(mappings: Record<string, string>): Record<string, string> {
+  const normalized: Record<string, string> = {};
+  for (const [from, to] of Object.entries(mappings)) {
+    normalized[normalizeRelative(from, from, to)] = normalizeRelative(to, from, to);
+  }
+  return normalized;
+}
+
+/**
+ * Apply the longest matching prefix mapping to a relative path
+ *
+ * Prefixes match whole path segments: packages/api maps packages/api/x.ts but
+ * not packages/api-client/x.ts.
+ *
+ * @example
+ * mapRelativePath('packages/api/src/x.ts', { 'packages/api': 'services/api' }) // 'services/api/src/x.ts'
+ */
+export function mapRelativePath(relativePath: string, mappings: Record<string, string> = {}): string {
+  let best: string | null = null;
+  for (const from of Object.keys(mappings)) {
+    const matches = relativePath === from || relativePath.startsWith(`${from}/`);
+    if (matches && (best === null || from.length > best.length)) {
+      best = from;
+    }
+  }
+  return best === null ? relativePath : mappings[best] + relativePath.slice(best.length);
+}
+
+/**
+ * Make a sanitized path absolute under the project path
+ *
+ * Absolute paths (outside the original project, never relativized) are left
+ * unchanged; "." is the project root.
+ *
+ * @example
+ * rebasePath('src/app.ts', { projectPath: '/work/app' }) // '/work/app/src/app.ts'
+ */
+export function rebasePath(sanitizedPath: string, options: PathRebaseOptions): string {
+  if (isAbsolute(sanitizedPath)) {
+    return sanitizedPath;
+  }
+  if (sanitizedPath === '.' || sanitizedPath === '') {
+    return options.projectPath;
+  }
+  return join(options.projectPath, mapRelativePath(sanitizedPath, options.pathMappings));
+}
+
+/**
+ * Rebase every sanitized path in session messages
+ *
+ * @param messages - Session messages as shared
+ * @param options - Project path, relative paths produced by the sanitizer, prefix mappings
+ * @returns New messages with absolute paths (originals unchanged)
+ *
+ * @example
+ * const rebased = rebaseSessionPaths(messages, { projectPath: '/work/app', relativePaths: metadata.relativePaths });
+ */
+export function rebaseSessionPaths<T extends SessionMessage>(messages: T[], options: PathRebaseOptions): T[] {
+  const rebaseText = createTextRebaser(options);
+  return messages.map((message) => rebaseMessagePaths(message, options, rebaseText));
+}
+
+/**
+ * Rebase the paths of one message
+ */
+function rebaseMessagePaths<T extends SessionMessage>(
+  message: T,
+  options: PathRebaseOptions,
+  rebaseText: (text: string) => string
+): T {
+  const line = message as unknown as Record<string, unknown>;
+  const result: Record<string, unknown> = { ...line };
+
+  if (typeof line.cwd === 'string' && line.cwd) {
+    result.cwd = rebasePath(line.cwd, options);
+  } else if (line.type === 'user') {
+    // Claude Code needs an absolute cwd to associate the session with the project
+    result.cwd = options.projectPath;
+  }
+
+  // System, progress, ... lines: the sanitizer walked every field (see sanitizeGenericMessage)
+  if (!MODELED_LINE_TYPES.has(line.type as string)) {
+    for (const [key, value] of Object.entries(line)) {
+      if (key !== 'cwd' && !LINE_ID_FIELDS.has(key)) {
+        result[key] = rebaseStructured(value, options, rebaseText);
+      }
+    }
+    return result as unknown as T;
+  }
+
+  const inner = line.message as { content?: unknown } | undefined;
+  if (inner && inner.content !== undefined) {
+    result.message = {
+      ...inner,
+      content: typeof inner.content === 'string'
+        ? rebaseText(inner.content)
+        : rebaseStructured(inner.content, options, rebaseText),
+    };
+  }
+
+  if (line.toolUseResult !== undefined) {
+    result.toolUseResult = rebaseStructured(line.toolUseResult, options, rebaseText);
+  }
+
+  // Old assistant format (v1.x): snapshot.messages
+  const snapshot = line.snapshot as Record<string, unknown> | undefined;
+  if (line.type === 'assistant' && snapshot && Array.isArray(snapshot.messages)) {
+    result.snapshot = {
+      ...snapshot,
+      messages: snapshot.messages.map((m: { content?: unknown }) => ({
+        ...m,
+        content: typeof m.content === 'string' ? rebaseText(m.content) : m.content,
+      })),
+    };
+  }
+
+  if (line.type === 'file-history-snapshot' && snapshot) {
+    const rebased: Record<string, unknown> = { ...snapshot };
+    if (Array.isArray(snapshot.files)) {
+      rebased.files = snapshot.files.map((file: { path?: unknown }) => (
+        typeof file.path === 'string' ? { ...file, path: rebasePath(file.path, options) } : file
+      ));
+    }
+    const backups = snapshot.trackedFileBackups;
+    if (backups && typeof backups === 'object') {
+      rebased.trackedFileBackups = Object.fromEntries(
+        Object.entries(backups).map(([filePath, backup]) => [rebasePath(filePath, options), backup])
+      );
+    }
+    result.snapshot = rebased;
+  }
+
+  return result as unknown as T;
+}
+
+/**
+ * Walk content blocks, tool inputs and tool output: path fields are rebased,
+ * other strings are rebased as text; image blocks are skipped
+ */
+function rebaseStructured(
+  value: unknown,
+  options: PathRebaseOptions,
+  rebaseText: (text: string) => string
+): unknown {
+  if (typeof value === 'string') {
+    return rebaseText(value);
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item) => rebaseStructured(item, options, rebaseText));
+  }
+
+  if (value && typeof value === 'object') {
+    const obj = value as Record<string, unknown>;
+    if (obj.type === 'image') {
+      return obj;
+    }
+
+    const result: Record<string, unknown> = {};
+    for (const [key, child] of Object.entries(obj)) {
+      result[key] = PATH_KEYS.has(key) && typeof child === 'string' && child && !/\s/.test(child)
+        ? rebasePath(child, options)
+        : rebaseStructured(child, options, rebaseText);
+    }
+    return result;
+  }
+
+  return value;
+}
+
+/**
+ * Build a function that rewrites the sanitizer's relative paths inside text
+ *
+ * Only paths with a "/" or a "." are rewritten (a bare name such as "src" is
+ * too likely to be an ordinary word), and only where they stand alone: not
+ * inside a longer path, URL or word.
+ */
+function createTextRebaser(options: PathRebaseOptions): (text: string) => string {
+  const candidates = [...new Set(options.relativePaths ?? [])]
+    .filter((relativePath) => /[/.]/.test(relativePath) && relativePath !== '.' && !isAbsolute(relativePath))
+    .sort((a, b) => b.length - a.length);
+  if (candidates.length === 0) {
+    return (text) => text;
+  }
+
+  const escaped = candidates.map((candidate) => candidate.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  const pattern = new RegExp(`(?<![\\w./~-])(?:${escaped.join('|')})(?![\\w/-])`, 'g');
+  return (text) => text.replace(pattern, (match) => rebasePath(match, options));
+}
+
+/**
+ * Normalize one side of a mapping, rejecting anything outside the project
+ */
+function normalizeRelative(prefix: string, from: string, to: string): string {
+  const trimmed = prefix.trim().replace(/\\/g, '/');
+  const normalized = trimmed ? normalize(trimmed).replace(/\/+$/, '') : '';
+  if (!normalized || normalized === '.' || isAbsolute(normalized) || normalized === '..' || normalized.startsWith('../')) {
+    throw new PathMappingError(
+      `Invalid path mapping "${from}" -> "${to}": both sides must be relative paths inside the project.`
+    );
+  }
+  return normalized;
+}
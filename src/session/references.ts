@@ -0,0 +1,126 @@
+/**
+ * Cross-references between session lines
+ *
+ * Besides uuid/sessionId/parentUuid, session lines refer to each other through:
+ * - logicalParentUuid: message before a compact boundary
+ * - leafUuid: last message covered by a summary line
+ * - messageId: user message a file-history-snapshot belongs to
+ * - tool_use block ids, referenced by tool_result blocks (tool_use_id) and by
+ *   progress/hook lines (toolUseID, sourceToolUseID)
+ * - agentId: agent (sidechain) transcript a line belongs to or a Task result points at
+ *
+ * The UUID mapper rewrites all of them; findDanglingReferences checks that
+ * every reference still resolves.
+ */
+
+import type { SessionMessage } from './types.js';
+
+/**
+ * Fields referring to the uuid of another line
+ */
+export const MESSAGE_REFERENCE_FIELDS = ['parentUuid', 'logicalParentUuid', 'leafUuid'] as const;
+
+/**
+ * Fields referring to the id of a tool_use block
+ */
+export const TOOL_REFERENCE_FIELDS = ['toolUseID', 'sourceToolUseID'] as const;
+
+/**
+ * Top-level line fields holding identifiers, timestamps and the line type
+ * (left alone when the other fields of a line are sanitized or rebased)
+ */
+export const LINE_ID_FIELDS: ReadonlySet<string> = new Set([
+  'type',
+  'uuid',
+  ...MESSAGE_REFERENCE_FIELDS,
+  'sessionId',
+  'messageId',
+  'requestId',
+  ...TOOL_REFERENCE_FIELDS,
+  'agentId',
+  'timestamp',
+]);
+
+/**
+ * Content block types carrying a tool call id
+ */
+export const TOOL_USE_BLOCK_TYPES = new Set(['tool_use', 'server_tool_use']);
+
+/**
+ * A reference that does not resolve within the session
+ */
+export interface DanglingReference {
+  /** uuid of the line holding the reference (null for lines without one, e.g. summaries) */
+  messageUuid: string | null;
+  /** Field holding the reference (e.g. "parentUuid", "tool_result.tool_use_id") */
+  field: string;
+  /** The unresolved value */
+  value: string;
+}
+
+/**
+ * Content blocks of a user or assistant line (empty for plain-text or other lines)
+ */
+export function getContentBlocks(message: SessionMessage): Array<Record<string, unknown>> {
+  const content = (message as { message?: { content?: unknown } }).message?.content;
+  return Array.isArray(content) ? content.filter((block) => block && typeof block === 'object') : [];
+}
+
+/**
+ * Find references that do not resolve within a set of session lines
+ *
+ * Pass the main session together with its agent transcripts, since sidechains
+ * refer to lines and tool calls of the main session. A parentUuid of the first
+ * line of a file (a continued session) is reported too; callers decide whether
+ * that matters.
+ *
+ * @param messages - Session lines to check
+ * @returns Unresolved references in line order (empty if all resolve)
+ *
+ * @example
+ * for (const ref of findDanglingReferences([...mainMessages, ...agentMessages])) {
+ *   console.warn(`${ref.field} ${ref.value} of ${ref.messageUuid} does not resolve`);
+ * }
+ */
+export function findDanglingReferences(messages: SessionMessage[]): DanglingReference[] {
+  const uuids = new Set<string>();
+  const toolUseIds = new Set<string>();
+  for (const message of messages) {
+    if (typeof message.uuid === 'string') {
+      uuids.add(message.uuid);
+    }
+    for (const block of getContentBlocks(message)) {
+      if (TOOL_USE_BLOCK_TYPES.has(block.type as string) && typeof block.id === 'string') {
+        toolUseIds.add(block.id);
+      }
+    }
+  }
+
+  const dangling: DanglingReference[] = [];
+  for (const message of messages) {
+    const line = message as unknown as Record<string, unknown>;
+    const messageUuid = typeof line.uuid === 'string' ? line.uuid : null;
+    const check = (field: string, value: unknown, known: Set<string>) => {
+      if (typeof value === 'string' && !known.has(value)) {
+        dangling.push({ messageUuid, field, value });
+      }
+    };
+
+    for (const field of MESSAGE_REFERENCE_FIELDS) {
+      check(field, line[field], uuids);
+    }
+    if (line.type === 'file-history-snapshot') {
+      check('messageId', line.messageId, uuids);
+    }
+    for (const field of TOOL_REFERENCE_FIELDS) {
+      check(field, line[field], toolUseIds);
+    }
+    for (const block of getContentBlocks(message)) {
+      if (block.type === 'tool_result') {
+        check('tool_result.tool_use_id', block.tool_use_id, toolUseIds);
+      }
+    }
+  }
+
+  return dangling;
+}
@@ -22,10 +22,13 @@ export interface BaseMessage {
 
 /**
  * User message content structure
+ *
+ * Content is a plain string for typed prompts, or an array of content blocks
+ * (tool_result, text, image) when the message carries tool output or attachments.
  */
 export interface UserMessageContent {
   role: 'user';
-  content: string;
+  content: string | ContentBlock[];
 }
 
 /**
@@ -38,6 +41,7 @@ export interface UserMessage extends BaseMessage {
   version: string;
   gitBranch?: string;
   isMeta?: boolean;
+  toolUseResult?: unknown; // Structured tool output recorded alongside tool_result blocks
 }
 
 /**
@@ -55,36 +55,78 @@ export async function writeSessionToLocal(
   messages: SessionMessage[],
   projectPath: string
 ): Promise<WriteSessionResult> {
+  // Claude Code's --resume looks up sessions by internal sessionId,
+  // so filename must match the sessionId inside the messages
+  if (messages.length === 0) {
+    throw new SessionWriteError('Cannot write empty session: no messages provided');
+  }
+  // Summary lines at the start of continued sessions carry no sessionId
+  const sessionId = messages.find((message) => typeof message.sessionId === 'string')?.sessionId;
+  if (!sessionId) {
+    throw new SessionWriteError('Cannot write session: no message has a sessionId');
+  }
+
+  return {
+    filePath: await writeJsonl(messages, projectPath, `${sessionId}.jsonl`),
+    sessionId,
+  };
+}
+
+/**
+ * Write an agent (sidechain) session next to its main session
+ *
+ * Creates ~/.claude/projects/{encodedPath}/agent-{agentId}.jsonl. The messages
+ * carry the sessionId of the main session they belong to.
+ *
+ * @param messages - Array of agent session messages to write
+ * @param projectPath - Absolute path to the project (e.g., "/Users/name/project")
+ * @param agentId - Agent ID from the agent file name
+ * @returns Promise resolving to the written file path
+ * @throws {SessionWriteError} If the agent ID is not a plain identifier or writing fails
+ *
+ * @example
+ * const path = await writeAgentSessionToLocal(agentMessages, '/Users/name/my-project', 'a1b2c3d4');
+ */
+export async function writeAgentSessionToLocal(
+  messages: SessionMessage[],
+  projectPath: string,
+  agentId: string
+): Promise<string> {
+  if (!/^[\w-]+$/.test(agentId)) {
+    throw new SessionWriteError(`Invalid agent ID: ${agentId}`);
+  }
+  if (messages.length === 0) {
+    throw new SessionWriteError(`Cannot write empty agent session: ${agentId}`);
+  }
+  return writeJsonl(messages, projectPath, `agent-${agentId}.jsonl`);
+}
+
+/**
+ * Write messages as JSONL into the project's session directory
+ */
+async function writeJsonl(
+  messages: SessionMessage[],
+  projectPath: string,
+  filename: string
+): Promise<string> {
   try {
     // 1. Encode project path for directory name
     const encodedPath = encodeProjectPath(projectPath);
 
-    // 2. Extract sessionId from messages for filename
-    // Claude Code's --resume looks up sessions by internal sessionId,
-    // so filename must match the sessionId inside the messages
-    if (messages.length === 0) {
-      throw new SessionWriteError('Cannot write empty session: no messages provided');
-    }
-    const sessionId = messages[0].sessionId;
-
-    // 3. Build target directory and file paths
+    // 2. Build target directory and file paths
     const sessionDirectory = join(homedir(), '.claude', 'projects', encodedPath);
-    const targetPath = join(sessionDirectory, `${sessionId}.jsonl`);
+    const targetPath = join(sessionDirectory, filename);
 
-    // 4. Create directory structure (handles missing ~/.claude/projects/ gracefully)
+    // 3. Create directory structure (handles missing ~/.claude/projects/ gracefully)
     await mkdir(sessionDirectory, { recursive: true });
 
-    // 5. Format as JSONL: one JSON object per line with trailing newline
+    // 4. Format as JSONL: one JSON object per line with trailing newline
     const jsonlContent = messages.map((msg) => JSON.stringify(msg)).join('\n') + '\n';
 
-    // 6. Write file atomically
+    // 5. Write file
     await writeFile(targetPath, jsonlContent, { encoding: 'utf-8' });
 
-    // 7. Return written file path and session ID for verification
-    return {
-      filePath: targetPath,
-      sessionId,
-    };
+    return targetPath;
   } catch (error: any) {
     // Handle filesystem errors with descriptive messages
     if (error.code === 'EACCES') {
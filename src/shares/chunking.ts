@@ -0,0 +1,150 @@
+/**
+ * Chunked, compressed storage of large bundle files
+ *
+ * Share backends limit file sizes (the Gist API truncates content over about
+ * 1 MB). Large JSONL files are therefore gzipped, base64-encoded and split into
+ * numbered parts (session.jsonl -> session.part-001.jsonl.gz.b64, ...). The
+ * manifest describing the parts is stored in metadata.json under `chunks`.
+ * Small files keep their plain form.
+ */
+
+import { gzip, gunzip } from 'zlib';
+import { promisify } from 'util';
+import { hashContent } from './ledger.js';
+
+const gzipAsync = promisify(gzip);
+const gunzipAsync = promisify(gunzip);
+
+/**
+ * Files larger than this (in bytes) are chunked
+ */
+export const CHUNK_THRESHOLD_BYTES = 900 * 1024;
+
+/**
+ * Maximum length of one part (base64 characters, so also bytes)
+ */
+export const CHUNK_PART_CHARS = 900 * 1024;
+
+/**
+ * How a file was split into parts
+ */
+export interface ChunkManifest {
+  /** Encoding applied before splitting */
+  encoding: 'gzip+base64';
+  /** Part filenames, in order */
+  parts: string[];
+  /** Byte length of the original file */
+  size: number;
+  /** Hash of the original file (see hashContent) */
+  contentHash: string;
+}
+
+/**
+ * Options for chunking
+ */
+export interface ChunkOptions {
+  /** Chunk files larger than this many bytes (default CHUNK_THRESHOLD_BYTES) */
+  thresholdBytes?: number;
+  /** Maximum part length (default CHUNK_PART_CHARS) */
+  partChars?: number;
+}
+
+/**
+ * Whether a filename is a chunk part
+ *
+ * @example
+ * isChunkPartFilename('session.part-001.jsonl.gz.b64') // true
+ */
+export function isChunkPartFilename(filename: string): boolean {
+  return /\.part-\d{3,}\.jsonl\.gz\.b64$/.test(filename);
+}
+
+/**
+ * Gzip and split every JSONL file above the threshold
+ *
+ * @param files - Bundle files keyed by filename
+ * @param options - Threshold and part size
+ * @returns Files with large JSONL files replaced by their parts, and a manifest per replaced file
+ *
+ * @example
+ * const { files, chunks } = await chunkLargeFiles({ 'session.jsonl': jsonl });
+ * // files: { 'session.part-001.jsonl.gz.b64': ..., ... }, chunks: { 'session.jsonl': {...} }
+ */
+export async function chunkLargeFiles(
+  files: Record<string, string>,
+  options: ChunkOptions = {}
+): Promise<{ files: Record<string, string>; chunks: Record<string, ChunkManifest> }> {
+  const thresholdBytes = options.thresholdBytes ?? CHUNK_THRESHOLD_BYTES;
+  const partChars = options.partChars ?? CHUNK_PART_CHARS;
+  const result: Record<string, string> = {};
+  const chunks: Record<string, ChunkManifest> = {};
+
+  for (const [filename, content] of Object.entries(files)) {
+    const size = Buffer.byteLength(content, 'utf-8');
+    if (!filename.endsWith('.jsonl') || size <= thresholdBytes) {
+      result[filename] = content;
+      continue;
+    }
+
+    const encoded = (await gzipAsync(Buffer.from(content, 'utf-8'))).toString('base64');
+    const stem = filename.slice(0, -'.jsonl'.length);
+    const parts: string[] = [];
+    for (let offset = 0; offset < encoded.length; offset += partChars) {
+      const partName = `${stem}.part-${String(parts.length + 1).padStart(3, '0')}.jsonl.gz.b64`;
+      result[partName] = encoded.slice(offset, offset + partChars);
+      parts.push(partName);
+    }
+
+    chunks[filename] = { encoding: 'gzip+base64', parts, size, contentHash: hashContent(content) };
+  }
+
+  return { files: result, chunks };
+}
+
+/**
+ * Reassemble chunked files and verify them against their manifest
+ *
+ * @param files - Bundle files as fetched
+ * @param chunks - Manifests from metadata.json (nothing to do if absent)
+ * @returns Files with parts replaced by the original files
+ * @throws Error if a part is missing, the encoding is unknown, or the result does not match the manifest
+ */
+export async function reassembleChunks(
+  files: Record<string, string>,
+  chunks: Record<string, ChunkManifest> | undefined
+): Promise<Record<string, string>> {
+  if (!chunks || Object.keys(chunks).length === 0) {
+    return files;
+  }
+
+  const result = { ...files };
+  for (const [filename, manifest] of Object.entries(chunks)) {
+    if (manifest.encoding !== 'gzip+base64') {
+      throw new Error(`Unsupported chunk encoding "${manifest.encoding}" for ${filename}.`);
+    }
+
+    const missing = manifest.parts.filter((part) => !(part in files));
+    if (missing.length > 0) {
+      throw new Error(`${filename} is incomplete: missing ${missing.join(', ')}.`);
+    }
+
+    let content: string;
+    try {
+      const compressed = Buffer.from(manifest.parts.map((part) => files[part]).join(''), 'base64');
+      content = (await gunzipAsync(compressed, { maxOutputLength: manifest.size })).toString('utf-8');
+    } catch (error: any) {
+      throw new Error(`${filename} could not be decompressed: ${error?.message || String(error)}`);
+    }
+
+    if (hashContent(content) !== manifest.contentHash) {
+      throw new Error(`${filename} does not match the content hash in its chunk manifest.`);
+    }
+
+    for (const part of manifest.parts) {
+      delete result[part];
+    }
+    result[filename] = content;
+  }
+
+  return result;
+}
@@ -0,0 +1,71 @@
+/**
+ * Share expiry (time-to-live) helpers
+ *
+ * A share created with a ttl such as "7d" records its absolute expiry
+ * (`expiresAt`) in metadata.json and the local ledger. Backends never expire
+ * anything themselves: expired shares are refused on import and deleted by
+ * cleanup_expired_shares.
+ */
+
+const TTL_UNITS_MS: Record<string, number> = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Error thrown when importing a share whose declared expiry has passed
+ */
+export class ShareExpiredError extends Error {
+  constructor(
+    message: string,
+    public readonly expiresAt: string
+  ) {
+    super(message);
+    this.name = 'ShareExpiredError';
+  }
+}
+
+/**
+ * Parse a ttl such as "30m", "12h", "7d" or "2w"
+ *
+ * @param ttl - Positive integer followed by a unit (m, h, d, w)
+ * @returns Duration in milliseconds
+ * @throws Error if the ttl is malformed or zero
+ *
+ * @example
+ * parseTtl('7d') // 604800000
+ */
+export function parseTtl(ttl: string): number {
+  const match = ttl.trim().match(/^(\d+)\s*([mhdw])$/i);
+  if (!match || Number(match[1]) === 0) {
+    throw new Error(`Invalid ttl "${ttl}". Use a positive number with a unit: m, h, d or w (e.g. "7d").`);
+  }
+  return Number(match[1]) * TTL_UNITS_MS[match[2].toLowerCase()];
+}
+
+/**
+ * Absolute expiry for a ttl
+ *
+ * @param ttl - See parseTtl
+ * @param now - Reference time (defaults to now)
+ * @returns ISO timestamp
+ */
+export function expiryFromTtl(ttl: string, now: Date = new Date()): string {
+  return new Date(now.getTime() + parseTtl(ttl)).toISOString();
+}
+
+/**
+ * Check whether a declared expiry has passed
+ *
+ * @param expiresAt - ISO timestamp, or nothing for shares that never expire
+ * @param now - Reference time (defaults to now)
+ */
+export function isExpired(expiresAt: string | null | undefined, now: Date = new Date()): boolean {
+  if (!expiresAt) {
+    return false;
+  }
+  const time = Date.parse(expiresAt);
+  return !Number.isNaN(time) && time <= now.getTime();
+}
@@ -0,0 +1,155 @@
+/**
+ * Local record of which share each imported session came from
+ *
+ * Stored at ~/.claude-session-share/imports.json, keyed by absolute path of the
+ * imported session file:
+ *   { "/home/me/.claude/projects/-repo/new-id.jsonl": { backend, shareId, contentHash, ... } }
+ *
+ * Lets `import_session` notice that a share (or a pinned revision of it) was
+ * already imported into a project and skip, overwrite or copy it (see
+ * ImportOptions.onConflict).
+ */
+
+import { join, resolve } from 'path';
+import { homedir } from 'os';
+import { loadJsonStore, updateJsonStore } from './json-store.js';
+
+/**
+ * Where an imported session came from
+ */
+export interface ImportRecord {
+  /** Registry name of the backend the share was fetched from */
+  backend: string;
+  /** Backend identifier of the share */
+  shareId: string;
+  /** Share URL as fetched */
+  url: string;
+  /** Revision pinned on import (e.g. gist commit SHA); absent when the latest version was imported */
+  revision?: string;
+  /** Hash of the imported session JSONL as received (see hashContent) */
+  contentHash: string;
+  /** Project the session was imported into (absolute) */
+  projectPath: string;
+  /** Session ID assigned on import */
+  sessionId: string;
+  /** Number of messages imported */
+  messageCount: number;
+  /** Agent sidechain files written next to the session */
+  agentSessionPaths: string[];
+  /** ISO timestamp of the (latest) import */
+  importedAt: string;
+}
+
+/**
+ * Error thrown when the import index cannot be read
+ */
+export class ImportIndexError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImportIndexError';
+  }
+}
+
+/**
+ * Get the path of the import index file
+ *
+ * @returns Absolute path: ~/.claude-session-share/imports.json
+ */
+export function getImportIndexPath(): string {
+  return join(homedir(), '.claude-session-share', 'imports.json');
+}
+
+/**
+ * Load all import records
+ *
+ * @param indexPath - Index file (defaults to getImportIndexPath())
+ * @returns Records keyed by absolute imported session path (empty if the file does not exist)
+ * @throws {ImportIndexError} If the file exists but is not valid JSON
+ */
+export async function loadImportIndex(
+  indexPath: string = getImportIndexPath()
+): Promise<Record<string, ImportRecord>> {
+  return loadJsonStore<ImportRecord>(indexPath, invalidImportIndex(indexPath));
+}
+
+/**
+ * Find the sessions imported from a share (revision) into a project
+ *
+ * @param backend - Registry name of the backend
+ * @param shareId - Backend identifier of the share
+ * @param projectPath - Project directory (resolved to an absolute path)
+ * @param revision - Pinned revision, or undefined for imports of the latest version
+ * @param indexPath - Index file (defaults to getImportIndexPath())
+ * @returns Imported session paths and their records, most recent import first
+ */
+export async function findImports(
+  backend: string,
+  shareId: string,
+  projectPath: string,
+  revision?: string,
+  indexPath: string = getImportIndexPath()
+): Promise<Array<{ sessionPath: string; record: ImportRecord }>> {
+  const index = await loadImportIndex(indexPath);
+  const project = resolve(projectPath);
+  return Object.entries(index)
+    .filter(([, record]) =>
+      record.backend === backend &&
+      record.shareId === shareId &&
+      record.projectPath === project &&
+      record.revision === revision
+    )
+    .map(([sessionPath, record]) => ({ sessionPath, record }))
+    .sort((a, b) => b.record.importedAt.localeCompare(a.record.importedAt));
+}
+
+/**
+ * Record (or refresh) where an imported session came from
+ *
+ * @param sessionPath - Imported session file (resolved to an absolute path)
+ * @param record - Source share, content hash and import details (importedAt is set to now)
+ * @param indexPath - Index file (defaults to getImportIndexPath())
+ * @returns The stored record
+ */
+export async function recordImport(
+  sessionPath: string,
+  record: Omit<ImportRecord, 'importedAt'>,
+  indexPath: string = getImportIndexPath()
+): Promise<ImportRecord> {
+  return updateJsonStore<ImportRecord, ImportRecord>(indexPath, invalidImportIndex(indexPath), (index) => {
+    const stored: ImportRecord = {
+      ...record,
+      projectPath: resolve(record.projectPath),
+      importedAt: new Date().toISOString(),
+    };
+    index[resolve(sessionPath)] = stored;
+    return stored;
+  });
+}
+
+/**
+ * Forget an imported session (e.g. after its file was deleted)
+ *
+ * @param sessionPath - Imported session file (resolved to an absolute path)
+ * @param indexPath - Index file (defaults to getImportIndexPath())
+ * @returns Whether a record was removed
+ */
+export async function removeImport(
+  sessionPath: string,
+  indexPath: string = getImportIndexPath()
+): Promise<boolean> {
+  return updateJsonStore<ImportRecord, boolean>(indexPath, invalidImportIndex(indexPath), (index) => {
+    const key = resolve(sessionPath);
+    if (!(key in index)) {
+      return false;
+    }
+    delete index[key];
+    return true;
+  });
+}
+
+/**
+ * Build the error for an index file that is not a JSON object
+ */
+function invalidImportIndex(indexPath: string): (reason: string) => ImportIndexError {
+  return (reason) => new ImportIndexError(`Invalid import index file ${indexPath}: ${reason}`);
+}
@@ -0,0 +1,70 @@
+/**
+ * Small JSON files of records keyed by absolute session path
+ *
+ * Backs the share mapping (shares.json) and the import index (imports.json):
+ * both are read whole, changed in memory and written back via temp file +
+ * rename so a crash never truncates them. Files are private to the user (0600).
+ */
+
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+
+/**
+ * Load all records of a store
+ *
+ * @param filePath - Store file
+ * @param invalid - Builds the error thrown for a file that is not a JSON object
+ * @returns Records keyed by absolute session path (empty if the file does not exist)
+ * @throws The error built by `invalid` if the file exists but is not a JSON object
+ */
+export async function loadJsonStore<T>(
+  filePath: string,
+  invalid: (reason: string) => Error
+): Promise<Record<string, T>> {
+  let content: string;
+  try {
+    content = await readFile(filePath, 'utf-8');
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') {
+      return {};
+    }
+    throw error;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch (error: any) {
+    throw invalid(error.message);
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw invalid('expected an object');
+  }
+  return parsed as Record<string, T>;
+}
+
+/**
+ * Load a store, change its records in place and write it back if anything changed
+ *
+ * @param filePath - Store file
+ * @param invalid - Builds the error thrown for a file that is not a JSON object
+ * @param update - Changes the records and returns the caller's result
+ * @returns The result of `update`
+ */
+export async function updateJsonStore<T, R>(
+  filePath: string,
+  invalid: (reason: string) => Error,
+  update: (records: Record<string, T>) => R
+): Promise<R> {
+  const records = await loadJsonStore<T>(filePath, invalid);
+  const before = JSON.stringify(records);
+  const result = update(records);
+
+  if (JSON.stringify(records) !== before) {
+    await mkdir(dirname(filePath), { recursive: true, mode: 0o700 });
+    const tmpPath = `${filePath}.${process.pid}.tmp`;
+    await writeFile(tmpPath, JSON.stringify(records, null, 2), { encoding: 'utf-8', mode: 0o600 });
+    await rename(tmpPath, filePath);
+  }
+  return result;
+}
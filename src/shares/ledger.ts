@@ -0,0 +1,155 @@
+/**
+ * Local audit ledger of share activity
+ *
+ * Every share, update, import, revoke and expiry cleanup appends one JSON line to
+ * ~/.claude-session-share/ledger.jsonl, so "what did I share and when" can be
+ * answered without querying the backend. Entries hold hashes and redaction
+ * counts, never session content.
+ */
+
+import { appendFile, mkdir, readFile } from 'fs/promises';
+import { dirname, join, resolve } from 'path';
+import { homedir } from 'os';
+import { createHash } from 'crypto';
+
+/**
+ * Kind of share activity
+ */
+export type LedgerAction = 'share' | 'update' | 'import' | 'revoke' | 'expire';
+
+/**
+ * One recorded share activity
+ */
+export interface LedgerEntry {
+  action: LedgerAction;
+  /** ISO timestamp of the activity */
+  timestamp: string;
+  /** Local session: the source for share/update/revoke, the written file for import */
+  sessionPath?: string;
+  /** Registry name of the backend */
+  backend: string;
+  /** Backend identifier of the share */
+  shareId: string;
+  /** Share URL */
+  url: string;
+  /** Hash of the session JSONL as shared or received (see hashContent) */
+  contentHash?: string;
+  /** Redactions per rule applied before sharing */
+  redactionCounts?: Record<string, number>;
+  /** Whether the share is end-to-end encrypted */
+  encrypted?: boolean;
+  /** Declared expiry of the share (ISO timestamp) */
+  expiresAt?: string;
+}
+
+/**
+ * Filter for reading the ledger
+ */
+export interface LedgerQuery {
+  /** Only entries for this session (resolved to an absolute path) */
+  sessionPath?: string;
+  /** Only entries for this share (ID or URL) */
+  share?: string;
+  /** Only entries of this kind */
+  action?: LedgerAction;
+  /** Maximum number of entries (newest kept) */
+  limit?: number;
+}
+
+/**
+ * Get the path of the ledger file
+ *
+ * @returns Absolute path: ~/.claude-session-share/ledger.jsonl
+ */
+export function getLedgerPath(): string {
+  return join(homedir(), '.claude-session-share', 'ledger.jsonl');
+}
+
+/**
+ * Hash shared content for the ledger and the contentHashes in metadata.json
+ *
+ * @param content - Session JSONL (or another bundle file)
+ * @returns "sha256:<hex>"
+ */
+export function hashContent(content: string): string {
+  return `sha256:${createHash('sha256').update(content, 'utf-8').digest('hex')}`;
+}
+
+/**
+ * Append an entry to the ledger
+ *
+ * @param entry - Activity to record (timestamp defaults to now)
+ * @param ledgerPath - Ledger file (defaults to getLedgerPath())
+ * @returns The recorded entry
+ */
+export async function appendLedgerEntry(
+  entry: Omit<LedgerEntry, 'timestamp'> & { timestamp?: string },
+  ledgerPath: string = getLedgerPath()
+): Promise<LedgerEntry> {
+  const recorded: LedgerEntry = {
+    ...entry,
+    timestamp: entry.timestamp ?? new Date().toISOString(),
+    ...(entry.sessionPath ? { sessionPath: resolve(entry.sessionPath) } : {}),
+  };
+
+  await mkdir(dirname(ledgerPath), { recursive: true, mode: 0o700 });
+  // One line per append: concurrent writers cannot interleave within an entry
+  await appendFile(ledgerPath, `${JSON.stringify(recorded)}\n`, { encoding: 'utf-8', mode: 0o600 });
+  return recorded;
+}
+
+/**
+ * Read ledger entries, oldest first
+ *
+ * Lines that are not valid JSON (e.g. a write cut short by a crash) are skipped.
+ *
+ * @param query - Optional filter
+ * @param ledgerPath - Ledger file (defaults to getLedgerPath())
+ * @returns Matching entries (empty if the ledger does not exist)
+ */
+export async function readLedger(
+  query: LedgerQuery = {},
+  ledgerPath: string = getLedgerPath()
+): Promise<LedgerEntry[]> {
+  let content: string;
+  try {
+    content = await readFile(ledgerPath, 'utf-8');
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+
+  const sessionPath = query.sessionPath ? resolve(query.sessionPath) : undefined;
+  const share = query.share?.trim();
+
+  const entries: LedgerEntry[] = [];
+  for (const line of content.split('\n')) {
+    if (!line.trim()) {
+      continue;
+    }
+    let entry: LedgerEntry;
+    try {
+      entry = JSON.parse(line) as LedgerEntry;
+    } catch {
+      continue;
+    }
+
+    if (sessionPath && entry.sessionPath !== sessionPath) {
+      continue;
+    }
+    if (share && entry.shareId !== share && entry.url !== share) {
+      continue;
+    }
+    if (query.action && entry.action !== query.action) {
+      continue;
+    }
+    entries.push(entry);
+  }
+
+  if (query.limit !== undefined) {
+    return query.limit > 0 ? entries.slice(-query.limit) : [];
+  }
+  return entries;
+}
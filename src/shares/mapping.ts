@@ -0,0 +1,163 @@
+/**
+ * Local record of which share each session was published to
+ *
+ * Stored at ~/.claude-session-share/shares.json, keyed by absolute session path:
+ *   { "/home/me/.claude/projects/-repo/abc.jsonl": { backend, shareId, url, ... } }
+ *
+ * Lets `update_share` push a new revision to the same share instead of creating
+ * a new one. The file only lists URLs the user already has; it holds no session content.
+ */
+
+import { join, resolve } from 'path';
+import { homedir } from 'os';
+import { loadJsonStore, updateJsonStore } from './json-store.js';
+
+/**
+ * Where a session was shared
+ */
+export interface ShareMapping {
+  /** Registry name of the backend holding the share (e.g. 'gist') */
+  backend: string;
+  /** Backend identifier of the share */
+  shareId: string;
+  /** Share URL returned to the user */
+  url: string;
+  /** Whether the share holds an encrypted envelope (updates must stay encrypted) */
+  encrypted: boolean;
+  /** Declared expiry (ISO timestamp), kept across updates */
+  expiresAt?: string;
+  /** ISO timestamp of the first share */
+  createdAt: string;
+  /** ISO timestamp of the latest share or update */
+  updatedAt: string;
+}
+
+/**
+ * Error thrown when the mapping file cannot be read
+ */
+export class ShareMapError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ShareMapError';
+  }
+}
+
+/**
+ * Get the path of the share mapping file
+ *
+ * @returns Absolute path: ~/.claude-session-share/shares.json
+ */
+export function getShareMapPath(): string {
+  return join(homedir(), '.claude-session-share', 'shares.json');
+}
+
+/**
+ * Load all session-to-share mappings
+ *
+ * @param mapPath - Mapping file (defaults to getShareMapPath())
+ * @returns Mappings keyed by absolute session path (empty if the file does not exist)
+ * @throws {ShareMapError} If the file exists but is not valid JSON
+ */
+export async function loadShareMap(
+  mapPath: string = getShareMapPath()
+): Promise<Record<string, ShareMapping>> {
+  return loadJsonStore<ShareMapping>(mapPath, invalidShareMap(mapPath));
+}
+
+/**
+ * Look up where a session was last shared
+ *
+ * @param sessionPath - Session JSONL file (resolved to an absolute path)
+ * @param mapPath - Mapping file (defaults to getShareMapPath())
+ * @returns The mapping, or null if the session has not been shared
+ */
+export async function getShareMapping(
+  sessionPath: string,
+  mapPath: string = getShareMapPath()
+): Promise<ShareMapping | null> {
+  const map = await loadShareMap(mapPath);
+  return map[resolve(sessionPath)] ?? null;
+}
+
+/**
+ * Record (or refresh) where a session was shared
+ *
+ * Keeps the original createdAt when the session already maps to the same share.
+ *
+ * @param sessionPath - Session JSONL file (resolved to an absolute path)
+ * @param share - Backend, share ID, URL, encryption flag and expiry
+ * @param mapPath - Mapping file (defaults to getShareMapPath())
+ * @returns The stored mapping
+ */
+export async function recordShareMapping(
+  sessionPath: string,
+  share: Pick<ShareMapping, 'backend' | 'shareId' | 'url' | 'encrypted' | 'expiresAt'>,
+  mapPath: string = getShareMapPath()
+): Promise<ShareMapping> {
+  return updateJsonStore<ShareMapping, ShareMapping>(mapPath, invalidShareMap(mapPath), (map) => {
+    const key = resolve(sessionPath);
+    const previous = map[key];
+    const now = new Date().toISOString();
+
+    const mapping: ShareMapping = {
+      ...share,
+      createdAt:
+        previous && previous.backend === share.backend && previous.shareId === share.shareId
+          ? previous.createdAt
+          : now,
+      updatedAt: now,
+    };
+    map[key] = mapping;
+    return mapping;
+  });
+}
+
+/**
+ * Find the sessions that were shared to a given share
+ *
+ * @param backend - Registry name of the backend
+ * @param shareId - Backend identifier of the share
+ * @param mapPath - Mapping file (defaults to getShareMapPath())
+ * @returns Absolute session paths mapped to the share
+ */
+export async function findSessionsForShare(
+  backend: string,
+  shareId: string,
+  mapPath: string = getShareMapPath()
+): Promise<string[]> {
+  const map = await loadShareMap(mapPath);
+  return Object.keys(map).filter(
+    (sessionPath) => map[sessionPath].backend === backend && map[sessionPath].shareId === shareId
+  );
+}
+
+/**
+ * Forget a share (e.g. after it was deleted)
+ *
+ * @param backend - Registry name of the backend
+ * @param shareId - Backend identifier of the share
+ * @param mapPath - Mapping file (defaults to getShareMapPath())
+ * @returns Absolute session paths that were mapped to the share
+ */
+export async function removeShareMappings(
+  backend: string,
+  shareId: string,
+  mapPath: string = getShareMapPath()
+): Promise<string[]> {
+  return updateJsonStore<ShareMapping, string[]>(mapPath, invalidShareMap(mapPath), (map) => {
+    const removed = Object.keys(map).filter(
+      (sessionPath) => map[sessionPath].backend === backend && map[sessionPath].shareId === shareId
+    );
+    for (const sessionPath of removed) {
+      delete map[sessionPath];
+    }
+    return removed;
+  });
+}
+
+/**
+ * Build the error for a mapping file that is not a JSON object
+ */
+function invalidShareMap(mapPath: string): (reason: string) => ShareMapError {
+  return (reason) => new ShareMapError(`Invalid share mapping file ${mapPath}: ${reason}`);
+}
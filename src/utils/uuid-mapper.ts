@@ -3,11 +3,60 @@
  *
  * Provides consistent UUID remapping to avoid conflicts when importing
  * sessions into local Claude Code storage. Maintains parent-child
- * relationships through consistent mapping.
+ * relationships through consistent mapping. Every identifier a line can
+ * refer to (see session/references) is remapped: message UUIDs, the session
+ * ID, tool call ids and agent ids.
+ *
+ * New UUIDs are random by default. In deterministic mode they are UUIDv5s of
+ * the original UUID within a namespace (e.g. the share), so importing the same
+ * share twice, on any machine, produces the same UUIDs.
  */
 
-import { randomUUID } from 'crypto';
+import { createHash, randomUUID } from 'crypto';
 import type { SessionMessage } from '../session/types.js';
+import { MESSAGE_REFERENCE_FIELDS, TOOL_REFERENCE_FIELDS, TOOL_USE_BLOCK_TYPES } from '../session/references.js';
+
+/**
+ * Root namespace of deterministic import UUIDs; a mapper's namespace name is
+ * hashed into it to get the namespace its UUIDs are derived in
+ */
+export const IMPORT_UUID_NAMESPACE = '5b0f2a3e-8c1d-4e7a-9f62-3d4c5b6a7e81';
+
+/**
+ * Options for a UUID mapper
+ */
+export interface UUIDMapperOptions {
+  /**
+   * Derive UUIDs deterministically within this namespace name instead of
+   * generating random ones (any string, e.g. "gist:abc123")
+   */
+  namespace?: string;
+}
+
+/**
+ * Name-based UUID (version 5, SHA-1) as defined in RFC 9562
+ *
+ * @param namespace - Namespace UUID
+ * @param name - Name within the namespace
+ * @returns Lowercase UUID string
+ *
+ * @example
+ * uuidV5('6ba7b810-9dad-11d1-80b4-00c04fd430c8', 'www.example.com');
+ * // '2ed6657d-e927-568b-95e1-2665a8aea6a2'
+ */
+export function uuidV5(namespace: string, name: string): string {
+  const namespaceBytes = Buffer.from(namespace.replace(/-/g, ''), 'hex');
+  if (namespaceBytes.length !== 16) {
+    throw new Error(`Invalid namespace UUID "${namespace}".`);
+  }
+
+  const bytes = createHash('sha1').update(namespaceBytes).update(name, 'utf-8').digest().subarray(0, 16);
+  bytes[6] = (bytes[6] & 0x0f) | 0x50;
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;
+
+  const hex = bytes.toString('hex');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
 
 /**
  * Maps original UUIDs to new UUIDs consistently
@@ -18,13 +67,29 @@ import type { SessionMessage } from '../session/types.js';
  */
 export class UUIDMapper {
   private map: Map<string, string>;
+  private toolIds: Map<string, string>;
+  private agentIds: Map<string, string>;
+  private namespaceUuid: string | null;
 
-  constructor() {
+  /**
+   * @param options - Deterministic namespace (random UUIDs if omitted)
+   */
+  constructor(options: UUIDMapperOptions = {}) {
     this.map = new Map();
+    this.toolIds = new Map();
+    this.agentIds = new Map();
+    this.namespaceUuid = options.namespace === undefined ? null : uuidV5(IMPORT_UUID_NAMESPACE, options.namespace);
   }
 
   /**
-   * Remap a UUID to a new collision-free UUID
+   * Whether UUIDs are derived deterministically
+   */
+  get deterministic(): boolean {
+    return this.namespaceUuid !== null;
+  }
+
+  /**
+   * Remap a UUID to a new collision-free UUID (random, or derived in deterministic mode)
    *
    * @param originalUuid - The original UUID to remap (or null)
    * @returns A new UUID that consistently maps from the original, or null if input is null
@@ -34,6 +99,8 @@ export class UUIDMapper {
    * const newUuid1 = mapper.remap('abc-123'); // Generates new UUID
    * const newUuid2 = mapper.remap('abc-123'); // Returns same UUID as newUuid1
    * mapper.remap(null); // Returns null
+   *
+   * new UUIDMapper({ namespace: 'gist:abc123' }).remap('abc-123'); // Same UUID in every run
    */
   remap(originalUuid: string | null): string | null {
     // Handle null gracefully (used for root messages with no parent)
@@ -47,17 +114,68 @@ export class UUIDMapper {
       return existing;
     }
 
-    // Generate a new UUID and cache the mapping
-    const newUuid = randomUUID();
+    // Generate (or derive) a new UUID and cache the mapping
+    const newUuid = this.newUuid(originalUuid);
     this.map.set(originalUuid, newUuid);
     return newUuid;
   }
 
   /**
-   * Remap all UUIDs in a session message
+   * Remap a tool call id (tool_use block id), keeping its prefix
+   *
+   * @param originalId - Original id (e.g. "toolu_01A...")
+   * @returns New id with the same prefix, consistently mapped from the original
+   *
+   * @example
+   * mapper.remapToolId('toolu_01AbC'); // 'toolu_3f2a9c...'
+   */
+  remapToolId(originalId: string): string {
+    let newId = this.toolIds.get(originalId);
+    if (!newId) {
+      const prefix = originalId.match(/^([a-z]+)_/)?.[1] ?? 'toolu';
+      newId = `${prefix}_${this.newUuid(`tool:${originalId}`).replace(/-/g, '')}`;
+      this.toolIds.set(originalId, newId);
+    }
+    return newId;
+  }
+
+  /**
+   * Remap an agent id, keeping its shape (a UUID, or 8 to 32 hex characters)
+   *
+   * @param originalId - Original agent id (from agent-<id>.jsonl and the agentId field)
+   * @returns New agent id, consistently mapped from the original
+   */
+  remapAgentId(originalId: string): string {
+    let newId = this.agentIds.get(originalId);
+    if (!newId) {
+      const uuid = this.newUuid(`agent:${originalId}`);
+      newId = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(originalId)
+        ? uuid
+        : uuid.replace(/-/g, '').slice(0, Math.min(32, Math.max(8, originalId.length)));
+      this.agentIds.set(originalId, newId);
+    }
+    return newId;
+  }
+
+  /**
+   * Fix the UUID an original UUID maps to
+   *
+   * Used when re-importing over an earlier import, so the session keeps its ID.
+   *
+   * @param originalUuid - The original UUID
+   * @param newUuid - The UUID it must map to
+   */
+  assign(originalUuid: string, newUuid: string): void {
+    this.map.set(originalUuid, newUuid);
+  }
+
+  /**
+   * Remap all identifiers in a session message
    *
    * Creates an immutable copy of the message with remapped uuid, sessionId,
-   * and parentUuid fields. Preserves all other fields unchanged.
+   * parentUuid, logicalParentUuid, leafUuid, messageId (file-history-snapshot),
+   * tool call ids (content blocks, toolUseID, sourceToolUseID) and agent ids.
+   * Fields a line does not have stay absent; all other fields are unchanged.
    *
    * @param message - The original session message
    * @returns A new message with remapped UUIDs (original unchanged)
@@ -69,13 +187,70 @@ export class UUIDMapper {
    * // original is unchanged, remapped has new UUIDs
    */
   remapMessage(message: SessionMessage): SessionMessage {
-    // Create immutable copy with remapped UUID fields
+    // Create immutable copy with remapped identifier fields
     // Spread operator preserves all other fields (type, message, cwd, etc.)
-    return {
-      ...message,
-      uuid: this.remap(message.uuid)!,
-      sessionId: this.remap(message.sessionId)!,
-      parentUuid: this.remap(message.parentUuid),
-    };
+    const line = message as unknown as Record<string, unknown>;
+    const remapped: Record<string, unknown> = { ...line };
+
+    for (const field of ['uuid', 'sessionId', ...MESSAGE_REFERENCE_FIELDS]) {
+      if (typeof line[field] === 'string') {
+        remapped[field] = this.remap(line[field] as string);
+      }
+    }
+
+    if (line.type === 'file-history-snapshot') {
+      if (typeof line.messageId === 'string') {
+        remapped.messageId = this.remap(line.messageId);
+      }
+      const snapshot = line.snapshot as Record<string, unknown> | undefined;
+      if (typeof snapshot?.messageId === 'string') {
+        remapped.snapshot = { ...snapshot, messageId: this.remap(snapshot.messageId) };
+      }
+    }
+
+    for (const field of TOOL_REFERENCE_FIELDS) {
+      if (typeof line[field] === 'string') {
+        remapped[field] = this.remapToolId(line[field] as string);
+      }
+    }
+
+    const inner = line.message as { content?: unknown } | undefined;
+    if (inner && Array.isArray(inner.content)) {
+      remapped.message = { ...inner, content: inner.content.map((block) => this.remapContentBlock(block)) };
+    }
+
+    if (typeof line.agentId === 'string') {
+      remapped.agentId = this.remapAgentId(line.agentId);
+    }
+    const toolUseResult = line.toolUseResult as Record<string, unknown> | undefined;
+    if (toolUseResult && typeof toolUseResult === 'object' && typeof toolUseResult.agentId === 'string') {
+      remapped.toolUseResult = { ...toolUseResult, agentId: this.remapAgentId(toolUseResult.agentId) };
+    }
+
+    return remapped as unknown as SessionMessage;
+  }
+
+  /**
+   * Remap the tool call id of a tool_use block, or the one a result block refers to
+   */
+  private remapContentBlock(block: unknown): unknown {
+    if (!block || typeof block !== 'object') {
+      return block;
+    }
+    const fields = block as Record<string, unknown>;
+    if (TOOL_USE_BLOCK_TYPES.has(fields.type as string) && typeof fields.id === 'string') {
+      return { ...fields, id: this.remapToolId(fields.id) };
+    }
+    if (typeof fields.tool_use_id === 'string') {
+      return { ...fields, tool_use_id: this.remapToolId(fields.tool_use_id) };
+    }
+    return block;
+  }
+
+  /**
+   * A random UUID, or in deterministic mode the UUIDv5 of the key
+   */
+  private newUuid(key: string): string {
+    return this.namespaceUuid ? uuidV5(this.namespaceUuid, key) : randomUUID();
   }
 }